@@ -0,0 +1,668 @@
+// In-memory stand-in for the Filen gateway, ingest and down servers, for running the sync engine without network access.
+// Run it on its own and point all three entries of the endpoint profile (Settings -> Networking) at http://127.0.0.1:<port>,
+// or create one in-process with createMockGateway() like the sync tests do (src/test/syncHarness.ts).
+// Everything is encrypted by the client, so the gateway only ever stores ciphertext and hashes.
+
+const http = require("http")
+const crypto = require("crypto")
+const { URL } = require("url")
+
+const PORT = parseInt(process.env.MOCK_GATEWAY_PORT || "8088")
+const FAIL_RATE = parseFloat(process.env.MOCK_GATEWAY_FAIL_RATE || "0")
+const MAX_STORAGE = 1024 * 1024 * 1024 * 1024
+const BUCKET = "mock-bucket"
+const REGION = "mock-region"
+
+const defaultLog = (...args) => {
+	console.log(new Date().toISOString(), ...args)
+}
+
+const createMockGateway = ({ failRate = 0, log = defaultLog } = {}) => {
+	let state = null
+
+	const randomHex = bytes => {
+		return crypto.randomBytes(bytes).toString("hex")
+	}
+
+	const reset = () => {
+		state = {
+			revision: 0,
+			apiKeys: {},
+			email: "",
+			salt: randomHex(128),
+			masterKeys: "",
+			publicKey: "",
+			privateKey: "",
+			baseFolderUUID: crypto.randomUUID(),
+			folders: {},
+			files: {},
+			uploads: {},
+			chunks: {},
+			servedRevisions: {}
+		}
+
+		state.folders[state.baseFolderUUID] = {
+			uuid: state.baseFolderUUID,
+			name: "",
+			nameHashed: "",
+			parent: "base",
+			trash: false,
+			timestamp: Math.floor(Date.now() / 1000)
+		}
+	}
+
+	const changed = () => {
+		state.revision += 1
+	}
+
+	const ok = (data = undefined) => {
+		return { status: true, message: "", code: "", data }
+	}
+
+	const fail = (code, message, data = undefined) => {
+		return { status: false, message, code, data }
+	}
+
+	const isFolderAlive = uuid => {
+		if (uuid == state.baseFolderUUID) {
+			return true
+		}
+
+		const folder = state.folders[uuid]
+
+		if (!folder || folder.trash) {
+			return false
+		}
+
+		return isFolderAlive(folder.parent)
+	}
+
+	const isFileAlive = uuid => {
+		const file = state.files[uuid]
+
+		return Boolean(file && !file.trash && isFolderAlive(file.parent))
+	}
+
+	const childFolders = parent => {
+		return Object.values(state.folders).filter(folder => folder.parent == parent && !folder.trash)
+	}
+
+	const childFiles = parent => {
+		return Object.values(state.files).filter(file => file.parent == parent && !file.trash)
+	}
+
+	const findByName = (items, parent, nameHashed) => {
+		return items.filter(item => item.parent == parent && item.nameHashed == nameHashed && !item.trash)[0]
+	}
+
+	// Folders in parent before child order, which is what the client expects from dir/tree and dir/download
+	const collectTree = uuid => {
+		const folders = []
+		const files = []
+		const queue = [uuid]
+
+		while (queue.length > 0) {
+			const current = queue.shift()
+
+			for (const folder of childFolders(current)) {
+				folders.push(folder)
+				queue.push(folder.uuid)
+			}
+
+			files.push(...childFiles(current))
+		}
+
+		return { folders, files }
+	}
+
+	const storageUsed = () => {
+		return Object.values(state.files)
+			.filter(file => !file.trash)
+			.reduce((total, file) => total + file.bytes, 0)
+	}
+
+	const endpoints = {
+		"/v3/auth/info": () => {
+			return ok({ authVersion: 2, salt: state.salt })
+		},
+		"/v3/login": body => {
+			if (typeof body.email !== "string" || body.email.length == 0) {
+				return fail("email_address_not_found", "Invalid email")
+			}
+
+			const apiKey = randomHex(32)
+
+			state.apiKeys[apiKey] = true
+			state.email = body.email
+
+			return ok({ apiKey })
+		},
+		"/v3/user/info": () => {
+			return ok({ id: 1, email: state.email, isPremium: 0, maxStorage: MAX_STORAGE, storageUsed: storageUsed(), avatarURL: "" })
+		},
+		"/v3/user/baseFolder": () => {
+			return ok({ uuid: state.baseFolderUUID })
+		},
+		"/v3/user/masterKeys": body => {
+			if (state.masterKeys.length == 0) {
+				state.masterKeys = body.masterKeys
+			}
+
+			return ok({ keys: state.masterKeys })
+		},
+		"/v3/user/keyPair/info": () => {
+			return ok({ publicKey: state.publicKey, privateKey: state.privateKey })
+		},
+		"/v3/user/keyPair/set": body => {
+			state.publicKey = body.publicKey
+			state.privateKey = body.privateKey
+
+			return ok()
+		},
+		"/v3/user/keyPair/update": body => {
+			state.publicKey = body.publicKey
+			state.privateKey = body.privateKey
+
+			return ok()
+		},
+		"/v3/dir/content": body => {
+			if (!isFolderAlive(body.uuid)) {
+				return fail("folder_not_found", "Folder not found")
+			}
+
+			return ok({
+				folders: childFolders(body.uuid).map(folder => ({
+					uuid: folder.uuid,
+					name: folder.name,
+					parent: folder.parent,
+					timestamp: folder.timestamp
+				})),
+				uploads: childFiles(body.uuid).map(file => ({
+					uuid: file.uuid,
+					metadata: file.metadata,
+					parent: file.parent,
+					bucket: BUCKET,
+					region: REGION,
+					chunks: file.chunks,
+					version: file.version,
+					timestamp: file.timestamp
+				}))
+			})
+		},
+		"/v3/dir/tree": body => {
+			const root = state.folders[body.uuid]
+
+			if (!root || !isFolderAlive(body.uuid)) {
+				return fail("folder_not_found", "Folder not found")
+			}
+
+			const servedKey = body.deviceId + ":" + body.uuid
+
+			// Like the real gateway, a device only gets the full tree again after something changed
+			if (!body.skipCache && state.servedRevisions[servedKey] === state.revision) {
+				return ok({ folders: [], files: [] })
+			}
+
+			state.servedRevisions[servedKey] = state.revision
+
+			const { folders, files } = collectTree(body.uuid)
+
+			return ok({
+				folders: [[root.uuid, root.name, "base"], ...folders.map(folder => [folder.uuid, folder.name, folder.parent])],
+				files: files.map(file => [
+					file.uuid,
+					BUCKET,
+					REGION,
+					file.chunks,
+					file.parent,
+					file.metadata,
+					file.version,
+					file.timestamp
+				]),
+				randomBytes: randomHex(16)
+			})
+		},
+		"/v3/dir/create": body => {
+			if (!isFolderAlive(body.parent)) {
+				return fail("folder_not_found", "Parent folder not found")
+			}
+
+			const existing = findByName(Object.values(state.folders), body.parent, body.nameHashed)
+
+			if (existing) {
+				return fail("folder_exists", "Folder already exists", { existsUUID: existing.uuid })
+			}
+
+			state.folders[body.uuid] = {
+				uuid: body.uuid,
+				name: body.name,
+				nameHashed: body.nameHashed,
+				parent: body.parent,
+				trash: false,
+				timestamp: Math.floor(Date.now() / 1000)
+			}
+
+			changed()
+
+			return ok()
+		},
+		"/v3/dir/exists": body => {
+			const existing = findByName(Object.values(state.folders), body.parent, body.nameHashed)
+
+			return ok({ exists: Boolean(existing), uuid: existing ? existing.uuid : undefined })
+		},
+		"/v3/file/exists": body => {
+			const existing = findByName(Object.values(state.files), body.parent, body.nameHashed)
+
+			return ok({ exists: Boolean(existing), uuid: existing ? existing.uuid : undefined })
+		},
+		"/v3/dir/present": body => {
+			const folder = state.folders[body.uuid]
+
+			return ok({
+				present: Boolean(folder) || body.uuid == state.baseFolderUUID,
+				trash: Boolean(folder && !isFolderAlive(body.uuid))
+			})
+		},
+		"/v3/file/present": body => {
+			const file = state.files[body.uuid]
+
+			return ok({ present: Boolean(file), trash: Boolean(file && !isFileAlive(body.uuid)), versioned: false })
+		},
+		"/v3/dir/rename": body => {
+			const folder = state.folders[body.uuid]
+
+			if (!folder || !isFolderAlive(body.uuid)) {
+				return fail("folder_not_found", "Folder not found")
+			}
+
+			const existing = findByName(Object.values(state.folders), folder.parent, body.nameHashed)
+
+			if (existing && existing.uuid !== folder.uuid) {
+				return fail("folder_exists", "Folder already exists")
+			}
+
+			folder.name = body.name
+			folder.nameHashed = body.nameHashed
+
+			changed()
+
+			return ok()
+		},
+		"/v3/file/rename": body => {
+			const file = state.files[body.uuid]
+
+			if (!file || !isFileAlive(body.uuid)) {
+				return fail("file_not_found", "File not found")
+			}
+
+			const existing = findByName(Object.values(state.files), file.parent, body.nameHashed)
+
+			if (existing && existing.uuid !== file.uuid) {
+				return fail("file_exists", "File already exists")
+			}
+
+			file.metadata = body.metadata
+			file.nameHashed = body.nameHashed
+
+			changed()
+
+			return ok()
+		},
+		"/v3/dir/move": body => {
+			const folder = state.folders[body.uuid]
+
+			if (!folder || !isFolderAlive(body.uuid)) {
+				return fail("folder_not_found", "Folder not found")
+			}
+
+			if (!isFolderAlive(body.to)) {
+				return fail("folder_not_found", "Target folder not found")
+			}
+
+			// Moving into the current parent is a no-op, the client does that for the children of a renamed folder
+			if (folder.parent == body.to) {
+				return ok()
+			}
+
+			if (findByName(Object.values(state.folders), body.to, folder.nameHashed)) {
+				return fail("folder_exists", "Folder already exists in target")
+			}
+
+			folder.parent = body.to
+
+			changed()
+
+			return ok()
+		},
+		"/v3/file/move": body => {
+			const file = state.files[body.uuid]
+
+			if (!file || !isFileAlive(body.uuid)) {
+				return fail("file_not_found", "File not found")
+			}
+
+			if (!isFolderAlive(body.to)) {
+				return fail("folder_not_found", "Target folder not found")
+			}
+
+			// See /v3/dir/move
+			if (file.parent == body.to) {
+				return ok()
+			}
+
+			if (findByName(Object.values(state.files), body.to, file.nameHashed)) {
+				return fail("file_exists", "File already exists in target")
+			}
+
+			file.parent = body.to
+
+			changed()
+
+			return ok()
+		},
+		"/v3/dir/trash": body => {
+			const folder = state.folders[body.uuid]
+
+			if (!folder) {
+				return fail("folder_not_found", "Folder not found")
+			}
+
+			folder.trash = true
+
+			changed()
+
+			return ok()
+		},
+		"/v3/file/trash": body => {
+			const file = state.files[body.uuid]
+
+			if (!file) {
+				return fail("file_not_found", "File not found")
+			}
+
+			file.trash = true
+
+			changed()
+
+			return ok()
+		},
+		"/v3/file": body => {
+			const file = state.files[body.uuid]
+
+			if (!file) {
+				return fail("file_not_found", "File not found")
+			}
+
+			return ok({ metadata: file.metadata })
+		},
+		"/v3/upload/done": body => {
+			const upload = state.uploads[body.uuid]
+
+			if (!upload || upload.uploadKey !== body.uploadKey) {
+				return fail("upload_not_found", "Upload not found")
+			}
+
+			if (upload.indexes.size !== body.chunks) {
+				return fail("upload_incomplete", "Expected " + body.chunks + " chunks, got " + upload.indexes.size)
+			}
+
+			return finishUpload(body, upload.parent, body.chunks, upload.bytes)
+		},
+		"/v3/upload/empty": body => {
+			return finishUpload(body, body.parent, 0, 0)
+		},
+		"/v3/dir/download": body => {
+			const root = state.folders[body.uuid]
+
+			if (!root || !isFolderAlive(body.uuid)) {
+				return fail("folder_not_found", "Folder not found")
+			}
+
+			const { folders, files } = collectTree(body.uuid)
+
+			return ok({
+				folders: [
+					{ uuid: root.uuid, name: root.name, parent: "base" },
+					...folders.map(folder => ({ uuid: folder.uuid, name: folder.name, parent: folder.parent }))
+				],
+				files: files.map(file => ({
+					uuid: file.uuid,
+					bucket: BUCKET,
+					region: REGION,
+					chunks: file.chunks,
+					parent: file.parent,
+					metadata: file.metadata,
+					version: file.version,
+					timestamp: file.timestamp
+				}))
+			})
+		},
+		// Sharing and public links are not simulated, every item reports as private
+		"/v3/dir/shared": () => ok({ sharing: false, users: [] }),
+		"/v3/dir/linked": () => ok({ link: false, links: [] }),
+		"/v3/item/shared": () => ok({ sharing: false, users: [] }),
+		"/v3/item/linked": () => ok({ link: false, links: [] }),
+		"/v3/file/link/status": () => ok({ enabled: false }),
+		"/v3/dir/link/status": () => ok({ exists: false })
+	}
+
+	// The real gateway keeps replaced files as versions, here they simply go to the trash
+	const finishUpload = (body, parent, chunks, bytes) => {
+		if (!isFolderAlive(parent)) {
+			return fail("folder_not_found", "Parent folder not found")
+		}
+
+		const existing = findByName(Object.values(state.files), parent, body.nameHashed)
+
+		if (existing && existing.uuid !== body.uuid) {
+			existing.trash = true
+		}
+
+		state.files[body.uuid] = {
+			uuid: body.uuid,
+			metadata: body.metadata,
+			nameHashed: body.nameHashed,
+			parent,
+			chunks,
+			bytes,
+			version: body.version,
+			trash: false,
+			timestamp: Math.floor(Date.now() / 1000)
+		}
+
+		delete state.uploads[body.uuid]
+
+		changed()
+
+		return ok({ chunks, size: bytes })
+	}
+
+	const readBody = req => {
+		return new Promise((resolve, reject) => {
+			const chunks = []
+
+			req.on("data", chunk => chunks.push(chunk))
+			req.on("end", () => resolve(Buffer.concat(chunks)))
+			req.on("error", reject)
+		})
+	}
+
+	const sendJSON = (res, statusCode, body, headers = {}) => {
+		res.writeHead(statusCode, { "Content-Type": "application/json", ...headers })
+		res.end(JSON.stringify(body))
+	}
+
+	const isAuthorized = req => {
+		const header = req.headers["authorization"] || ""
+
+		return header.startsWith("Bearer ") && state.apiKeys[header.slice(7)] === true
+	}
+
+	const handleUploadChunk = (req, res, url, data) => {
+		const uuid = url.searchParams.get("uuid") || ""
+		const index = parseInt(url.searchParams.get("index") || "-1")
+		const parent = url.searchParams.get("parent") || ""
+		const uploadKey = url.searchParams.get("uploadKey") || ""
+		const hash = url.searchParams.get("hash") || ""
+
+		if (uuid.length == 0 || index < 0 || !isFolderAlive(parent)) {
+			return sendJSON(res, 200, fail("invalid_params", "Invalid upload parameters"))
+		}
+
+		if (hash !== crypto.createHash("sha512").update(data).digest("hex")) {
+			return sendJSON(res, 200, fail("invalid_hash", "Chunk hash mismatch"))
+		}
+
+		if (!state.uploads[uuid]) {
+			state.uploads[uuid] = { parent, uploadKey, indexes: new Set(), bytes: 0 }
+		}
+
+		const upload = state.uploads[uuid]
+
+		if (!upload.indexes.has(index)) {
+			upload.indexes.add(index)
+			upload.bytes += data.byteLength
+		}
+
+		state.chunks[uuid + "/" + index] = data
+
+		return sendJSON(res, 200, ok({ bucket: BUCKET, region: REGION }))
+	}
+
+	const handleDownloadChunk = (res, pathname) => {
+		const [region, bucket, uuid, index] = pathname.split("/").slice(1)
+		const data = state.chunks[uuid + "/" + index]
+
+		if (region !== REGION || bucket !== BUCKET || !data) {
+			res.writeHead(404)
+			res.end()
+
+			return
+		}
+
+		res.writeHead(200, { "Content-Type": "application/octet-stream", "Content-Length": data.byteLength })
+		res.end(data)
+	}
+
+	const handleRequest = async (req, res) => {
+		const url = new URL(req.url, "http://127.0.0.1")
+		const data = await readBody(req)
+
+		if (url.pathname == "/_mock/state" && req.method == "GET") {
+			return sendJSON(res, 200, {
+				revision: state.revision,
+				baseFolderUUID: state.baseFolderUUID,
+				folders: Object.values(state.folders),
+				files: Object.values(state.files),
+				pendingUploads: Object.keys(state.uploads)
+			})
+		}
+
+		if (url.pathname == "/_mock/reset" && req.method == "POST") {
+			reset()
+
+			return sendJSON(res, 200, ok())
+		}
+
+		// Chunk downloads are the only GET requests outside of the API, e.g. /v3/user/info is a GET as well
+		if (req.method == "GET" && !url.pathname.startsWith("/v3/")) {
+			return handleDownloadChunk(res, url.pathname)
+		}
+
+		// Lets the client's retry policy and circuit breaker be exercised
+		if (failRate > 0 && Math.random() < failRate) {
+			return sendJSON(res, 503, fail("unavailable", "Injected failure"), { "Retry-After": "1" })
+		}
+
+		const isLogin = url.pathname == "/v3/auth/info" || url.pathname == "/v3/login"
+
+		if (!isLogin && !isAuthorized(req)) {
+			return sendJSON(res, 200, fail("api_key_not_found", "API key not found"))
+		}
+
+		if (url.pathname == "/v3/upload") {
+			return handleUploadChunk(req, res, url, data)
+		}
+
+		const handler = endpoints[url.pathname]
+
+		if (typeof handler !== "function") {
+			return sendJSON(res, 200, fail("endpoint_not_found", "Endpoint " + url.pathname + " is not simulated"))
+		}
+
+		let body = {}
+
+		try {
+			body = data.byteLength > 0 ? JSON.parse(data.toString()) : {}
+		} catch (e) {
+			return sendJSON(res, 400, fail("invalid_json", "Invalid JSON"))
+		}
+
+		const response = handler(body)
+
+		if (!response.status) {
+			log(url.pathname, response.code)
+		}
+
+		return sendJSON(res, 200, response)
+	}
+
+	reset()
+
+	const server = http.createServer((req, res) => {
+		handleRequest(req, res).catch(err => {
+			log(err)
+
+			if (!res.headersSent) {
+				sendJSON(res, 500, fail("internal_error", err.message))
+			}
+		})
+	})
+
+	return {
+		server,
+		reset,
+		getState: () => state,
+		// Registers an API key without going through the login flow
+		createAPIKey: () => {
+			const apiKey = randomHex(32)
+
+			state.apiKeys[apiKey] = true
+
+			return apiKey
+		},
+		listen: (port = 0, host = "127.0.0.1") => {
+			return new Promise((resolve, reject) => {
+				server.once("error", reject)
+
+				server.listen(port, host, () => {
+					server.removeListener("error", reject)
+
+					resolve(server.address().port)
+				})
+			})
+		},
+		close: () => {
+			return new Promise(resolve => {
+				server.close(() => resolve())
+				server.closeAllConnections()
+			})
+		}
+	}
+}
+
+module.exports = {
+	createMockGateway
+}
+
+if (require.main === module) {
+	createMockGateway({ failRate: FAIL_RATE })
+		.listen(PORT)
+		.then(port => defaultLog("Mock gateway listening on http://127.0.0.1:" + port))
+		.catch(err => {
+			defaultLog(err)
+
+			process.exit(1)
+		})
+}
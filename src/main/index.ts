@@ -6,6 +6,11 @@ import { linuxCheckLibAppIndicator, positionWindow, toggleMainWindow } from "./l
 import { createWindows, createUpdate } from "./lib/windows"
 import { emitGlobal, updateKeybinds } from "./lib/ipc"
 import memoryCache from "./lib/memoryCache"
+import * as control from "./lib/control"
+import { isHeadless, runHeadless } from "./lib/headless"
+import * as proxy from "./lib/proxy"
+import * as power from "./lib/power"
+import * as history from "./lib/history"
 
 // @ts-ignore
 process.noAsar = true
@@ -19,7 +24,11 @@ app.commandLine.appendSwitch("disable-renderer-backgrounding")
 app.commandLine.appendSwitch("disable-pinch")
 app.commandLine.appendSwitch("js-flags", "--max-old-space-size=32768")
 app.commandLine.appendSwitch("no-sandbox")
-app.commandLine.appendSwitch("no-proxy-server")
+
+// Lets the hidden worker window run on machines without a display server
+if (isHeadless() && is.linux() && !process.env.DISPLAY && !process.env.WAYLAND_DISPLAY) {
+	app.commandLine.appendSwitch("ozone-platform", "headless")
+}
 
 if (is.dev()) {
 	app.commandLine.appendSwitch("ignore-certificate-errors")
@@ -105,12 +114,16 @@ app.on("window-all-closed", () => {
 })
 
 app.on("activate", () => {
-	if (BrowserWindow.getAllWindows().length == 0) {
+	if (BrowserWindow.getAllWindows().length == 0 && !isHeadless()) {
 		initWindows()
 	}
 })
 
 app.on("second-instance", () => {
+	if (isHeadless()) {
+		return
+	}
+
 	positionWindow()
 	toggleMainWindow()
 })
@@ -122,9 +135,27 @@ powerMonitor.on("shutdown", () => {
 if (!app.requestSingleInstanceLock()) {
 	app.quit()
 } else {
-	app.whenReady().then(() => {
+	proxy.listen()
+
+	app.whenReady().then(async () => {
 		app.setAccessibilitySupportEnabled(false)
 
+		await proxy.applyProxySettings().catch(log.error)
+
+		if (isHeadless()) {
+			runHeadless().catch(err => {
+				log.error(err)
+
+				app.exit(1)
+			})
+
+			control.listen().catch(log.error)
+			power.listen()
+			history.listen()
+
+			return
+		}
+
 		Menu.setApplicationMenu(
 			Menu.buildFromTemplate([
 				{
@@ -171,5 +202,13 @@ if (!app.requestSingleInstanceLock()) {
 		initWindows()
 
 		updateKeybinds().catch(log.error)
+
+		control.listen().catch(log.error)
+		power.listen()
+		history.listen()
 	})
 }
+
+app.on("will-quit", () => {
+	control.close()
+})
@@ -0,0 +1,346 @@
+import { app, ipcMain } from "electron"
+import log from "electron-log"
+import net from "net"
+import fs from "fs-extra"
+import os from "os"
+import pathModule from "path"
+import is from "electron-is"
+import db from "../db"
+import { writeMutexes } from "../db/db"
+import { Semaphore } from "../helpers"
+import { emitGlobal, invokeHandler } from "../ipc"
+import { Location, SyncIssue } from "../../../types"
+import constants from "../../../constants.json"
+
+export interface ControlTransfer {
+	uuid: string
+	direction: "upload" | "download"
+	path: string
+	locationUUID: string
+	size: number
+	bytes: number
+	started: number
+}
+
+const transfers: Record<string, ControlTransfer> = {}
+let syncTasksToDo: number = 0
+let server: net.Server | null = null
+
+export const getControlSocketPath = (): string => {
+	if (is.windows()) {
+		return "\\\\.\\pipe\\filen-desktop-control-" + os.userInfo().username
+	}
+
+	// Lives in its own directory only the current user can enter, so nobody else can connect before the socket is locked down
+	return pathModule.join(app.getPath("userData"), "control", "control.sock")
+}
+
+// Keeps a main process view of running sync transfers, built from the messages the worker proxies through the main process
+export const trackTransfers = (message: any): void => {
+	if (message === null || typeof message !== "object") {
+		return
+	}
+
+	if (message.type == "syncTasksToDo" && typeof message.data == "number") {
+		syncTasksToDo = message.data
+
+		return
+	}
+
+	if ((message.type == "uploadProgress" || message.type == "downloadProgress") && typeof message.data == "object") {
+		const uuid: string = message.data.uuid
+
+		if (typeof transfers[uuid] !== "undefined" && typeof message.data.bytes == "number") {
+			transfers[uuid].bytes += message.data.bytes
+		}
+
+		return
+	}
+
+	if (message.type !== "syncTask" || typeof message.data !== "object") {
+		return
+	}
+
+	const { type, data } = message.data
+
+	if ((type !== "uploadToRemote" && type !== "downloadFromRemote") || typeof data !== "object" || typeof data.task !== "object") {
+		return
+	}
+
+	const task = data.task
+	const uuid: string = task.item && typeof task.item.uuid == "string" ? task.item.uuid : task.uuid
+
+	if (typeof uuid !== "string" || (typeof task.type == "string" && task.type !== "file")) {
+		return
+	}
+
+	if (data.status == "start") {
+		transfers[uuid] = {
+			uuid,
+			direction: type == "uploadToRemote" ? "upload" : "download",
+			path: task.path,
+			locationUUID: data.location ? data.location.uuid : "",
+			size: type == "uploadToRemote" ? task.item.size || 0 : task.item.metadata ? task.item.metadata.size || 0 : 0,
+			bytes: 0,
+			started: Date.now()
+		}
+	} else if (data.status == "done" || data.status == "err" || data.err) {
+		delete transfers[uuid]
+	}
+}
+
+const getSyncLocations = async (): Promise<Location[]> => {
+	const userId = await db.get("userId")
+
+	if (!userId) {
+		throw new Error("Not logged in")
+	}
+
+	const syncLocations = await db.get("syncLocations:" + userId)
+
+	return Array.isArray(syncLocations) ? syncLocations : []
+}
+
+// Same semaphore as updateSyncLocations in the renderer, the worker and the settings windows write the locations as well
+const SYNC_LOCATIONS_SEMAPHORE = "updateSyncLocations"
+
+const setLocationPaused = async (uuid: string, paused: boolean): Promise<void> => {
+	if (!writeMutexes[SYNC_LOCATIONS_SEMAPHORE]) {
+		writeMutexes[SYNC_LOCATIONS_SEMAPHORE] = new Semaphore(1)
+	}
+
+	await writeMutexes[SYNC_LOCATIONS_SEMAPHORE].acquire()
+
+	try {
+		const userId = await db.get("userId")
+		const syncLocations = await getSyncLocations()
+
+		if (syncLocations.filter(location => location.uuid == uuid).length == 0) {
+			throw new Error("Sync location " + uuid + " not found")
+		}
+
+		await db.set(
+			"syncLocations:" + userId,
+			syncLocations.map(location => (location.uuid == uuid ? { ...location, paused } : location))
+		)
+	} finally {
+		writeMutexes[SYNC_LOCATIONS_SEMAPHORE].release()
+	}
+
+	if (!paused) {
+		emitGlobal("global-message", {
+			type: "forceSync"
+		})
+	}
+}
+
+const methods: Record<string, (params: any) => Promise<any>> = {
+	pause: async params => {
+		if (params && typeof params.location == "string") {
+			await setLocationPaused(params.location, true)
+		} else {
+			await db.set("paused", true)
+		}
+
+		return true
+	},
+	resume: async params => {
+		if (params && typeof params.location == "string") {
+			await setLocationPaused(params.location, false)
+		} else {
+			await db.set("paused", false)
+		}
+
+		return true
+	},
+	forceSync: async () => {
+		emitGlobal("global-message", {
+			type: "forceSync"
+		})
+
+		return true
+	},
+	listLocations: async () => {
+		return await getSyncLocations()
+	},
+	listIssues: async (): Promise<SyncIssue[]> => {
+		return await invokeHandler("getSyncIssues")
+	},
+	clearIssues: async () => {
+		await invokeHandler("clearSyncIssues")
+
+		return true
+	},
+	transferProgress: async () => {
+		const paused = await db.get("paused")
+
+		return {
+			paused: typeof paused == "boolean" ? paused : false,
+			syncTasksToDo,
+			transfers: Object.values(transfers).map(transfer => ({
+				...transfer,
+				percent: transfer.size > 0 ? Math.min((transfer.bytes / transfer.size) * 100, 100) : 0
+			}))
+		}
+	},
+	openUploadWindow: async params => {
+		const type = params && params.type == "folders" ? "folders" : "files"
+
+		await invokeHandler("openUploadWindow", { type })
+
+		return true
+	},
+	openDownloadWindow: async params => {
+		if (!params || typeof params.args !== "object") {
+			throw new Error("Missing download window args")
+		}
+
+		await invokeHandler("openDownloadWindow", { args: params.args })
+
+		return true
+	}
+}
+
+const rpcError = (id: any, code: number, message: string) => {
+	return {
+		jsonrpc: "2.0",
+		id: typeof id == "undefined" ? null : id,
+		error: {
+			code,
+			message
+		}
+	}
+}
+
+export const handleRequest = async (request: any): Promise<any> => {
+	if (request === null || typeof request !== "object" || request.jsonrpc !== "2.0" || typeof request.method !== "string") {
+		return rpcError(request ? request.id : null, -32600, "Invalid request")
+	}
+
+	if (typeof methods[request.method] !== "function") {
+		return rpcError(request.id, -32601, "Method not found: " + request.method)
+	}
+
+	try {
+		const result = await methods[request.method](request.params)
+
+		return {
+			jsonrpc: "2.0",
+			id: typeof request.id == "undefined" ? null : request.id,
+			result
+		}
+	} catch (e: any) {
+		log.error(e)
+
+		return rpcError(request.id, -32603, e && e.message ? e.message : "Internal error")
+	}
+}
+
+// Newline delimited JSON-RPC 2.0, one request per line
+const handleConnection = (socket: net.Socket): void => {
+	let buffer = ""
+
+	socket.setEncoding("utf8")
+
+	socket.on("data", (chunk: string) => {
+		buffer += chunk
+
+		let index = buffer.indexOf("\n")
+
+		while (index !== -1) {
+			const line = buffer.slice(0, index).trim()
+
+			buffer = buffer.slice(index + 1)
+			index = buffer.indexOf("\n")
+
+			if (line.length == 0) {
+				continue
+			}
+
+			let request: any = null
+
+			try {
+				request = JSON.parse(line)
+			} catch (e) {
+				socket.write(JSON.stringify(rpcError(null, -32700, "Parse error")) + "\n")
+
+				continue
+			}
+
+			handleRequest(request)
+				.then(response => {
+					if (!socket.destroyed) {
+						socket.write(JSON.stringify(response) + "\n")
+					}
+				})
+				.catch(log.error)
+		}
+
+		// A client that never finishes its line would otherwise grow the buffer without bounds
+		if (buffer.length > constants.maxControlRequestLength) {
+			log.error("Control API request exceeds " + constants.maxControlRequestLength + " bytes, dropping client")
+
+			buffer = ""
+
+			socket.destroy()
+		}
+	})
+
+	socket.on("error", log.error)
+}
+
+export const listen = async (): Promise<void> => {
+	if (server) {
+		return
+	}
+
+	ipcMain.on("proxy-global-message", (_, data) => trackTransfers(data))
+
+	const socketPath = getControlSocketPath()
+
+	if (!is.windows()) {
+		const socketDir = pathModule.dirname(socketPath)
+
+		await fs.ensureDir(socketDir, 0o700)
+		await fs.chmod(socketDir, 0o700)
+
+		// Leftover from a previous run that did not exit cleanly
+		await fs.remove(socketPath)
+	}
+
+	await new Promise<void>((resolve, reject) => {
+		server = net.createServer(handleConnection)
+
+		server.once("error", reject)
+
+		server.listen(socketPath, () => {
+			server!.removeListener("error", reject)
+			server!.on("error", log.error)
+
+			return resolve()
+		})
+	})
+
+	if (!is.windows()) {
+		await fs.chmod(socketPath, 0o600)
+	}
+
+	log.info("Control API listening on " + socketPath)
+}
+
+export const close = (): void => {
+	if (!server) {
+		return
+	}
+
+	server.close()
+	server = null
+
+	if (!is.windows()) {
+		try {
+			fs.removeSync(getControlSocketPath())
+		} catch (e) {
+			log.error(e)
+		}
+	}
+}
@@ -4,16 +4,30 @@ import fs from "fs-extra"
 import writeFileAtomic from "write-file-atomic"
 import { getRandomArbitrary, hashKey, Semaphore } from "../helpers"
 import { emitGlobal } from "../ipc"
-import { SemaphoreInterface } from "../../../types"
+import { v4 as uuidv4 } from "uuid"
+import log from "electron-log"
+import { SemaphoreInterface, DbOperation, DbJournalOperation, DbMigrationStatus } from "../../../types"
+import { migrations, SCHEMA_VERSION_KEY } from "./migrations"
 
-const DB_VERSION = 1
+const DB_VERSION = 2
 const DB_PATH = pathModule.join(app.getPath("userData"), "db_v" + DB_VERSION)
+const DB_JOURNAL_PATH = pathModule.join(DB_PATH, "journal")
+const PREVIOUS_DB_PATH = pathModule.join(app.getPath("userData"), "db_v1")
+const DB_BACKUP_PATH = pathModule.join(app.getPath("userData"), "db_backups")
+const MAX_BACKUPS = 3
 const MAX_RETRIES = 30
 const RETRY_TIMEOUT = 500
+const STALE_TMP_AGE = 3600000
 
 export const writeMutexes: Record<string, SemaphoreInterface> = {}
+let initPromise: Promise<void> | null = null
+let migrationStatus: DbMigrationStatus = {
+	version: 0,
+	latest: 0,
+	corrupt: []
+}
 
-export const get = async (key: string): Promise<any> => {
+const readKey = async (key: string): Promise<any> => {
 	const keyHash = hashKey(key)
 
 	try {
@@ -37,8 +51,16 @@ export const get = async (key: string): Promise<any> => {
 	}
 }
 
+export const get = async (key: string): Promise<any> => {
+	await init()
+
+	return await readKey(key)
+}
+
 export const set = (key: string, value: any): Promise<void> => {
 	return new Promise<void>(async (resolve, reject) => {
+		await init()
+
 		if (!writeMutexes[key]) {
 			writeMutexes[key] = new Semaphore(1)
 		}
@@ -112,6 +134,8 @@ export const set = (key: string, value: any): Promise<void> => {
 
 export const remove = (key: string): Promise<void> => {
 	return new Promise<void>(async (resolve, reject) => {
+		await init()
+
 		if (!writeMutexes[key]) {
 			writeMutexes[key] = new Semaphore(1)
 		}
@@ -189,39 +213,320 @@ export const remove = (key: string): Promise<void> => {
 	})
 }
 
-export const clear = async (): Promise<void> => {
-	const dir = await fs.readdir(DB_PATH)
+const stringify = (value: any): string => {
+	return JSON.stringify(value, (_, val) => (typeof val === "bigint" ? val.toString() : val))
+}
 
-	for (const entry of dir) {
-		await fs.unlink(pathModule.join(DB_PATH, entry))
+const withRetries = async (fn: () => Promise<void>): Promise<void> => {
+	let tries = 0
+
+	while (true) {
+		tries += 1
+
+		try {
+			await fn()
+
+			return
+		} catch (e) {
+			if (tries > MAX_RETRIES) {
+				throw e
+			}
+
+			await new Promise(resolve => setTimeout(resolve, RETRY_TIMEOUT + getRandomArbitrary(10, 100)))
+		}
 	}
+}
 
-	emitGlobal("global-message", {
-		type: "dbClear"
-	})
+// A missing temporary file means it was already moved into place by an earlier, interrupted replay
+const applyJournal = async (operations: DbJournalOperation[]): Promise<void> => {
+	for (const operation of operations) {
+		const dbFilePath = pathModule.join(DB_PATH, hashKey(operation.key) + ".json")
+
+		if (operation.type == "set") {
+			const tmpFilePath = pathModule.join(DB_PATH, operation.tmp)
+
+			await withRetries(async () => {
+				if (await fs.pathExists(tmpFilePath)) {
+					await fs.rename(tmpFilePath, dbFilePath)
+				}
+			})
+		} else {
+			await withRetries(() => fs.remove(dbFilePath))
+		}
+	}
 }
 
-export const keys = async (): Promise<string[]> => {
-	const dir = await fs.readdir(DB_PATH)
+// Every value is written exactly once, to a temporary file beside its final path. The journal entry only lists those files,
+// writing it is the commit point and the renames after it are replayed by recoverJournal() if we crash in between.
+const commit = async (operations: DbOperation[]): Promise<void> => {
+	const batchId = Date.now() + "-" + uuidv4()
+	const journalFilePath = pathModule.join(DB_JOURNAL_PATH, batchId + ".json")
+	const journal: DbJournalOperation[] = []
+
+	try {
+		for (let i = 0; i < operations.length; i++) {
+			const operation = operations[i]
+
+			if (operation.type == "set") {
+				const tmp = hashKey(operation.key) + "." + batchId + "." + i + ".tmp"
+
+				await withRetries(() =>
+					writeFileAtomic(pathModule.join(DB_PATH, tmp), stringify({ key: operation.key, value: operation.value }))
+				)
+
+				journal.push({ type: "set", key: operation.key, tmp })
+			} else {
+				journal.push({ type: "remove", key: operation.key })
+			}
+		}
+
+		await fs.ensureDir(DB_JOURNAL_PATH)
+		await writeFileAtomic(journalFilePath, stringify({ operations: journal }))
+	} catch (e) {
+		for (const operation of journal) {
+			if (operation.type == "set") {
+				await fs.remove(pathModule.join(DB_PATH, operation.tmp)).catch(log.error)
+			}
+		}
+
+		throw e
+	}
+
+	await applyJournal(journal)
+	await fs.unlink(journalFilePath)
+}
+
+export const batch = async (operations: DbOperation[]): Promise<void> => {
+	await init()
+
+	if (operations.length == 0) {
+		return
+	}
+
+	const keys = Array.from(new Set(operations.map(operation => operation.key))).sort()
+
+	for (const key of keys) {
+		if (!writeMutexes[key]) {
+			writeMutexes[key] = new Semaphore(1)
+		}
+
+		await writeMutexes[key].acquire()
+	}
+
+	try {
+		await commit(operations)
+	} finally {
+		for (const key of keys) {
+			writeMutexes[key].release()
+		}
+	}
+
+	for (const operation of operations) {
+		emitGlobal("global-message", {
+			type: operation.type == "set" ? "dbSet" : "dbRemove",
+			data: {
+				key: operation.key
+			}
+		})
+	}
+}
+
+// Replays batches that were committed to the journal but not fully applied before the app exited
+// and drops temporary files of batches that never reached their commit point
+export const recoverJournal = async (): Promise<void> => {
+	await fs.ensureDir(DB_JOURNAL_PATH)
+
+	const entries = (await fs.readdir(DB_JOURNAL_PATH)).filter(entry => entry.endsWith(".json")).sort()
+
+	for (const entry of entries) {
+		const journalFilePath = pathModule.join(DB_JOURNAL_PATH, entry)
+
+		try {
+			const { operations } = JSON.parse(await fs.readFile(journalFilePath, "utf-8"))
+
+			if (Array.isArray(operations)) {
+				log.info("Replaying " + operations.length + " db operations from " + entry)
+
+				await applyJournal(operations)
+			}
+		} catch (e) {
+			log.error(e)
+		}
+
+		await fs.remove(journalFilePath)
+	}
+
+	const now = Date.now()
+
+	for (const entry of await fs.readdir(DB_PATH)) {
+		if (entry.endsWith(".tmp") && now - parseInt(entry.split(".")[1]) > STALE_TMP_AGE) {
+			await fs.remove(pathModule.join(DB_PATH, entry)).catch(log.error)
+		}
+	}
+}
+
+// db_v2 keeps the per key files of db_v1 and adds the journal directory, so the old store can be copied over as is
+export const migrateFromPreviousVersion = async (): Promise<void> => {
+	if ((await fs.pathExists(DB_PATH)) || !(await fs.pathExists(PREVIOUS_DB_PATH))) {
+		return
+	}
+
+	const tmpPath = DB_PATH + ".migrating"
+
+	log.info("Migrating db from " + PREVIOUS_DB_PATH + " to " + DB_PATH)
+
+	await fs.remove(tmpPath)
+	await fs.copy(PREVIOUS_DB_PATH, tmpPath)
+	await fs.rename(tmpPath, DB_PATH)
+}
+
+// A value file that can't be parsed is logged and skipped, so one corrupt entry doesn't take every other key down with it
+const listKeys = async (): Promise<string[]> => {
+	const dir = (await fs.readdir(DB_PATH)).filter(entry => entry.endsWith(".json"))
 	const keys: string[] = []
 
 	for (const file of dir) {
-		const obj = JSON.parse(await fs.readFile(pathModule.join(DB_PATH, file), "utf-8"))
+		try {
+			const obj = JSON.parse(await fs.readFile(pathModule.join(DB_PATH, file), "utf-8"))
+
+			if (typeof obj === "object" && typeof obj.key === "string") {
+				keys.push(obj.key)
+			}
+		} catch (e) {
+			log.error("Skipping corrupt db entry " + file)
+			log.error(e)
 
-		if (typeof obj === "object" && typeof obj.key === "string") {
-			keys.push(obj.key)
+			if (!migrationStatus.corrupt.includes(file)) {
+				migrationStatus.corrupt.push(file)
+			}
 		}
 	}
 
 	return keys
 }
 
+export const getMigrationStatus = (): DbMigrationStatus => {
+	return migrationStatus
+}
+
+const backupStore = async (schemaVersion: number): Promise<void> => {
+	const backupPath = pathModule.join(DB_BACKUP_PATH, "db_v" + DB_VERSION + "_schema" + schemaVersion + "_" + Date.now())
+
+	log.info("Backing up db to " + backupPath)
+
+	await fs.copy(DB_PATH, backupPath, {
+		filter: (src: string) => src !== DB_JOURNAL_PATH && !src.endsWith(".tmp")
+	})
+
+	const backups = (await fs.readdir(DB_BACKUP_PATH)).sort((a, b) => parseInt(a.split("_").pop()!) - parseInt(b.split("_").pop()!))
+
+	for (const backup of backups.slice(0, Math.max(backups.length - MAX_BACKUPS, 0))) {
+		await fs.remove(pathModule.join(DB_BACKUP_PATH, backup))
+	}
+}
+
+// Runs every registered migration newer than the stored schema version in order and stops at the first failure, so it is retried on the next start
+export const runMigrations = async (): Promise<void> => {
+	const storedVersion = await readKey(SCHEMA_VERSION_KEY)
+	const currentVersion = typeof storedVersion == "number" ? storedVersion : 0
+	const pending = migrations.filter(migration => migration.version > currentVersion).sort((a, b) => a.version - b.version)
+
+	migrationStatus = {
+		...migrationStatus,
+		version: currentVersion,
+		latest: migrations.length > 0 ? Math.max(...migrations.map(migration => migration.version)) : 0
+	}
+
+	if (pending.length == 0) {
+		return
+	}
+
+	try {
+		await backupStore(currentVersion)
+	} catch (e: any) {
+		log.error(e)
+
+		migrationStatus.error = {
+			version: pending[0].version,
+			description: "Backup before migrating",
+			message: e.message,
+			timestamp: Date.now()
+		}
+
+		return
+	}
+
+	for (const migration of pending) {
+		log.info("Running db migration " + migration.version + ": " + migration.description)
+
+		try {
+			await migration.up({
+				get: readKey,
+				keys: listKeys,
+				batch: commit,
+				userDataPath: app.getPath("userData")
+			})
+
+			await commit([{ type: "set", key: SCHEMA_VERSION_KEY, value: migration.version }])
+
+			migrationStatus.version = migration.version
+		} catch (e: any) {
+			log.error("Db migration " + migration.version + " failed")
+			log.error(e)
+
+			migrationStatus.error = {
+				version: migration.version,
+				description: migration.description,
+				message: e.message,
+				timestamp: Date.now()
+			}
+
+			return
+		}
+	}
+}
+
+export const init = (): Promise<void> => {
+	if (!initPromise) {
+		initPromise = (async () => {
+			await migrateFromPreviousVersion()
+			await fs.ensureDir(DB_PATH)
+			await recoverJournal()
+			await runMigrations()
+		})()
+	}
+
+	return initPromise
+}
+
+export const clear = async (): Promise<void> => {
+	await init()
+
+	const dir = (await fs.readdir(DB_PATH)).filter(entry => entry.endsWith(".json"))
+
+	for (const entry of dir) {
+		await fs.unlink(pathModule.join(DB_PATH, entry))
+	}
+
+	emitGlobal("global-message", {
+		type: "dbClear"
+	})
+}
+
+export const keys = async (): Promise<string[]> => {
+	await init()
+
+	return await listKeys()
+}
+
 export const db = {
 	get,
 	set,
 	remove,
 	clear,
-	keys
+	keys,
+	batch,
+	init
 }
 
 export default db
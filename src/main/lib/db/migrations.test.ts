@@ -0,0 +1,160 @@
+/**
+ * @jest-environment node
+ */
+
+import pathModule from "path"
+import os from "os"
+import fs from "fs-extra"
+import { migrations } from "./migrations"
+import { DbMigrationContext, DbOperation, HistoryEntry } from "../../../types"
+
+// An in-memory key value store backed by a temp user data directory, batches are applied as a whole like in db.ts
+const createContext = async (initial: Record<string, any>): Promise<DbMigrationContext & { store: Record<string, any> }> => {
+	const store: Record<string, any> = { ...initial }
+	const userDataPath = await fs.realpath(await fs.mkdtemp(pathModule.join(os.tmpdir(), "filen-migrations-test-")))
+
+	return {
+		store,
+		userDataPath,
+		get: async (key: string) => (typeof store[key] == "undefined" ? null : store[key]),
+		keys: async () => Object.keys(store),
+		batch: async (operations: DbOperation[]) => {
+			for (const operation of operations) {
+				if (operation.type == "set") {
+					store[operation.key] = operation.value
+				} else {
+					delete store[operation.key]
+				}
+			}
+		}
+	}
+}
+
+const migration = (version: number) => migrations.find(migration => migration.version == version)!
+
+const contexts: DbMigrationContext[] = []
+
+const context = async (initial: Record<string, any> = {}) => {
+	const created = await createContext(initial)
+
+	contexts.push(created)
+
+	return created
+}
+
+afterAll(async () => {
+	for (const { userDataPath } of contexts) {
+		await fs.remove(userDataPath)
+	}
+})
+
+const entry = (locationUUID: string, timestamp: number, path: string): HistoryEntry => ({
+	timestamp,
+	type: "uploadToRemote",
+	path,
+	itemType: "file",
+	locationUUID,
+	local: "/local/" + locationUUID,
+	direction: "localToRemote",
+	size: 1,
+	result: "done"
+})
+
+const readJournal = async (path: string): Promise<HistoryEntry[]> => {
+	return (await fs.readFile(path, "utf-8"))
+		.split("\n")
+		.filter(line => line.length > 0)
+		.map(line => JSON.parse(line))
+}
+
+describe("migrations", () => {
+	it("are ordered by unique, consecutive versions", () => {
+		expect(migrations.map(migration => migration.version)).toEqual(migrations.map((_, index) => index + 1))
+	})
+
+	it("1: normalizes stored sync locations", async () => {
+		const db = await context({
+			"syncLocations:1": [{ uuid: "a", local: "/a", paused: true }, { uuid: "b" }, null],
+			"syncLocations:2": "broken",
+			other: 1
+		})
+
+		await migration(1).up(db)
+		await migration(1).up(db)
+
+		expect(db.store["syncLocations:1"]).toEqual([{ uuid: "a", local: "/a", paused: true, busy: false, localChanged: false }])
+		expect(db.store["syncLocations:2"]).toEqual([])
+		expect(db.store["other"]).toBe(1)
+	})
+
+	it("2: moves pending done tasks out of data/v1", async () => {
+		const db = await context()
+		const previousPath = pathModule.join(db.userDataPath, "data", "v1")
+		const path = pathModule.join(db.userDataPath, "data", "applyDoneTasks")
+
+		await fs.outputFile(pathModule.join(previousPath, "applyDoneTasks_a"), "a")
+		await fs.outputFile(pathModule.join(previousPath, "applyDoneTasks_b"), "old b")
+		await fs.outputFile(pathModule.join(path, "applyDoneTasks_b"), "b")
+
+		await migration(2).up(db)
+		await migration(2).up(db)
+
+		expect(await fs.pathExists(previousPath)).toBe(false)
+		expect((await fs.readdir(path)).sort()).toEqual(["applyDoneTasks_a", "applyDoneTasks_b"])
+		expect(await fs.readFile(pathModule.join(path, "applyDoneTasks_b"), "utf-8")).toBe("b")
+	})
+
+	it("3: splits the shared history journal per account", async () => {
+		const db = await context({
+			"syncLocations:1": [{ uuid: "a", local: "/local/a" }],
+			"syncLocations:2": [{ uuid: "b", local: "/local/b" }],
+			"doneTasks:1": [
+				{
+					type: "downloadFromRemote",
+					task: { path: "from-done-tasks.txt", type: "file", item: { uuid: "item" } },
+					location: { uuid: "a", local: "/local/a" },
+					timestamp: 2
+				},
+				{ type: "uploadToRemote", task: {} }
+			]
+		})
+		const historyPath = pathModule.join(db.userDataPath, "history")
+
+		await fs.outputFile(
+			pathModule.join(historyPath, "journal.1.jsonl"),
+			JSON.stringify(entry("a", 1, "old.txt")) + "\n" + JSON.stringify(entry("gone", 1, "unknown.txt")) + "\n"
+		)
+		await fs.outputFile(
+			pathModule.join(historyPath, "journal.jsonl"),
+			JSON.stringify(entry("b", 3, "b.txt")) + "\n" + JSON.stringify(entry("a", 4, "new.txt")) + '\n{"cut'
+		)
+
+		await migration(3).up(db)
+
+		expect((await readJournal(pathModule.join(historyPath, "1", "journal.9.jsonl"))).map(entry => entry.path)).toEqual([
+			"old.txt",
+			"from-done-tasks.txt",
+			"new.txt"
+		])
+		expect((await readJournal(pathModule.join(historyPath, "1", "journal.9.jsonl")))[1]).toEqual({
+			timestamp: 2,
+			type: "downloadFromRemote",
+			path: "from-done-tasks.txt",
+			itemType: "file",
+			uuid: "item",
+			locationUUID: "a",
+			local: "/local/a",
+			direction: "remoteToLocal",
+			size: 0,
+			result: "done"
+		})
+		expect(await readJournal(pathModule.join(historyPath, "2", "journal.9.jsonl"))).toEqual([entry("b", 3, "b.txt")])
+		expect((await fs.readdir(historyPath)).sort()).toEqual(["1", "2"])
+		expect(db.store["doneTasks:1"]).toBeUndefined()
+
+		// Running it again, as after a crash before the version is recorded, keeps the split journals
+		await migration(3).up(db)
+
+		expect(await readJournal(pathModule.join(historyPath, "2", "journal.9.jsonl"))).toEqual([entry("b", 3, "b.txt")])
+	})
+})
@@ -0,0 +1,186 @@
+import pathModule from "path"
+import fs from "fs-extra"
+import readline from "readline"
+import { DbMigration, DbOperation, HistoryEntry } from "../../../types"
+
+export const SCHEMA_VERSION_KEY = "schemaVersion"
+
+// Append only. Every migration has to be idempotent, it runs again if the app exits before its version is recorded.
+export const migrations: DbMigration[] = [
+	{
+		version: 1,
+		description: "Normalize stored sync locations",
+		up: async db => {
+			const operations: DbOperation[] = []
+
+			for (const key of await db.keys()) {
+				if (!key.startsWith("syncLocations:")) {
+					continue
+				}
+
+				const syncLocations = await db.get(key)
+
+				if (!Array.isArray(syncLocations)) {
+					operations.push({ type: "set", key, value: [] })
+
+					continue
+				}
+
+				operations.push({
+					type: "set",
+					key,
+					value: syncLocations
+						.filter(location => location && typeof location.uuid == "string" && typeof location.local == "string")
+						.map(location => ({
+							...location,
+							paused: typeof location.paused == "boolean" ? location.paused : false,
+							busy: typeof location.busy == "boolean" ? location.busy : false,
+							localChanged: typeof location.localChanged == "boolean" ? location.localChanged : false
+						}))
+				})
+			}
+
+			await db.batch(operations)
+		}
+	},
+	{
+		version: 2,
+		description: "Move pending done tasks out of the versioned data directory",
+		up: async db => {
+			// Pending done tasks used to live in data/v1, their format is now versioned by this registry instead
+			const previousPath = pathModule.join(db.userDataPath, "data", "v1")
+			const path = pathModule.join(db.userDataPath, "data", "applyDoneTasks")
+
+			await fs.ensureDir(path)
+
+			if (!(await fs.pathExists(previousPath))) {
+				return
+			}
+
+			for (const entry of await fs.readdir(previousPath)) {
+				if (!entry.startsWith("applyDoneTasks_")) {
+					continue
+				}
+
+				if (await fs.pathExists(pathModule.join(path, entry))) {
+					await fs.remove(pathModule.join(previousPath, entry))
+
+					continue
+				}
+
+				await fs.move(pathModule.join(previousPath, entry), pathModule.join(path, entry))
+			}
+
+			if ((await fs.readdir(previousPath)).length == 0) {
+				await fs.remove(previousPath)
+			}
+		}
+	},
+	{
+		version: 3,
+		description: "Split the sync history into one journal per account",
+		up: async db => {
+			// The journal used to be shared by every account that logged in, and the activity list kept its own copy in doneTasks:<userId>.
+			// Entries are assigned to the account whose sync location they belong to, whatever cannot be assigned is dropped.
+			const historyPath = pathModule.join(db.userDataPath, "history")
+			const entriesByUser: Record<string, HistoryEntry[]> = {}
+			const userByLocation: Record<string, string> = {}
+			const operations: DbOperation[] = []
+
+			for (const key of await db.keys()) {
+				if (key.startsWith("syncLocations:")) {
+					const syncLocations = await db.get(key)
+
+					if (Array.isArray(syncLocations)) {
+						for (const location of syncLocations) {
+							userByLocation[location.uuid] = key.split(":")[1]
+						}
+					}
+				} else if (key.startsWith("doneTasks:")) {
+					const userId = key.split(":")[1]
+					const doneTasks = await db.get(key)
+
+					operations.push({ type: "remove", key })
+
+					if (!Array.isArray(doneTasks)) {
+						continue
+					}
+
+					entriesByUser[userId] = (entriesByUser[userId] || []).concat(
+						doneTasks
+							.filter(
+								doneTask =>
+									doneTask &&
+									typeof doneTask.type == "string" &&
+									doneTask.task &&
+									typeof doneTask.task.path == "string" &&
+									doneTask.location &&
+									typeof doneTask.location.uuid == "string"
+							)
+							.map(doneTask => ({
+								timestamp: typeof doneTask.timestamp == "number" ? doneTask.timestamp : 0,
+								type: doneTask.type,
+								path: doneTask.task.path,
+								...(typeof doneTask.task.from == "string" ? { from: doneTask.task.from } : {}),
+								...(typeof doneTask.task.to == "string" ? { to: doneTask.task.to } : {}),
+								itemType: doneTask.task.type == "folder" ? "folder" : "file",
+								...(doneTask.task.item && typeof doneTask.task.item.uuid == "string"
+									? { uuid: doneTask.task.item.uuid }
+									: {}),
+								locationUUID: doneTask.location.uuid,
+								local: typeof doneTask.location.local == "string" ? doneTask.location.local : "",
+								direction:
+									doneTask.type == "downloadFromRemote" || doneTask.type.endsWith("InLocal")
+										? "remoteToLocal"
+										: "localToRemote",
+								size: 0,
+								result: "done"
+							}))
+					)
+				}
+			}
+
+			const sharedJournals = (await fs.pathExists(historyPath))
+				? (await fs.readdir(historyPath)).filter(entry => /^journal(\.\d+)?\.jsonl$/.test(entry))
+				: []
+
+			for (const journal of sharedJournals) {
+				const rl = readline.createInterface({
+					input: fs.createReadStream(pathModule.join(historyPath, journal), { encoding: "utf-8" }),
+					crlfDelay: Infinity
+				})
+
+				for await (const line of rl) {
+					try {
+						const entry: HistoryEntry = JSON.parse(line)
+						const userId = userByLocation[entry.locationUUID]
+
+						if (typeof userId == "string") {
+							entriesByUser[userId] = (entriesByUser[userId] || []).concat(entry)
+						}
+					} catch {
+						// Cut off lines are skipped, the journal reader does the same
+					}
+				}
+			}
+
+			// Written to the oldest of the ten journal slots of each account (journal.9.jsonl), so running this again overwrites it
+			for (const userId in entriesByUser) {
+				const entries = entriesByUser[userId].sort((a, b) => a.timestamp - b.timestamp)
+
+				if (entries.length > 0) {
+					await fs.outputFile(
+						pathModule.join(historyPath, userId, "journal.9.jsonl"),
+						entries.map(entry => JSON.stringify(entry)).join("\n") + "\n"
+					)
+				}
+			}
+
+			for (const journal of sharedJournals) {
+				await fs.remove(pathModule.join(historyPath, journal))
+			}
+
+			await db.batch(operations)
+		}
+	}
+]
@@ -1,6 +1,7 @@
 import fs from "fs-extra"
 import pathModule from "path"
 import log from "electron-log"
+import crypto from "crypto"
 import { app, shell } from "electron"
 import { Location } from "../../../../types"
 import { chunkedPromiseAll } from "../../helpers"
@@ -272,6 +273,44 @@ export const readChunk = (path: string, offset: number, length: number): Promise
 	})
 }
 
+export const hashFile = (path: string): Promise<string> => {
+	return new Promise((resolve, reject) => {
+		path = normalizePath(path)
+
+		let currentTries = 0
+		let lastErr: Error
+
+		const req = () => {
+			if (currentTries > FS_RETRIES) {
+				return reject(lastErr)
+			}
+
+			currentTries += 1
+
+			const hash = crypto.createHash("sha512")
+			const stream = fs.createReadStream(path)
+
+			stream.on("error", (err: NodeJS.ErrnoException) => {
+				lastErr = err
+
+				stream.destroy()
+
+				if (err.code && FS_RETRY_CODES.includes(err.code)) {
+					return setTimeout(req, FS_RETRY_TIMEOUT)
+				}
+
+				return reject(err)
+			})
+
+			stream.on("data", chunk => hash.update(chunk))
+
+			stream.on("end", () => resolve(hash.digest("hex")))
+		}
+
+		return req()
+	})
+}
+
 export const rm = async (path: string, location: Location): Promise<void> => {
 	path = normalizePath(path)
 
@@ -568,6 +607,36 @@ export const utimes = async (path: string, atime: Date, mtime: Date): Promise<vo
 	return await fs.utimes(path, atime, mtime)
 }
 
+export const readLink = async (path: string): Promise<string> => {
+	path = normalizePath(path)
+
+	return await fs.readlink(path)
+}
+
+export const symlink = async (target: string, path: string, mtime: Date): Promise<void> => {
+	path = normalizePath(path)
+
+	await fs.ensureDir(pathModule.dirname(path))
+
+	// Only a file or an older link may be replaced, a folder at the path is never removed for a link
+	try {
+		const stats = await fs.lstat(path)
+
+		if (stats.isDirectory()) {
+			throw new Error("Cannot replace the directory " + path + " with a symlink")
+		}
+
+		await fs.remove(path)
+	} catch (e: any) {
+		if (!e.code || e.code !== "ENOENT") {
+			throw e
+		}
+	}
+
+	await fs.symlink(target, path)
+	await fs.promises.lutimes(path, mtime, mtime)
+}
+
 export const unlink = async (path: string): Promise<void> => {
 	path = normalizePath(path)
 
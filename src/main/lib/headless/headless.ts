@@ -0,0 +1,207 @@
+import { app, ipcMain } from "electron"
+import log from "electron-log"
+import readline from "readline"
+import { v4 as uuidv4 } from "uuid"
+import db from "../db"
+import { listen, emitGlobal, invokeHandler } from "../ipc"
+import { createWorker } from "../windows"
+import { SyncIssue, Location } from "../../../types"
+
+const HEADLESS_READY_TIMEOUT = 60000
+const HEADLESS_LOGIN_TIMEOUT = 300000
+const printedIssues: Record<string, boolean> = {}
+
+export const isHeadless = (): boolean => {
+	return process.argv.includes("--headless")
+}
+
+// One JSON object per line so the output can be piped into log collectors
+export const print = (type: string, data: any = {}): void => {
+	try {
+		process.stdout.write(JSON.stringify({ timestamp: Date.now(), type, data }) + "\n")
+	} catch (e) {
+		log.error(e)
+	}
+}
+
+// Expects the email, the password and an optional two factor code on separate lines
+export const readCredentialsFromStdin = (): Promise<{ email: string; password: string; twoFactorCode: string }> => {
+	return new Promise(resolve => {
+		const lines: string[] = []
+		const rl = readline.createInterface({
+			input: process.stdin,
+			terminal: false
+		})
+
+		rl.on("line", line => {
+			lines.push(line)
+
+			if (lines.length >= 3) {
+				rl.close()
+			}
+		})
+
+		rl.once("close", () => {
+			return resolve({
+				email: lines[0] || "",
+				password: lines[1] || "",
+				twoFactorCode: lines[2] || ""
+			})
+		})
+	})
+}
+
+const waitForWorkerMessage = (type: string, timeout: number): Promise<any> => {
+	return new Promise((resolve, reject) => {
+		const onMessage = (_: any, data: any) => {
+			if (data && data.type == type) {
+				clearTimeout(timer)
+
+				ipcMain.removeListener("proxy-global-message", onMessage)
+
+				return resolve(data.data)
+			}
+		}
+
+		const timer = setTimeout(() => {
+			ipcMain.removeListener("proxy-global-message", onMessage)
+
+			return reject(new Error("Timed out waiting for " + type + " from the worker"))
+		}, timeout)
+
+		ipcMain.on("proxy-global-message", onMessage)
+	})
+}
+
+// The worker only handles the login once it said it is ready, a message sent before that would be lost
+const requestLogin = async (workerReady: Promise<void>, credentials: Record<string, any>): Promise<void> => {
+	await workerReady
+
+	const result = waitForWorkerMessage("headlessLoginResult", HEADLESS_LOGIN_TIMEOUT)
+
+	emitGlobal("global-message", {
+		type: "headlessLogin",
+		data: credentials
+	})
+
+	const data = await result
+
+	if (!data.success) {
+		throw new Error(data.message)
+	}
+}
+
+const printWorkerMessage = (message: any): void => {
+	if (!message || typeof message !== "object" || !message.data) {
+		return
+	}
+
+	if (message.type == "syncStatus") {
+		print("syncStatus", message.data)
+	} else if (message.type == "syncStatusLocation" && message.data.data && message.data.data.status == "err") {
+		print("syncStatusLocation", {
+			type: message.data.type,
+			locationUUID: message.data.data.location ? message.data.data.location.uuid : undefined,
+			err: message.data.data.err ? message.data.data.err.message || message.data.data.err.toString() : undefined
+		})
+	} else if (message.type == "syncTask" && message.data.data && (message.data.data.status == "done" || message.data.data.err)) {
+		print("syncTask", {
+			type: message.data.type,
+			status: message.data.data.err ? "err" : "done",
+			path: message.data.data.task ? message.data.data.task.path : undefined,
+			locationUUID: message.data.data.location ? message.data.data.location.uuid : undefined,
+			err: message.data.data.err ? message.data.data.err.message || message.data.data.err.toString() : undefined
+		})
+	}
+}
+
+const printNewSyncIssues = async (): Promise<void> => {
+	const syncIssues: SyncIssue[] = await invokeHandler("getSyncIssues")
+
+	for (const issue of syncIssues) {
+		if (printedIssues[issue.uuid]) {
+			continue
+		}
+
+		printedIssues[issue.uuid] = true
+
+		print("syncIssue", {
+			...issue,
+			err: issue.err ? issue.err.message || issue.err.toString() : undefined
+		})
+	}
+}
+
+export const runHeadless = async (): Promise<void> => {
+	await listen()
+
+	ipcMain.on("proxy-global-message", (_, data) => printWorkerMessage(data))
+
+	if (!(await db.get("deviceId"))) {
+		await db.set("deviceId", uuidv4())
+	}
+
+	// Listening before the worker window exists, the ready message is sent once when its route loads
+	const workerReady: Promise<void> = waitForWorkerMessage("headlessLoginReady", HEADLESS_READY_TIMEOUT)
+
+	// Nothing awaits it when the user is already logged in
+	workerReady.catch(() => {})
+
+	const worker = await createWorker()
+
+	worker.once("closed", () => {
+		print("exit", {
+			reason: "Worker closed"
+		})
+
+		app.exit(1)
+	})
+
+	try {
+		if (typeof process.env.FILEN_API_KEY == "string" && process.env.FILEN_API_KEY.length > 0) {
+			await requestLogin(workerReady, {
+				apiKey: process.env.FILEN_API_KEY,
+				masterKeys: (process.env.FILEN_MASTER_KEYS || "").split("|").filter(key => key.length > 0)
+			})
+
+			print("loggedIn", {
+				method: "apiKey"
+			})
+		} else if (!(await db.get("isLoggedIn"))) {
+			print("waitingForCredentials")
+
+			await requestLogin(workerReady, await readCredentialsFromStdin())
+
+			print("loggedIn", {
+				method: "credentials"
+			})
+		}
+	} catch (e: any) {
+		log.error(e)
+
+		print("loginFailed", {
+			message: e.message
+		})
+
+		app.exit(1)
+
+		return
+	}
+
+	const userId = await db.get("userId")
+	const syncLocations: Location[] | null = await db.get("syncLocations:" + userId)
+
+	print("syncLocations", {
+		locations: (Array.isArray(syncLocations) ? syncLocations : []).map(location => ({
+			uuid: location.uuid,
+			local: location.local,
+			remote: location.remote,
+			type: location.type,
+			paused: location.paused
+		}))
+	})
+
+	setInterval(() => {
+		printNewSyncIssues().catch(log.error)
+	}, 5000)
+}
@@ -0,0 +1,157 @@
+/**
+ * @jest-environment node
+ */
+
+import pathModule from "path"
+import os from "os"
+import fs from "fs-extra"
+import { append, query, clear, entryFromSyncTask, getJournalDir } from "./history"
+import { HistoryEntry } from "../../../types"
+
+const mockUserDataPath = fs.realpathSync(fs.mkdtempSync(pathModule.join(os.tmpdir(), "filen-history-test-")))
+let mockUserId: number | null = 1
+
+jest.mock("electron", () => ({
+	app: {
+		getPath: () => mockUserDataPath
+	},
+	ipcMain: {
+		on: () => {}
+	}
+}))
+jest.mock("electron-log", () => ({
+	info: () => {},
+	error: () => {}
+}))
+jest.mock("../db", () => ({
+	__esModule: true,
+	default: {
+		get: async (key: string) => (key == "userId" ? mockUserId : null)
+	}
+}))
+
+afterAll(async () => {
+	await fs.remove(mockUserDataPath)
+})
+
+const entry = (path: string, timestamp: number, result: "done" | "err" = "done"): HistoryEntry => ({
+	timestamp,
+	type: "uploadToRemote",
+	path,
+	itemType: "file",
+	locationUUID: "location",
+	local: "/local",
+	direction: "localToRemote",
+	size: 1,
+	result
+})
+
+describe("entryFromSyncTask", () => {
+	it("turns a finished download into an entry", () => {
+		jest.spyOn(Date, "now").mockReturnValue(1000)
+
+		expect(
+			entryFromSyncTask("downloadFromRemote", {
+				status: "done",
+				task: { path: "docs/a.txt", type: "file", item: { uuid: "item", metadata: { size: 42 } } },
+				location: { uuid: "location", local: "/local" }
+			})
+		).toEqual({
+			timestamp: 1000,
+			type: "downloadFromRemote",
+			path: "docs/a.txt",
+			itemType: "file",
+			uuid: "item",
+			locationUUID: "location",
+			local: "/local",
+			direction: "remoteToLocal",
+			size: 42,
+			result: "done"
+		})
+
+		jest.restoreAllMocks()
+	})
+
+	it("keeps both paths of a move and the error of a failed task", () => {
+		const moved = entryFromSyncTask("moveInRemote", {
+			status: "err",
+			err: new Error("Permission denied"),
+			task: { path: "new", from: "old", to: "new", type: "folder", item: { size: "12" } },
+			location: { uuid: "location" }
+		})
+
+		expect(moved).toMatchObject({
+			from: "old",
+			to: "new",
+			itemType: "folder",
+			direction: "localToRemote",
+			size: 12,
+			local: "",
+			result: "err",
+			err: "Permission denied"
+		})
+	})
+
+	it("ignores malformed tasks", () => {
+		expect(entryFromSyncTask("uploadToRemote", null)).toBeNull()
+		expect(entryFromSyncTask("uploadToRemote", { task: {}, location: { uuid: "location" } })).toBeNull()
+		expect(entryFromSyncTask("uploadToRemote", { task: { path: "a" } })).toBeNull()
+	})
+})
+
+describe("journal", () => {
+	beforeEach(() => {
+		mockUserId = 1
+	})
+
+	it("returns the newest entries first and filters them", async () => {
+		await append(1, entry("a.txt", 1))
+		await append(1, entry("b.txt", 2, "err"))
+		await append(1, entry("c.txt", 3))
+
+		expect((await query()).map(entry => entry.path)).toEqual(["c.txt", "b.txt", "a.txt"])
+		expect((await query({ result: "err" })).map(entry => entry.path)).toEqual(["b.txt"])
+		expect((await query({ before: 3, limit: 1 })).map(entry => entry.path)).toEqual(["b.txt"])
+	})
+
+	it("keeps the journals of different accounts apart", async () => {
+		await append(2, entry("other.txt", 1))
+
+		mockUserId = 2
+
+		expect((await query()).map(entry => entry.path)).toEqual(["other.txt"])
+
+		mockUserId = null
+
+		expect(await query()).toEqual([])
+	})
+
+	it("rotates the journal once it reaches the size limit", async () => {
+		const dir = getJournalDir(3)
+
+		// Fills the journal just below the limit with one big line, the next append does not fit anymore
+		await fs.outputFile(pathModule.join(dir, "journal.jsonl"), "x".repeat(10 * 1024 * 1024 - 10) + "\n")
+		await fs.outputFile(pathModule.join(dir, "journal.1.jsonl"), JSON.stringify(entry("older.txt", 0)) + "\n")
+
+		await append(3, entry("new.txt", 1))
+
+		expect((await fs.readdir(dir)).sort()).toEqual(["journal.1.jsonl", "journal.2.jsonl", "journal.jsonl"])
+		expect((await fs.stat(pathModule.join(dir, "journal.1.jsonl"))).size).toBe(10 * 1024 * 1024 - 9)
+		expect(JSON.parse(await fs.readFile(pathModule.join(dir, "journal.jsonl"), "utf-8"))).toEqual(entry("new.txt", 1))
+
+		mockUserId = 3
+
+		// The filler line is no entry and gets skipped
+		expect((await query()).map(entry => entry.path)).toEqual(["new.txt", "older.txt"])
+	})
+
+	it("clears only the journal of the current account", async () => {
+		await append(1, entry("a.txt", 1))
+		await append(2, entry("b.txt", 1))
+
+		await clear()
+
+		expect(await fs.pathExists(getJournalDir(1))).toBe(false)
+		expect(await fs.pathExists(getJournalDir(2))).toBe(true)
+	})
+})
@@ -0,0 +1,224 @@
+import { app, ipcMain } from "electron"
+import log from "electron-log"
+import fs from "fs-extra"
+import pathModule from "path"
+import readline from "readline"
+import db from "../db"
+import { HistoryEntry, HistoryQuery } from "../../../types"
+
+const MAX_JOURNAL_SIZE = 10 * 1024 * 1024
+const MAX_JOURNAL_FILES = 10
+const DEFAULT_QUERY_LIMIT = 500
+let writeQueue: Promise<void> = Promise.resolve()
+const journalSizes: Record<number, number> = {}
+
+// Every account has its own journal, the history of one account must never show up after logging in with another
+export const getJournalDir = (userId: number): string => {
+	return pathModule.join(app.getPath("userData"), "history", userId.toString())
+}
+
+// journal.jsonl is the one being written to, journal.1.jsonl the one before it and so on
+const getJournalPath = (userId: number, index: number): string => {
+	return pathModule.join(getJournalDir(userId), index == 0 ? "journal.jsonl" : "journal." + index + ".jsonl")
+}
+
+// Null while nobody is logged in, nothing is written or shown then
+const getUserId = async (): Promise<number | null> => {
+	const userId = await db.get("userId")
+
+	return typeof userId == "number" && userId > 0 ? userId : null
+}
+
+const rotate = async (userId: number): Promise<void> => {
+	await fs.remove(getJournalPath(userId, MAX_JOURNAL_FILES - 1))
+
+	for (let i = MAX_JOURNAL_FILES - 2; i >= 0; i--) {
+		if (await fs.pathExists(getJournalPath(userId, i))) {
+			await fs.move(getJournalPath(userId, i), getJournalPath(userId, i + 1), { overwrite: true })
+		}
+	}
+}
+
+// Writes are queued so lines never interleave and rotation cannot happen in the middle of an append
+export const append = (userId: number, entry: HistoryEntry): Promise<void> => {
+	writeQueue = writeQueue
+		.then(async () => {
+			const path = getJournalPath(userId, 0)
+			const line = JSON.stringify(entry) + "\n"
+			const lineSize = Buffer.byteLength(line)
+
+			await fs.ensureDir(getJournalDir(userId))
+
+			if (typeof journalSizes[userId] !== "number") {
+				journalSizes[userId] = (await fs.pathExists(path)) ? (await fs.stat(path)).size : 0
+			}
+
+			if (journalSizes[userId] > 0 && journalSizes[userId] + lineSize > MAX_JOURNAL_SIZE) {
+				await rotate(userId)
+
+				journalSizes[userId] = 0
+			}
+
+			await fs.appendFile(path, line)
+
+			journalSizes[userId] += lineSize
+		})
+		.catch(log.error)
+
+	return writeQueue
+}
+
+const matchesQuery = (entry: HistoryEntry, query: HistoryQuery): boolean => {
+	if (typeof query.locationUUID == "string" && query.locationUUID.length > 0 && entry.locationUUID !== query.locationUUID) {
+		return false
+	}
+
+	if (typeof query.result == "string" && entry.result !== query.result) {
+		return false
+	}
+
+	if (typeof query.before == "number" && entry.timestamp >= query.before) {
+		return false
+	}
+
+	if (typeof query.path == "string" && query.path.trim().length > 0) {
+		const search = query.path.trim().toLowerCase()
+
+		// Renames and moves match on both the old and the new path
+		return [entry.path, entry.from, entry.to].some(path => typeof path == "string" && path.toLowerCase().indexOf(search) !== -1)
+	}
+
+	return true
+}
+
+const readJournal = async (path: string, query: HistoryQuery): Promise<HistoryEntry[]> => {
+	const entries: HistoryEntry[] = []
+	const rl = readline.createInterface({
+		input: fs.createReadStream(path, { encoding: "utf-8" }),
+		crlfDelay: Infinity
+	})
+
+	for await (const line of rl) {
+		if (line.length == 0) {
+			continue
+		}
+
+		try {
+			const entry: HistoryEntry = JSON.parse(line)
+
+			if (matchesQuery(entry, query)) {
+				entries.push(entry)
+			}
+		} catch (e) {
+			// A line cut off by a crash, everything around it is still fine
+			log.error(e)
+		}
+	}
+
+	return entries
+}
+
+// Newest entries first
+export const query = async (historyQuery: HistoryQuery = {}): Promise<HistoryEntry[]> => {
+	const limit = typeof historyQuery.limit == "number" && historyQuery.limit > 0 ? historyQuery.limit : DEFAULT_QUERY_LIMIT
+	const results: HistoryEntry[] = []
+	const userId = await getUserId()
+
+	if (userId === null) {
+		return results
+	}
+
+	await writeQueue
+
+	for (let i = 0; i < MAX_JOURNAL_FILES && results.length < limit; i++) {
+		const path = getJournalPath(userId, i)
+
+		if (!(await fs.pathExists(path))) {
+			continue
+		}
+
+		results.push(...(await readJournal(path, historyQuery)).reverse())
+	}
+
+	return results.slice(0, limit)
+}
+
+export const clear = async (): Promise<void> => {
+	const userId = await getUserId()
+
+	if (userId === null) {
+		return
+	}
+
+	writeQueue = writeQueue
+		.then(async () => {
+			await fs.remove(getJournalDir(userId))
+
+			delete journalSizes[userId]
+		})
+		.catch(log.error)
+
+	await writeQueue
+}
+
+export const entryFromSyncTask = (type: string, data: any): HistoryEntry | null => {
+	if (typeof data !== "object" || data === null || typeof data.task !== "object" || typeof data.location !== "object") {
+		return null
+	}
+
+	const { task, location } = data
+
+	if (typeof task.path !== "string" || typeof location.uuid !== "string") {
+		return null
+	}
+
+	const item = typeof task.item == "object" && task.item !== null ? task.item : {}
+	const size = type == "downloadFromRemote" ? (item.metadata ? item.metadata.size : 0) : item.size
+
+	return {
+		timestamp: Date.now(),
+		type,
+		path: task.path,
+		...(typeof task.from == "string" ? { from: task.from } : {}),
+		...(typeof task.to == "string" ? { to: task.to } : {}),
+		itemType: task.type == "folder" ? "folder" : "file",
+		...(typeof item.uuid == "string" ? { uuid: item.uuid } : {}),
+		locationUUID: location.uuid,
+		local: typeof location.local == "string" ? location.local : "",
+		// Tasks applied to the local side were caused by a change on the remote side and vice versa
+		direction: type == "downloadFromRemote" || type.endsWith("InLocal") ? "remoteToLocal" : "localToRemote",
+		size: typeof size == "number" ? size : parseInt(size) || 0,
+		result: data.status == "done" ? "done" : "err",
+		...(data.status !== "done" && data.err ? { err: data.err.message || data.err.toString() } : {})
+	}
+}
+
+export const listen = (): void => {
+	ipcMain.on("proxy-global-message", (_, message) => {
+		if (
+			!message ||
+			message.type !== "syncTask" ||
+			typeof message.data !== "object" ||
+			message.data === null ||
+			typeof message.data.data !== "object" ||
+			message.data.data === null ||
+			(message.data.data.status !== "done" && message.data.data.status !== "err")
+		) {
+			return
+		}
+
+		const entry = entryFromSyncTask(message.data.type, message.data.data)
+
+		if (entry === null) {
+			return
+		}
+
+		getUserId()
+			.then(userId => {
+				if (userId !== null) {
+					return append(userId, entry)
+				}
+			})
+			.catch(log.error)
+	})
+}
@@ -10,12 +10,15 @@ import db from "../db"
 import { SyncIssue } from "../../../types"
 import memoryCache from "../memoryCache"
 import { createMain, createSettings, createCloud, createDownload, createSelectiveSync } from "../windows"
-import { updateTrayIcon, updateTrayMenu, updateTrayTooltip } from "../tray"
+import { updateTrayIcon, updateTrayMenu, updateTrayTooltip, showTrayNotification } from "../tray"
 import { upload } from "../trayMenu"
 import * as fsLocal from "../fs/local"
 import { watch } from "../watcher"
-import { writeMutexes } from "../db/db"
+import { writeMutexes, getMigrationStatus } from "../db/db"
 import { Semaphore } from "../helpers"
+import { applyProxySettings, resolveProxy } from "../proxy"
+import { evaluateTransferPolicy } from "../power"
+import * as history from "../history"
 
 const autoLauncher = new AutoLaunch({
 	name: "Filen",
@@ -55,7 +58,11 @@ export const encodeError = (e: any) => {
 	}
 }
 
+const handlers: Record<string, (event: Electron.IpcMainInvokeEvent, ...args: any[]) => any> = {}
+
 export const handlerProxy = (channel: string, handler: (event: Electron.IpcMainInvokeEvent, ...args: any[]) => any) => {
+	handlers[channel] = handler
+
 	ipcMain.handle(channel, async (...args) => {
 		if (!validateSender(args[0])) {
 			return {
@@ -75,6 +82,15 @@ export const handlerProxy = (channel: string, handler: (event: Electron.IpcMainI
 	})
 }
 
+// Lets other main process modules (e.g. the control API) reuse the renderer handlers without an IPC roundtrip
+export const invokeHandler = async (channel: string, ...args: any[]): Promise<any> => {
+	if (typeof handlers[channel] !== "function") {
+		throw new Error("No handler registered for " + channel)
+	}
+
+	return await Promise.resolve(handlers[channel](null as unknown as Electron.IpcMainInvokeEvent, ...args))
+}
+
 handlerProxy("getAppPath", async (_, { path }) => {
 	return app.getPath(path)
 })
@@ -389,6 +405,10 @@ handlerProxy("updateTrayTooltip", async (_, { text }) => {
 	updateTrayTooltip(text)
 })
 
+handlerProxy("showTrayNotification", async (_, { title, body, page }) => {
+	showTrayNotification(title, body, typeof page == "string" ? () => createSettings(page).catch(log.error) : undefined)
+})
+
 handlerProxy("getFileIconName", async (_, { name }) => {
 	if (memoryCache.has("getFileIconName:" + name)) {
 		return memoryCache.get("getFileIconName:" + name)
@@ -494,6 +514,35 @@ handlerProxy("clearSyncIssues", async () => {
 	syncIssues = []
 })
 
+handlerProxy("resolveProxy", async (_, { url }) => {
+	return await resolveProxy(url)
+})
+
+handlerProxy("applyProxySettings", async () => {
+	await applyProxySettings()
+})
+
+handlerProxy("evaluateTransferPolicy", async () => {
+	return await evaluateTransferPolicy()
+})
+
+handlerProxy("getDbMigrationStatus", async () => {
+	return getMigrationStatus()
+})
+
+// Batches from the renderers are committed here, the main process owns the journal and replays it on startup
+handlerProxy("dbBatch", async (_, { operations }) => {
+	await db.batch(operations)
+})
+
+handlerProxy("queryHistory", async (_, query) => {
+	return await history.query(query)
+})
+
+handlerProxy("clearHistory", async () => {
+	await history.clear()
+})
+
 handlerProxy("fsNormalizePath", async (_, path) => {
 	return fsLocal.normalizePath(path)
 })
@@ -526,6 +575,10 @@ handlerProxy("fsReadChunk", async (_, { path, offset, length }) => {
 	return await fsLocal.readChunk(path, offset, length)
 })
 
+handlerProxy("fsHashFile", async (_, path) => {
+	return await fsLocal.hashFile(path)
+})
+
 handlerProxy("fsRm", async (_, { path, location }) => {
 	await fsLocal.rm(path, location)
 })
@@ -562,6 +615,14 @@ handlerProxy("fsUtimes", async (_, { path, atime, mtime }) => {
 	await fsLocal.utimes(path, atime, mtime)
 })
 
+handlerProxy("fsReadLink", async (_, path) => {
+	return await fsLocal.readLink(path)
+})
+
+handlerProxy("fsSymlink", async (_, { target, path, mtime }) => {
+	await fsLocal.symlink(target, path, mtime)
+})
+
 handlerProxy("fsRemove", async (_, path) => {
 	await fsLocal.remove(path)
 })
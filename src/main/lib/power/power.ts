@@ -0,0 +1,172 @@
+import { powerMonitor } from "electron"
+import log from "electron-log"
+import { execFile } from "child_process"
+import fs from "fs-extra"
+import pathModule from "path"
+import is from "electron-is"
+import db from "../db"
+import { TransferPolicy, TransferPolicyActions } from "../../../types"
+import constants from "../../../constants.json"
+
+const POLICY_INTERVAL = 60000
+const COMMAND_TIMEOUT = 10000
+let POLICY_TIMEOUT: NodeJS.Timeout
+let POLICY_GENERATION: number = 0
+let lastPolicy: string = ""
+
+const run = (file: string, args: string[]): Promise<string> => {
+	return new Promise((resolve, reject) => {
+		execFile(file, args, { timeout: COMMAND_TIMEOUT, windowsHide: true }, (err, stdout) => {
+			if (err) {
+				return reject(err)
+			}
+
+			return resolve(stdout.toString())
+		})
+	})
+}
+
+// Battery charge in percent, null when it cannot be determined (e.g. desktops)
+export const getBatteryLevel = async (): Promise<number | null> => {
+	try {
+		if (is.linux()) {
+			const supplies = await fs.readdir("/sys/class/power_supply")
+
+			for (const supply of supplies) {
+				if (!supply.startsWith("BAT")) {
+					continue
+				}
+
+				const capacity = parseInt(await fs.readFile(pathModule.join("/sys/class/power_supply", supply, "capacity"), "utf8"))
+
+				if (!isNaN(capacity)) {
+					return capacity
+				}
+			}
+		} else if (is.macOS()) {
+			const match = (await run("pmset", ["-g", "batt"])).match(/(\d+)%/)
+
+			if (match) {
+				return parseInt(match[1])
+			}
+		} else if (is.windows()) {
+			const capacity = parseInt(
+				await run("powershell.exe", ["-NoProfile", "-Command", "(Get-CimInstance Win32_Battery).EstimatedChargeRemaining"])
+			)
+
+			if (!isNaN(capacity)) {
+				return capacity
+			}
+		}
+	} catch (e) {
+		log.error(e)
+	}
+
+	return null
+}
+
+// There is no cross platform API for this, so we ask NetworkManager on Linux and the connection profile on Windows.
+// macOS does not expose it, the settings window tells the user the policy has no effect there.
+export const isOnMeteredNetwork = async (): Promise<boolean> => {
+	try {
+		if (is.linux()) {
+			const output = await run("nmcli", ["-t", "-f", "GENERAL.METERED", "dev", "show"])
+
+			return output.split("\n").some(line => /:(yes|yes \(guessed\))$/.test(line.trim()))
+		} else if (is.windows()) {
+			const output = await run("powershell.exe", [
+				"-NoProfile",
+				"-Command",
+				"[void][Windows.Networking.Connectivity.NetworkInformation,Windows.Networking.Connectivity,ContentType=WindowsRuntime];" +
+					"$profile = [Windows.Networking.Connectivity.NetworkInformation]::GetInternetConnectionProfile();" +
+					"if ($profile) { $profile.GetConnectionCost().NetworkCostType }"
+			])
+
+			return ["Fixed", "Variable"].includes(output.trim())
+		}
+	} catch (e) {
+		log.error(e)
+	}
+
+	return false
+}
+
+const getPolicyAction = async (key: string): Promise<TransferPolicyActions> => {
+	const action = await db.get(key)
+
+	return action == "pause" || action == "throttle" ? action : "none"
+}
+
+export const evaluateTransferPolicy = async (): Promise<TransferPolicy> => {
+	const [meteredPolicy, batteryPolicy, batteryThreshold] = await Promise.all([
+		getPolicyAction("meteredPolicy"),
+		getPolicyAction("batteryPolicy"),
+		db.get("batteryPolicyThreshold")
+	])
+
+	const candidates: TransferPolicy[] = []
+
+	if (batteryPolicy !== "none" && powerMonitor.isOnBatteryPower()) {
+		const threshold = typeof batteryThreshold == "number" ? batteryThreshold : constants.batteryPolicyThreshold
+		const batteryLevel = await getBatteryLevel()
+
+		if (threshold >= 100 || (batteryLevel !== null && batteryLevel < threshold)) {
+			candidates.push({
+				action: batteryPolicy,
+				reason: "battery",
+				batteryLevel
+			})
+		}
+	}
+
+	if (meteredPolicy !== "none" && (await isOnMeteredNetwork())) {
+		candidates.push({
+			action: meteredPolicy,
+			reason: "metered"
+		})
+	}
+
+	// Pausing wins over throttling
+	const policy: TransferPolicy = candidates.filter(candidate => candidate.action == "pause")[0] ||
+		candidates[0] || {
+			action: "none"
+		}
+
+	const serialized = JSON.stringify(policy)
+
+	if (serialized !== lastPolicy) {
+		lastPolicy = serialized
+
+		await db.set("transferPolicy", policy)
+
+		log.info("Transfer policy changed: " + serialized)
+	}
+
+	return policy
+}
+
+// Power events can arrive while an evaluation is still running (the battery and metered checks spawn processes).
+// Only the latest run may schedule the next one, otherwise every overlapping event would leave its own polling chain behind.
+const scheduleEvaluation = (): void => {
+	clearTimeout(POLICY_TIMEOUT)
+
+	const generation = ++POLICY_GENERATION
+
+	evaluateTransferPolicy()
+		.catch(log.error)
+		.finally(() => {
+			if (generation !== POLICY_GENERATION) {
+				return
+			}
+
+			POLICY_TIMEOUT = setTimeout(scheduleEvaluation, POLICY_INTERVAL)
+		})
+}
+
+export const listen = (): void => {
+	powerMonitor.on("on-battery", () => scheduleEvaluation())
+	powerMonitor.on("on-ac", () => scheduleEvaluation())
+	powerMonitor.on("resume", () => scheduleEvaluation())
+
+	scheduleEvaluation()
+}
@@ -0,0 +1,71 @@
+import { app, session } from "electron"
+import log from "electron-log"
+import db from "../db"
+import { ProxySettings } from "../../../types"
+
+export const getProxySettings = async (): Promise<ProxySettings> => {
+	const settings: ProxySettings | null = await db.get("proxySettings")
+
+	if (settings === null || typeof settings !== "object" || typeof settings.mode !== "string") {
+		return {
+			mode: "none"
+		}
+	}
+
+	return settings
+}
+
+// Applies the proxy settings to Chromium's own traffic (windows, updater). Requests made with node's http(s) modules pick them up in api.ts.
+export const applyProxySettings = async (): Promise<void> => {
+	const settings = await getProxySettings()
+
+	if (settings.mode == "system") {
+		await session.defaultSession.setProxy({
+			mode: "system"
+		})
+	} else if ((settings.mode == "http" || settings.mode == "socks5") && typeof settings.host == "string" && settings.host.length > 0) {
+		await session.defaultSession.setProxy({
+			mode: "fixed_servers",
+			proxyRules: (settings.mode == "socks5" ? "socks5://" : "http://") + settings.host + ":" + settings.port,
+			proxyBypassRules: ["<local>", ...(Array.isArray(settings.bypass) ? settings.bypass : [])].join(",")
+		})
+	} else {
+		await session.defaultSession.setProxy({
+			mode: "direct"
+		})
+	}
+
+	await session.defaultSession.closeAllConnections()
+
+	log.info("Applied proxy mode " + settings.mode)
+}
+
+export const resolveProxy = async (url: string): Promise<string> => {
+	return await session.defaultSession.resolveProxy(url)
+}
+
+export const listen = (): void => {
+	app.on("login", (event, _, __, authInfo, callback) => {
+		if (!authInfo.isProxy) {
+			return
+		}
+
+		event.preventDefault()
+
+		getProxySettings()
+			.then(settings => {
+				if (typeof settings.username == "string" && settings.username.length > 0) {
+					callback(settings.username, settings.password || "")
+
+					return
+				}
+
+				callback()
+			})
+			.catch(err => {
+				log.error(err)
+
+				callback()
+			})
+	})
+}
@@ -1,4 +1,4 @@
-import { Tray, nativeImage, BrowserWindow } from "electron"
+import { Tray, nativeImage, BrowserWindow, Notification } from "electron"
 import path from "path"
 import log from "electron-log"
 // @ts-ignore
@@ -185,3 +185,24 @@ export const updateTrayTooltip = (text = "Filen") => {
 		log.error(e)
 	}
 }
+
+export const showTrayNotification = (title: string, body: string, onClick?: () => void) => {
+	if (!Notification.isSupported()) {
+		return
+	}
+
+	try {
+		const notification = new Notification({
+			title,
+			body
+		})
+
+		if (typeof onClick == "function") {
+			notification.on("click", onClick)
+		}
+
+		notification.show()
+	} catch (e) {
+		log.error(e)
+	}
+}
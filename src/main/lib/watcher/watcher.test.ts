@@ -0,0 +1,111 @@
+/**
+ * @jest-environment node
+ */
+
+import pathModule from "path"
+import os from "os"
+import fs from "fs-extra"
+import { isNetworkFileSystemType, takeStatSnapshot, diffStatSnapshots } from "./watcher"
+
+jest.mock("node-watch", () => () => ({}), { virtual: true })
+jest.mock("electron", () => ({
+	powerMonitor: {
+		on: () => {}
+	}
+}))
+jest.mock("electron-log", () => ({
+	info: () => {},
+	error: () => {}
+}))
+jest.mock("electron-is", () => ({
+	linux: () => process.platform == "linux",
+	macOS: () => process.platform == "darwin",
+	windows: () => process.platform == "win32"
+}))
+jest.mock("../ipc", () => ({
+	emitGlobal: () => {},
+	addSyncIssue: () => {}
+}))
+jest.mock("../db", () => ({
+	__esModule: true,
+	default: {
+		get: async () => null
+	}
+}))
+
+describe("isNetworkFileSystemType", () => {
+	it("detects network filesystems", () => {
+		expect(isNetworkFileSystemType("nfs4")).toBe(true)
+		expect(isNetworkFileSystemType("cifs")).toBe(true)
+		expect(isNetworkFileSystemType("SMBFS")).toBe(true)
+	})
+
+	it("only counts FUSE filesystems that talk to a network", () => {
+		expect(isNetworkFileSystemType("fuse.sshfs")).toBe(true)
+		expect(isNetworkFileSystemType("fuse.rclone")).toBe(true)
+		expect(isNetworkFileSystemType("fuse.ntfs-3g")).toBe(false)
+		expect(isNetworkFileSystemType("fuse")).toBe(false)
+	})
+
+	it("treats local filesystems as local", () => {
+		for (const type of ["ext4", "btrfs", "apfs", "tmpfs", "overlay"]) {
+			expect(isNetworkFileSystemType(type)).toBe(false)
+		}
+	})
+})
+
+describe("diffStatSnapshots", () => {
+	const snapshot = (entries: Record<string, string>) => new Map(Object.entries(entries))
+
+	it("reports added, changed and removed entries", () => {
+		const previous = snapshot({
+			"a.txt": "f:1:100",
+			"b.txt": "f:1:100",
+			"c.txt": "f:1:100"
+		})
+		const next = snapshot({
+			"a.txt": "f:1:100",
+			"b.txt": "f:2:200",
+			"d.txt": "f:1:100"
+		})
+
+		expect(diffStatSnapshots(previous, next).sort()).toEqual(["b.txt", "c.txt", "d.txt"])
+	})
+
+	it("ignores the mtime of directories", () => {
+		expect(diffStatSnapshots(snapshot({ docs: "d:4096:100" }), snapshot({ docs: "d:4096:200" }))).toEqual([])
+	})
+
+	it("reports directories that appear, disappear or turn into files", () => {
+		expect(diffStatSnapshots(snapshot({ old: "d:4096:100" }), snapshot({ new: "d:4096:100" })).sort()).toEqual(["new", "old"])
+		expect(diffStatSnapshots(snapshot({ docs: "d:4096:100" }), snapshot({ docs: "f:0:100" }))).toEqual(["docs"])
+	})
+})
+
+describe("takeStatSnapshot", () => {
+	let dir: string
+
+	beforeAll(async () => {
+		dir = await fs.realpath(await fs.mkdtemp(pathModule.join(os.tmpdir(), "filen-watcher-test-")))
+	})
+
+	afterAll(async () => {
+		await fs.remove(dir)
+	})
+
+	it("records every entry below the path except the local trash", async () => {
+		await fs.outputFile(pathModule.join(dir, "a.txt"), "a")
+		await fs.outputFile(pathModule.join(dir, "docs", "sub", "b.txt"), "bb")
+		await fs.outputFile(pathModule.join(dir, ".filen.trash.local", "deleted.txt"), "c")
+
+		const snapshot = await takeStatSnapshot(dir)
+
+		expect(Array.from(snapshot.keys()).sort()).toEqual(["a.txt", "docs", "docs/sub", "docs/sub/b.txt"])
+		expect(snapshot.get("docs/sub/b.txt")).toMatch(/^f:2:/)
+		expect(snapshot.get("docs")).toMatch(/^d:/)
+
+		await fs.outputFile(pathModule.join(dir, "docs", "sub", "b.txt"), "changed")
+
+		expect(diffStatSnapshots(snapshot, await takeStatSnapshot(dir))).toEqual(["docs/sub/b.txt"])
+	})
+})
@@ -2,22 +2,102 @@ import pathModule from "path"
 import log from "electron-log"
 import nodeWatch from "node-watch"
 import { powerMonitor } from "electron"
-import { emitGlobal } from "../ipc"
-import { getRandomArbitrary } from "../helpers"
+import { execFile } from "child_process"
+import { v4 as uuidv4 } from "uuid"
+import { emitGlobal, addSyncIssue } from "../ipc"
+import { getRandomArbitrary, Semaphore } from "../helpers"
+import db from "../db"
 import fs from "fs-extra"
+import { Location, WatcherModes } from "../../../types"
 
 const SUBS: Record<string, ReturnType<typeof nodeWatch>> = {}
 const SUBS_INFO: Record<string, string> = {}
 const pollingTimeout: Record<string, NodeJS.Timer> = {}
+// Bumped whenever polling of a path starts or stops, a poll still awaiting something from an older generation drops its result
+const pollingGeneration: Record<string, number> = {}
+const watchLimitReported: Record<string, boolean> = {}
+const MIN_POLLING_INTERVAL = 5
+const MAX_POLLING_EVENTS = 1000
+// Shared by all polled locations, so a large or slow share cannot open thousands of lstat calls at once
+const statSemaphore = new Semaphore(64)
 const lastEvent: Record<string, number> = {}
 const didCloseDueToResume: Record<string, boolean> = {}
+const activeMode: Record<string, Exclude<WatcherModes, "auto">> = {}
+const statSnapshots: Record<string, Map<string, string>> = {}
+const networkPathCache: Record<string, boolean> = {}
+const NETWORK_FILESYSTEMS = ["nfs", "nfs4", "cifs", "smb3", "smbfs", "afpfs", "webdav", "davfs", "9p", "afs", "ceph", "glusterfs", "lustre"]
+const NETWORK_FUSE_FILESYSTEMS = ["sshfs", "rclone", "s3fs", "gcsfuse", "davfs2", "glusterfs", "smbnetfs", "curlftpfs", "gvfsd-fuse"]
+
+const getMounts = async (): Promise<{ mountPoint: string; type: string }[]> => {
+	if (process.platform == "linux") {
+		const mounts = await fs.readFile("/proc/self/mounts", "utf-8")
+
+		// Mount points escape spaces and other special characters as octal sequences
+		return mounts
+			.split("\n")
+			.map(line => line.split(" "))
+			.filter(fields => fields.length >= 3)
+			.map(fields => ({
+				mountPoint: fields[1].replace(/\\([0-7]{3})/g, (_, octal) => String.fromCharCode(parseInt(octal, 8))),
+				type: fields[2]
+			}))
+	}
+
+	if (process.platform == "darwin") {
+		const output = await new Promise<string>((resolve, reject) => {
+			execFile("mount", [], { timeout: 10000 }, (err, stdout) => {
+				if (err) {
+					return reject(err)
+				}
+
+				return resolve(stdout.toString())
+			})
+		})
+
+		return output
+			.split("\n")
+			.map(line => /^.+ on (.+) \(([^,)]+)/.exec(line))
+			.filter((match): match is RegExpExecArray => match !== null)
+			.map(match => ({
+				mountPoint: match[1],
+				type: match[2]
+			}))
+	}
+
+	return []
+}
+
+export const isNetworkFileSystemType = (type: string): boolean => {
+	const lowerType = type.toLowerCase()
 
+	if (lowerType.startsWith("fuse.")) {
+		return NETWORK_FUSE_FILESYSTEMS.includes(lowerType.slice(5))
+	}
+
+	return NETWORK_FILESYSTEMS.includes(lowerType)
+}
+
+// UNC paths on Windows, the filesystem type of the closest mount point on Linux and macOS
 export const isNetworkPath = async (path: string): Promise<boolean> => {
-	// Not reliable on linux or mac
+	if (typeof networkPathCache[path] == "boolean") {
+		return networkPathCache[path]
+	}
+
 	try {
 		const realPath = await fs.realpath(path)
+		let isNetwork = realPath.startsWith("\\\\") || realPath.startsWith("//")
 
-		return realPath.startsWith("\\\\") || realPath.startsWith("//")
+		if (!isNetwork) {
+			const mount = (await getMounts())
+				.filter(mount => mount.mountPoint == "/" || realPath == mount.mountPoint || realPath.startsWith(mount.mountPoint + "/"))
+				.sort((a, b) => b.mountPoint.length - a.mountPoint.length)[0]
+
+			isNetwork = typeof mount !== "undefined" && isNetworkFileSystemType(mount.type)
+		}
+
+		networkPathCache[path] = isNetwork
+
+		return isNetwork
 	} catch (e) {
 		log.error(e)
 
@@ -78,19 +158,291 @@ powerMonitor.on("resume", () => resumeWatchers())
 powerMonitor.on("unlock-screen", () => resumeWatchers())
 powerMonitor.on("user-did-become-active", () => resumeWatchers())
 
-export const pollingFallback = async (path: string, locationUUID: string) => {
-	clearInterval(pollingTimeout[path])
+const getLocation = async (locationUUID: string): Promise<Location | undefined> => {
+	const userId = await db.get("userId")
+	const syncLocations: Location[] | null = await db.get("syncLocations:" + userId)
 
-	pollingTimeout[path] = setInterval(() => {
+	return Array.isArray(syncLocations) ? syncLocations.filter(location => location.uuid == locationUUID)[0] : undefined
+}
+
+// Network filesystems rarely deliver change events, so they are polled unless the user picked a mode
+export const getWatcherMode = async (path: string, locationUUID: string): Promise<Exclude<WatcherModes, "auto">> => {
+	try {
+		const location = await getLocation(locationUUID)
+
+		if (location && (location.watcherMode == "native" || location.watcherMode == "polling" || location.watcherMode == "hybrid")) {
+			return location.watcherMode
+		}
+	} catch (e) {
+		log.error(e)
+	}
+
+	return (await isNetworkPath(path)) ? "polling" : "native"
+}
+
+// Seconds, configured per location. Without one we poll at a random interval so several locations do not scan at the same time.
+export const getPollingInterval = async (locationUUID: string): Promise<number> => {
+	try {
+		const location = await getLocation(locationUUID)
+
+		if (location && typeof location.pollingInterval == "number" && location.pollingInterval > 0) {
+			return Math.max(location.pollingInterval, MIN_POLLING_INTERVAL) * 1000
+		}
+	} catch (e) {
+		log.error(e)
+	}
+
+	return getRandomArbitrary(30000, 60000)
+}
+
+export const isWatchLimitError = (err: any): boolean => {
+	if (!err) {
+		return false
+	}
+
+	const message = typeof err.message == "string" ? err.message : err.toString()
+
+	return err.code == "ENOSPC" || message.indexOf("ENOSPC") !== -1 || message.indexOf("file watchers reached") !== -1
+}
+
+export const getInotifyWatchLimit = async (): Promise<number | null> => {
+	try {
+		const limit = parseInt((await fs.readFile("/proc/sys/fs/inotify/max_user_watches", "utf-8")).trim())
+
+		return isNaN(limit) ? null : limit
+	} catch (e) {
+		log.error(e)
+
+		return null
+	}
+}
+
+// Every directory needs its own inotify watch, files do not
+export const countDirectories = async (path: string): Promise<number> => {
+	const queue: string[] = [path]
+	let count = 0
+
+	while (queue.length > 0) {
+		const current = queue.pop()!
+
+		count += 1
+
+		try {
+			const entries = await fs.readdir(current, { withFileTypes: true })
+
+			for (const entry of entries) {
+				if (entry.isDirectory() && !entry.isSymbolicLink()) {
+					queue.push(pathModule.join(current, entry.name))
+				}
+			}
+		} catch (e) {
+			log.error(e)
+		}
+	}
+
+	return count
+}
+
+export const reportWatchLimit = async (path: string, locationUUID: string): Promise<void> => {
+	if (process.platform !== "linux" || watchLimitReported[locationUUID]) {
+		return
+	}
+
+	watchLimitReported[locationUUID] = true
+
+	// The limit is per user, so it has to cover every location that is watched natively, not just this one
+	const nativePaths = [
+		path,
+		...Object.keys(SUBS_INFO).filter(
+			watchedPath => watchedPath !== path && (activeMode[watchedPath] == "native" || activeMode[watchedPath] == "hybrid")
+		)
+	]
+	const [limit, directoryCounts, pollingInterval] = await Promise.all([
+		getInotifyWatchLimit(),
+		Promise.all(nativePaths.map(nativePath => countDirectories(nativePath))),
+		getPollingInterval(locationUUID)
+	])
+	const directories = directoryCounts[0]
+	const totalDirectories = directoryCounts.reduce((total, count) => total + count, 0)
+	// Other applications use watches too, so leave some headroom
+	const required = Math.ceil((totalDirectories + 8192) / 1024) * 1024
+
+	addSyncIssue({
+		uuid: uuidv4(),
+		type: "warning",
+		where: "local",
+		path,
+		info:
+			"The inotify watch limit was reached while watching " +
+			path +
+			" (" +
+			directories +
+			" folders, " +
+			totalDirectories +
+			" across all watched locations). Current limit: " +
+			(limit === null ? "unknown" : limit) +
+			", required: at least " +
+			required +
+			". Changes are picked up by polling every " +
+			Math.round(pollingInterval / 1000) +
+			" seconds until the limit is raised, e.g. with: echo fs.inotify.max_user_watches=" +
+			required +
+			" | sudo tee /etc/sysctl.d/90-filen.conf && sudo sysctl --system",
+		timestamp: Date.now()
+	})
+}
+
+// Relative path -> size and mtime of every entry. Only stats are read, file contents are left alone.
+export const takeStatSnapshot = async (path: string): Promise<Map<string, string>> => {
+	const snapshot = new Map<string, string>()
+	const queue: string[] = [""]
+
+	while (queue.length > 0) {
+		const current = queue.pop()!
+		const entries = await fs.readdir(pathModule.join(path, current), { withFileTypes: true })
+
+		await Promise.all(
+			entries.map(async entry => {
+				if (entry.name == ".filen.trash.local") {
+					return
+				}
+
+				const relativePath = current.length > 0 ? current + "/" + entry.name : entry.name
+
+				await statSemaphore.acquire()
+
+				try {
+					const stats = await fs.lstat(pathModule.join(path, relativePath))
+
+					snapshot.set(relativePath, (stats.isDirectory() ? "d" : "f") + ":" + stats.size + ":" + stats.mtimeMs)
+
+					if (stats.isDirectory()) {
+						queue.push(relativePath)
+					}
+				} catch (e: any) {
+					// Deleted between readdir and lstat, the next poll picks it up
+					if (e.code !== "ENOENT") {
+						log.error(e)
+					}
+				} finally {
+					statSemaphore.release()
+				}
+			})
+		)
+	}
+
+	return snapshot
+}
+
+// A directory's mtime changes with every entry added or removed in it, those entries are reported themselves.
+// Directories only count as changed when they appear or disappear.
+export const diffStatSnapshots = (previous: Map<string, string>, next: Map<string, string>): string[] => {
+	const changed: string[] = []
+
+	for (const [path, stat] of next) {
+		const previousStat = previous.get(path)
+
+		if (previousStat === stat || (typeof previousStat == "string" && previousStat.startsWith("d:") && stat.startsWith("d:"))) {
+			continue
+		}
+
+		changed.push(path)
+	}
+
+	for (const path of previous.keys()) {
+		if (!next.has(path)) {
+			changed.push(path)
+		}
+	}
+
+	return changed
+}
+
+const isPollingCancelled = (path: string, generation: number): boolean => {
+	return pollingGeneration[path] !== generation
+}
+
+const pollOnce = async (path: string, locationUUID: string, generation: number): Promise<void> => {
+	const snapshot = await takeStatSnapshot(path)
+
+	if (isPollingCancelled(path, generation)) {
+		return
+	}
+
+	const previous = statSnapshots[path]
+
+	statSnapshots[path] = snapshot
+
+	if (typeof previous == "undefined") {
+		return
+	}
+
+	const changed = diffStatSnapshots(previous, snapshot)
+
+	if (changed.length == 0) {
+		return
+	}
+
+	lastEvent[path] = Date.now()
+
+	if (changed.length > MAX_POLLING_EVENTS) {
 		emitToWorker({
 			event: "dummy",
 			name: "dummy",
 			watchPath: path,
 			locationUUID
 		})
-	}, getRandomArbitrary(30000, 60000))
+
+		return
+	}
+
+	for (const relativePath of changed) {
+		emitToWorker({
+			event: snapshot.has(relativePath) ? "update" : "remove",
+			name: pathModule.join(path, relativePath),
+			watchPath: path,
+			locationUUID
+		})
+	}
+}
+
+export const startPolling = async (path: string, locationUUID: string) => {
+	clearTimeout(pollingTimeout[path])
+
+	const generation = (pollingGeneration[path] || 0) + 1
+
+	pollingGeneration[path] = generation
+
+	// The interval is read again on every tick, so changing it in the settings applies without restarting the watcher.
+	// Polling may be stopped or restarted while a tick awaits, so it checks its generation before touching any state.
+	const poll = async () => {
+		try {
+			await pollOnce(path, locationUUID, generation)
+		} catch (e) {
+			log.error(e)
+
+			// The location is unreachable (e.g. an unmounted share), compare against a fresh snapshot once it is back
+			if (!isPollingCancelled(path, generation)) {
+				delete statSnapshots[path]
+			}
+		}
+
+		const interval = await getPollingInterval(locationUUID)
+
+		if (isPollingCancelled(path, generation)) {
+			return
+		}
+
+		pollingTimeout[path] = setTimeout(poll, interval)
+	}
+
+	pollingTimeout[path] = setTimeout(poll, 1)
 
 	setTimeout(() => {
+		if (isPollingCancelled(path, generation)) {
+			return
+		}
+
 		emitToWorker({
 			event: "dummy",
 			name: "dummy",
@@ -100,7 +452,30 @@ export const pollingFallback = async (path: string, locationUUID: string) => {
 	}, 5000)
 }
 
-export const watch = (path: string, locationUUID: string) => {
+export const stopWatching = (path: string) => {
+	clearTimeout(pollingTimeout[path])
+
+	pollingGeneration[path] = (pollingGeneration[path] || 0) + 1
+
+	delete pollingTimeout[path]
+	delete statSnapshots[path]
+	delete activeMode[path]
+
+	try {
+		if (typeof SUBS[path] !== "undefined" && typeof SUBS[path].isClosed === "function" && !SUBS[path].isClosed()) {
+			// Keeps the close handler from restarting the watcher
+			didCloseDueToResume[path] = true
+
+			SUBS[path].close()
+		}
+	} catch (e) {
+		log.error(e)
+	}
+
+	delete SUBS[path]
+}
+
+export const watchNative = (path: string, locationUUID: string) => {
 	return new Promise(async (resolve, reject) => {
 		if (typeof SUBS[path] !== "undefined") {
 			resolve(SUBS[path])
@@ -126,9 +501,14 @@ export const watch = (path: string, locationUUID: string) => {
 
 				delete didCloseDueToResume[path]
 				delete SUBS[path]
-				delete SUBS_INFO[path]
 
-				pollingFallback(path, locationUUID)
+				if (isWatchLimitError(err)) {
+					reportWatchLimit(path, locationUUID).catch(log.error)
+				}
+
+				if (typeof pollingTimeout[path] == "undefined") {
+					startPolling(path, locationUUID)
+				}
 			})
 
 			SUBS[path].on("close", () => {
@@ -136,14 +516,21 @@ export const watch = (path: string, locationUUID: string) => {
 			})
 
 			SUBS[path].on("ready", () => {
-				SUBS_INFO[path] = locationUUID
+				// Report again if the limit is hit after it was raised and the watcher came back
+				delete watchLimitReported[locationUUID]
 
 				resolve(SUBS[path])
 			})
 		} catch (e) {
 			log.error(e)
 
-			pollingFallback(path, locationUUID)
+			if (isWatchLimitError(e)) {
+				reportWatchLimit(path, locationUUID).catch(log.error)
+			}
+
+			if (typeof pollingTimeout[path] == "undefined") {
+				startPolling(path, locationUUID)
+			}
 
 			reject(e)
 
@@ -151,3 +538,24 @@ export const watch = (path: string, locationUUID: string) => {
 		}
 	})
 }
+
+export const watch = async (path: string, locationUUID: string): Promise<void> => {
+	const mode = await getWatcherMode(path, locationUUID)
+
+	if (typeof activeMode[path] !== "undefined" && activeMode[path] !== mode) {
+		log.info("Switching watcher for " + path + " from " + activeMode[path] + " to " + mode)
+
+		stopWatching(path)
+	}
+
+	activeMode[path] = mode
+	SUBS_INFO[path] = locationUUID
+
+	if ((mode == "polling" || mode == "hybrid") && typeof pollingTimeout[path] == "undefined") {
+		startPolling(path, locationUUID)
+	}
+
+	if (mode == "native" || mode == "hybrid") {
+		await watchNative(path, locationUUID)
+	}
+}
@@ -20,6 +20,9 @@ let App: any = () => <></>
 if (startingRoute[0] == "worker") {
 	const WorkerWindow = lazy(() => import("./windows/worker"))
 
+	// Outside of the userId gate below, a headless login happens before there is a user
+	import("./windows/worker/headless").then(({ listenForHeadlessLogin }) => listenForHeadlessLogin()).catch(console.error)
+
 	App = memo(() => {
 		const userId: number = useDb("userId", 0)
 
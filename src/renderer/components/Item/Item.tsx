@@ -3,7 +3,7 @@ import { Flex, Text, Progress, Spinner, Image, useToast } from "@chakra-ui/react
 import { bpsToReadable, timeSince } from "../../lib/helpers"
 import colors from "../../styles/colors"
 import { BsFileEarmark, BsFillFolderFill } from "react-icons/bs"
-import { IoSearchOutline, IoArrowDown, IoArrowUp } from "react-icons/io5"
+import { IoSearchOutline, IoArrowDown, IoArrowUp, IoGlobeOutline } from "react-icons/io5"
 import { AiOutlinePauseCircle, AiOutlineLink } from "react-icons/ai"
 import ipc from "../../lib/ipc"
 import memoryCache from "../../lib/memoryCache"
@@ -13,10 +13,11 @@ import { copyToClipboard } from "../../lib/helpers"
 import { decryptFolderLinkKey } from "../../lib/crypto"
 import db from "../../lib/db"
 import { v4 as uuidv4 } from "uuid"
-import { ItemProps } from "../../../types"
+import { ItemProps, Location } from "../../../types"
 import { createLocalTrashDirs } from "../../lib/fs/local"
 import useDarkMode from "../../lib/hooks/useDarkMode"
 import useLang from "../../lib/hooks/useLang"
+import constants from "../../../constants.json"
 
 const pathModule = window.require("path")
 const { shell } = window.require("electron")
@@ -31,10 +32,60 @@ const PUBLIC_LINK_ALLOWED_TYPES: string[] = [
 	"renameInLocal"
 ]
 
+const OPEN_IN_WEB_ALLOWED_TYPES: string[] = [
+	"uploadToRemote",
+	"renameInRemote",
+	"moveInRemote",
+	"downloadFromRemote",
+	"moveInLocal",
+	"renameInLocal"
+]
+
+// Moves and renames carry both paths, the item now lives at the new one
+const getTaskPath = (task: any): string => {
+	return typeof task.task.to == "string" ? task.task.to : task.task.path
+}
+
+// The web drive routes by the chain of folder UUIDs, starting at the synced remote folder.
+// Null when the item cannot be resolved, e.g. the location is gone or has not finished its first sync yet.
+const getWebURL = async (task: any, userId: number): Promise<string | null> => {
+	const syncLocations: Location[] | null = await db.get("syncLocations:" + userId)
+	const location = Array.isArray(syncLocations) ? syncLocations.find(location => location.uuid == task.location.uuid) : undefined
+
+	if (!location || typeof location.remoteUUID !== "string") {
+		return null
+	}
+
+	const lastRemoteTree = await db.get("lastRemoteTree:" + location.uuid)
+
+	if (!lastRemoteTree || !lastRemoteTree.folders) {
+		return null
+	}
+
+	const path = getTaskPath(task)
+	const segments = (task.task.type == "folder" ? path : pathModule.posix.dirname(path))
+		.split("/")
+		.filter((segment: string) => segment.length > 0 && segment !== ".")
+	const uuids: string[] = [location.remoteUUID]
+
+	for (let i = 0; i < segments.length; i++) {
+		const folder = lastRemoteTree.folders[segments.slice(0, i + 1).join("/")]
+
+		if (!folder || typeof folder.uuid !== "string") {
+			return null
+		}
+
+		uuids.push(folder.uuid)
+	}
+
+	return constants.webDriveURL + "/#/" + uuids.join("/")
+}
+
 /*
 task.realtime !== "undefined" -> active upload/download
 task.running !== "undefined" -> active move/rename/delete
 task.done !== "undefined" -> done task
+task.err !== "undefined" -> failed task
 */
 
 const ItemTimeSince = memo(({ task, lang }: { task: any; lang: string }) => {
@@ -328,7 +379,7 @@ const Item = memo(({ task, style, userId, platform, paused, isOnline }: ItemProp
 			onMouseLeave={() => setHovering(false)}
 		>
 			<Flex
-				width={typeof task.realtime == "undefined" ? "270px" : "250px"}
+				width="250px"
 				height="100%"
 				justifyContent="flex-start"
 				alignItems="center"
@@ -456,13 +507,13 @@ const Item = memo(({ task, style, userId, platform, paused, isOnline }: ItemProp
 										maxWidth="100%"
 										width="100%"
 									>
-										{pathModule.join(pathModule.basename(task.location.local), task.task.path)}
+										{pathModule.join(pathModule.basename(task.location.local), getTaskPath(task))}
 									</Text>
 								) : (
 									<Text
 										noOfLines={1}
 										wordBreak="break-all"
-										color={colors(platform, darkMode, "textPrimary")}
+										color={typeof task.err == "string" ? "red.500" : colors(platform, darkMode, "textPrimary")}
 										marginTop="1px"
 										fontSize={11}
 										maxWidth="100%"
@@ -476,6 +527,7 @@ const Item = memo(({ task, style, userId, platform, paused, isOnline }: ItemProp
 										{task.type == "moveInLocal" && i18n(lang, "syncTaskMoveInLocal")}
 										{task.type == "deleteInRemote" && i18n(lang, "syncTaskDeleteInRemote")}
 										{task.type == "deleteInLocal" && i18n(lang, "syncTaskDeleteInLocal")}
+										{typeof task.err == "string" && <>&nbsp; &#8226; &nbsp;{i18n(lang, "historyFailed")}</>}
 										&nbsp; &#8226; &nbsp;
 										<ItemTimeSince
 											task={task}
@@ -489,7 +541,7 @@ const Item = memo(({ task, style, userId, platform, paused, isOnline }: ItemProp
 				</Flex>
 			</Flex>
 			<Flex
-				width={typeof task.realtime == "undefined" ? "65px" : "65px"}
+				width={typeof task.realtime == "undefined" ? "85px" : "65px"}
 				justifyContent="flex-end"
 				flexDirection="row"
 			>
@@ -562,6 +614,7 @@ const Item = memo(({ task, style, userId, platform, paused, isOnline }: ItemProp
 									flexDirection="row"
 								>
 									{PUBLIC_LINK_ALLOWED_TYPES.includes(task.type) &&
+										typeof task.err == "undefined" &&
 										typeof task.task.type == "string" &&
 										task.task.type == "file" &&
 										canCreatePublicLink && (
@@ -586,8 +639,42 @@ const Item = memo(({ task, style, userId, platform, paused, isOnline }: ItemProp
 												)}
 											</>
 										)}
+									{OPEN_IN_WEB_ALLOWED_TYPES.includes(task.type) && typeof task.err == "undefined" && (
+										<IoGlobeOutline
+											size={18}
+											color={colors(platform, darkMode, "textPrimary")}
+											cursor="pointer"
+											title={i18n(lang, "openInWeb")}
+											style={{
+												marginRight: "10px"
+											}}
+											onClick={() => {
+												getWebURL(task, userId)
+													.then(url => {
+														if (url === null) {
+															toast({
+																position: "bottom",
+																description: i18n(lang, "openInWebNotFound"),
+																status: "error",
+																duration: 5000,
+																containerStyle: {
+																	fontSize: 13,
+																	padding: 5
+																}
+															})
+
+															return
+														}
+
+														return shell.openExternal(url)
+													})
+													.catch(log.error)
+											}}
+										/>
+									)}
 									<IoSearchOutline
 										size={18}
+										title={i18n(lang, "showInFolder")}
 										color={colors(platform, darkMode, "textPrimary")}
 										cursor="pointer"
 										onClick={() => {
@@ -606,7 +693,7 @@ const Item = memo(({ task, style, userId, platform, paused, isOnline }: ItemProp
 											} else {
 												try {
 													shell.showItemInFolder(
-														pathModule.normalize(pathModule.join(task.location.local, task.task.path))
+														pathModule.normalize(pathModule.join(task.location.local, getTaskPath(task)))
 													)
 												} catch (e) {
 													log.error(e)
@@ -1,4 +1,4 @@
-import { memo, useMemo } from "react"
+import { memo, useMemo, useState, useEffect } from "react"
 import { Flex, Text, Spinner } from "@chakra-ui/react"
 import { getTimeRemaining } from "../../lib/helpers"
 import { AiOutlineCheckCircle, AiOutlinePauseCircle } from "react-icons/ai"
@@ -7,7 +7,8 @@ import { i18n } from "../../lib/i18n"
 import useDb from "../../lib/hooks/useDb"
 import useSyncIssues from "../../lib/hooks/useSyncIssues"
 import { GoIssueReopened } from "react-icons/go"
-import { Location } from "../../../types"
+import { Location, NetworkingSettings } from "../../../types"
+import { getActiveBandwidthRule } from "../../lib/bandwidth"
 
 export interface MainFooterProps {
 	platform: string
@@ -25,6 +26,8 @@ const MainFooter = memo(
 		const paused = useDb("paused", false)
 		const syncIssues = useSyncIssues()
 		const syncLocations: Location[] = useDb("syncLocations:" + userId, [])
+		const networkingSettings: NetworkingSettings = useDb("networkingSettings", { uploadKbps: 0, downloadKbps: 0 })
+		const [now, setNow] = useState<number>(Date.now())
 
 		const [syncIssuesIncludesCritical] = useMemo(() => {
 			const filtered = syncIssues.filter(issue => ["critical", "conflict", "warning"].includes(issue.type))
@@ -39,10 +42,22 @@ const MainFooter = memo(
 			return getTimeRemaining(Date.now() + totalRemaining * 1000)
 		}, [totalRemaining, syncTasksToDo])
 
+		const activeBandwidthRule = useMemo(() => {
+			return getActiveBandwidthRule(networkingSettings, new Date(now))
+		}, [networkingSettings, now])
+
 		const validSyncLocations = useMemo(() => {
 			return syncLocations.filter(location => typeof location.remoteUUID === "string" && location.remoteUUID.length > 0)
 		}, [syncLocations])
 
+		useEffect(() => {
+			const interval = setInterval(() => setNow(Date.now()), 30000)
+
+			return () => {
+				clearInterval(interval)
+			}
+		}, [])
+
 		return (
 			<Flex
 				flexDirection="row"
@@ -181,6 +196,30 @@ const MainFooter = memo(
 								/>
 							) : (
 								<>
+									{activeBandwidthRule && (
+										<Text
+											fontSize={12}
+											color={colors(platform, darkMode, "textSecondary")}
+											marginLeft="5px"
+											noOfLines={1}
+										>
+											{i18n(
+												lang,
+												"bandwidthScheduleActive",
+												false,
+												["__UP__", "__DOWN__", "__END__"],
+												[
+													activeBandwidthRule.uploadKbps > 0
+														? activeBandwidthRule.uploadKbps + " Kbps"
+														: i18n(lang, "unlimited"),
+													activeBandwidthRule.downloadKbps > 0
+														? activeBandwidthRule.downloadKbps + " Kbps"
+														: i18n(lang, "unlimited"),
+													activeBandwidthRule.end
+												]
+											)}
+										</Text>
+									)}
 									{syncTasksToDo > 0 &&
 										(() => {
 											if (remainingReadable.total <= 1 || remainingReadable.minutes <= 1) {
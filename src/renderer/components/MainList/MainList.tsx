@@ -1,6 +1,7 @@
-import { memo, useCallback } from "react"
-import { Flex, Text, Link } from "@chakra-ui/react"
+import React, { memo, useCallback, useState, useMemo } from "react"
+import { Flex, Text, Link, Input, Select } from "@chakra-ui/react"
 import { AiOutlineSync } from "react-icons/ai"
+import { IoFilterOutline } from "react-icons/io5"
 import ipc from "../../lib/ipc"
 import colors from "../../styles/colors"
 import Item from "../Item"
@@ -9,6 +10,9 @@ import { List } from "react-virtualized"
 import { i18n } from "../../lib/i18n"
 import useDb from "../../lib/hooks/useDb"
 import { Location } from "../../../types"
+import { filterActivity, ActivityFilters } from "../../lib/activity"
+
+const pathModule = window.require("path")
 
 export interface MainListProps {
 	userId: number
@@ -20,13 +24,90 @@ export interface MainListProps {
 	isOnline: boolean
 }
 
+const ACTIVITY_TASK_TYPES: { type: string; langKey: string }[] = [
+	{ type: "uploadToRemote", langKey: "syncTaskUploadToRemote" },
+	{ type: "downloadFromRemote", langKey: "syncTaskDownloadFromRemote" },
+	{ type: "renameInRemote", langKey: "syncTaskRenameInRemote" },
+	{ type: "renameInLocal", langKey: "syncTaskRenameInLocal" },
+	{ type: "moveInRemote", langKey: "syncTaskMoveInRemote" },
+	{ type: "moveInLocal", langKey: "syncTaskMoveInLocal" },
+	{ type: "deleteInRemote", langKey: "syncTaskDeleteInRemote" },
+	{ type: "deleteInLocal", langKey: "syncTaskDeleteInLocal" }
+]
+
+const ACTIVITY_TIME_RANGES: { range: number; langKey: string }[] = [
+	{ range: 3600000, langKey: "activityFilterLastHour" },
+	{ range: 86400000, langKey: "activityFilterLast24Hours" },
+	{ range: 604800000, langKey: "activityFilterLast7Days" },
+	{ range: 2592000000, langKey: "activityFilterLast30Days" }
+]
+
+const DEFAULT_ACTIVITY_FILTERS: ActivityFilters = {
+	search: "",
+	locationUUID: "",
+	type: "",
+	status: "",
+	timeRange: 0
+}
+
+const ActivityFilterSelect = memo(
+	({
+		platform,
+		darkMode,
+		value,
+		onChange,
+		children
+	}: {
+		platform: string
+		darkMode: boolean
+		value: string | number
+		onChange: (value: string) => void
+		children: React.ReactNode
+	}) => {
+		return (
+			<Select
+				value={value}
+				color={colors(platform, darkMode, "textPrimary")}
+				fontSize={11}
+				height="24px"
+				paddingLeft="0px"
+				borderColor={colors(platform, darkMode, "borderPrimary")}
+				_focus={{ outline: "none" }}
+				outline="none"
+				_active={{ outline: "none" }}
+				onChange={(e: any) => onChange(e.nativeEvent.target.value)}
+			>
+				{children}
+			</Select>
+		)
+	}
+)
+
 const MainList = memo(({ userId, platform, darkMode, lang, activity, isOnline }: MainListProps) => {
 	const syncLocations: Location[] = useDb("syncLocations:" + userId, [])
 	const paused: boolean = useDb("paused", false)
+	const [filters, setFilters] = useState<ActivityFilters>(DEFAULT_ACTIVITY_FILTERS)
+	const [showFilters, setShowFilters] = useState<boolean>(false)
+
+	const filteredActivity = useMemo(() => {
+		return filterActivity(activity, filters)
+	}, [activity, filters])
+
+	const filtersActive: boolean = useMemo(() => {
+		return filters.locationUUID.length > 0 || filters.type.length > 0 || filters.status.length > 0 || filters.timeRange > 0
+	}, [filters])
+
+	const listHeight: number = showFilters ? 450 - 40 - 34 : 450 - 40
+
+	const optionStyle = {
+		backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+		height: "30px",
+		borderRadius: "10px"
+	}
 
 	const rowRenderer = useCallback(
 		({ index, key, style }: { index: number; key: string; style: any }) => {
-			const task = activity[index]
+			const task = filteredActivity[index]
 
 			return (
 				<Item
@@ -42,7 +123,7 @@ const MainList = memo(({ userId, platform, darkMode, lang, activity, isOnline }:
 				/>
 			)
 		},
-		[activity]
+		[filteredActivity]
 	)
 
 	return (
@@ -55,22 +136,169 @@ const MainList = memo(({ userId, platform, darkMode, lang, activity, isOnline }:
 					flexDirection="column"
 					borderBottom={"1px solid " + colors(platform, darkMode, "borderPrimary")}
 				>
-					{activity.length > 0 ? (
+					<Flex
+						height="40px"
+						paddingLeft="10px"
+						paddingRight="10px"
+						alignItems="center"
+						flexDirection="row"
+						gap="10px"
+					>
+						<Input
+							value={filters.search}
+							placeholder={i18n(lang, "activitySearchPlaceholder")}
+							onChange={(e: any) => setFilters(prev => ({ ...prev, search: e.target.value }))}
+							color={colors(platform, darkMode, "textPrimary")}
+							fontSize={12}
+							height="26px"
+							borderColor={colors(platform, darkMode, "borderPrimary")}
+							_focus={{ outline: "none" }}
+							outline="none"
+							_active={{ outline: "none" }}
+						/>
+						<Flex
+							flexShrink={0}
+							cursor="pointer"
+							onClick={() => {
+								if (showFilters) {
+									setFilters(prev => ({ ...DEFAULT_ACTIVITY_FILTERS, search: prev.search }))
+								}
+
+								setShowFilters(!showFilters)
+							}}
+						>
+							<IoFilterOutline
+								size={18}
+								title={i18n(lang, "activityFilters")}
+								color={filtersActive ? colors(platform, darkMode, "link") : colors(platform, darkMode, "textPrimary")}
+							/>
+						</Flex>
+					</Flex>
+					{showFilters && (
+						<Flex
+							height="34px"
+							paddingLeft="10px"
+							paddingRight="10px"
+							paddingBottom="8px"
+							alignItems="center"
+							flexDirection="row"
+							gap="5px"
+						>
+							<ActivityFilterSelect
+								platform={platform}
+								darkMode={darkMode}
+								value={filters.locationUUID}
+								onChange={value => setFilters(prev => ({ ...prev, locationUUID: value }))}
+							>
+								<option
+									value=""
+									style={optionStyle}
+								>
+									{i18n(lang, "historyAllLocations")}
+								</option>
+								{syncLocations.map(location => (
+									<option
+										key={location.uuid}
+										value={location.uuid}
+										style={optionStyle}
+									>
+										{pathModule.basename(location.local)}
+									</option>
+								))}
+							</ActivityFilterSelect>
+							<ActivityFilterSelect
+								platform={platform}
+								darkMode={darkMode}
+								value={filters.type}
+								onChange={value => setFilters(prev => ({ ...prev, type: value }))}
+							>
+								<option
+									value=""
+									style={optionStyle}
+								>
+									{i18n(lang, "activityFilterAllTypes")}
+								</option>
+								{ACTIVITY_TASK_TYPES.map(({ type, langKey }) => (
+									<option
+										key={type}
+										value={type}
+										style={optionStyle}
+									>
+										{i18n(lang, langKey)}
+									</option>
+								))}
+							</ActivityFilterSelect>
+							<ActivityFilterSelect
+								platform={platform}
+								darkMode={darkMode}
+								value={filters.status}
+								onChange={value => setFilters(prev => ({ ...prev, status: value as ActivityFilters["status"] }))}
+							>
+								<option
+									value=""
+									style={optionStyle}
+								>
+									{i18n(lang, "activityFilterAllStatuses")}
+								</option>
+								<option
+									value="running"
+									style={optionStyle}
+								>
+									{i18n(lang, "activityFilterRunning")}
+								</option>
+								<option
+									value="done"
+									style={optionStyle}
+								>
+									{i18n(lang, "activityFilterDone")}
+								</option>
+								<option
+									value="err"
+									style={optionStyle}
+								>
+									{i18n(lang, "historyFailed")}
+								</option>
+							</ActivityFilterSelect>
+							<ActivityFilterSelect
+								platform={platform}
+								darkMode={darkMode}
+								value={filters.timeRange}
+								onChange={value => setFilters(prev => ({ ...prev, timeRange: parseInt(value) || 0 }))}
+							>
+								<option
+									value={0}
+									style={optionStyle}
+								>
+									{i18n(lang, "activityFilterAnyTime")}
+								</option>
+								{ACTIVITY_TIME_RANGES.map(({ range, langKey }) => (
+									<option
+										key={range}
+										value={range}
+										style={optionStyle}
+									>
+										{i18n(lang, langKey)}
+									</option>
+								))}
+							</ActivityFilterSelect>
+						</Flex>
+					)}
+					{filteredActivity.length > 0 ? (
 						<List
-							height={450}
+							height={listHeight}
 							width={window.innerWidth - 2}
 							noRowsRenderer={() => <></>}
 							overscanRowCount={8}
-							rowCount={activity.length}
+							rowCount={filteredActivity.length}
 							rowHeight={47}
-							estimatedRowSize={activity.length * 47}
+							estimatedRowSize={filteredActivity.length * 47}
 							rowRenderer={rowRenderer}
 						/>
 					) : (
 						<Flex
 							justifyContent="center"
 							alignItems="center"
-							height="100%"
+							height={listHeight + "px"}
 							width="100%"
 							flexDirection="column"
 						>
@@ -85,7 +313,7 @@ const MainList = memo(({ userId, platform, darkMode, lang, activity, isOnline }:
 									color={darkMode ? "gray" : "gray"}
 									fontSize={12}
 								>
-									{i18n(lang, "noSyncActivityYet")}
+									{i18n(lang, activity.length > 0 ? "noActivityMatchesFilters" : "noSyncActivityYet")}
 								</Text>
 							</Flex>
 						</Flex>
@@ -0,0 +1,67 @@
+import { filterActivity, ActivityFilters } from "./activity"
+
+const noFilters: ActivityFilters = {
+	search: "",
+	locationUUID: "",
+	type: "",
+	status: "",
+	timeRange: 0
+}
+
+const now = Date.now()
+
+const running = {
+	type: "uploadToRemote",
+	location: { uuid: "a" },
+	task: { path: "docs/Report.pdf" },
+	realtime: true,
+	timestamp: now
+}
+
+const done = {
+	type: "moveInLocal",
+	location: { uuid: "b" },
+	task: { path: "photos/new", from: "photos/old", to: "photos/new" },
+	done: true,
+	timestamp: now - 3600000
+}
+
+const failed = {
+	type: "uploadToRemote",
+	location: { uuid: "b" },
+	task: { path: "notes.txt" },
+	done: true,
+	err: new Error("failed"),
+	timestamp: now - 86400000 * 2
+}
+
+const activity = [running, done, failed]
+
+describe("filterActivity", () => {
+	it("keeps everything without filters", () => {
+		expect(filterActivity(activity, noFilters)).toEqual(activity)
+	})
+
+	it("filters by location and type", () => {
+		expect(filterActivity(activity, { ...noFilters, locationUUID: "b" })).toEqual([done, failed])
+		expect(filterActivity(activity, { ...noFilters, type: "uploadToRemote" })).toEqual([running, failed])
+		expect(filterActivity([{ ...running, location: undefined }], { ...noFilters, locationUUID: "a" })).toEqual([])
+	})
+
+	it("tells running, done and failed tasks apart", () => {
+		expect(filterActivity(activity, { ...noFilters, status: "running" })).toEqual([running])
+		expect(filterActivity(activity, { ...noFilters, status: "done" })).toEqual([done])
+		expect(filterActivity(activity, { ...noFilters, status: "err" })).toEqual([failed])
+	})
+
+	it("drops tasks older than the time range", () => {
+		expect(filterActivity(activity, { ...noFilters, timeRange: 86400000 })).toEqual([running, done])
+		expect(filterActivity([{ ...running, timestamp: undefined }], { ...noFilters, timeRange: 86400000 })).toEqual([])
+	})
+
+	it("searches the path and both sides of a move, case insensitive", () => {
+		expect(filterActivity(activity, { ...noFilters, search: " report " })).toEqual([running])
+		expect(filterActivity(activity, { ...noFilters, search: "OLD" })).toEqual([done])
+		expect(filterActivity(activity, { ...noFilters, search: "missing" })).toEqual([])
+	})
+})
@@ -0,0 +1,47 @@
+export interface ActivityFilters {
+	search: string
+	locationUUID: string
+	type: string
+	status: "" | "running" | "done" | "err"
+	timeRange: number
+}
+
+// The activity list mixes running transfers (realtime), running moves, renames and deletes (running), done tasks (done) and failed tasks (err)
+export const filterActivity = (activity: any[], filters: ActivityFilters): any[] => {
+	const search = filters.search.trim().toLowerCase()
+	const now = Date.now()
+
+	return activity.filter(task => {
+		if (filters.locationUUID.length > 0 && (!task.location || task.location.uuid !== filters.locationUUID)) {
+			return false
+		}
+
+		if (filters.type.length > 0 && task.type !== filters.type) {
+			return false
+		}
+
+		if (filters.status == "running" && typeof task.realtime == "undefined" && typeof task.running == "undefined") {
+			return false
+		}
+
+		if (filters.status == "done" && (typeof task.done == "undefined" || typeof task.err !== "undefined")) {
+			return false
+		}
+
+		if (filters.status == "err" && typeof task.err == "undefined") {
+			return false
+		}
+
+		if (filters.timeRange > 0 && (typeof task.timestamp !== "number" || task.timestamp < now - filters.timeRange)) {
+			return false
+		}
+
+		if (search.length > 0) {
+			return [task.task.path, task.task.from, task.task.to].some(
+				path => typeof path == "string" && path.toLowerCase().indexOf(search) !== -1
+			)
+		}
+
+		return true
+	})
+}
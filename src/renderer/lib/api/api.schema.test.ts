@@ -0,0 +1,73 @@
+import { validateAPIResponse } from "./api.schema"
+
+describe("validateAPIResponse", () => {
+	it("returns valid responses unchanged, extra fields included", () => {
+		const response = {
+			status: true,
+			message: "OK",
+			data: {
+				authVersion: 2,
+				salt: "abc",
+				addedLater: true
+			}
+		}
+
+		expect(validateAPIResponse("/v3/auth/info", response)).toBe(response)
+	})
+
+	it("names the endpoint and the offending field", () => {
+		expect(() =>
+			validateAPIResponse("/v3/auth/info", {
+				status: true,
+				data: {
+					authVersion: "2",
+					salt: "abc"
+				}
+			})
+		).toThrow("Invalid response from /v3/auth/info: response.data.authVersion expected number, got string")
+	})
+
+	it("validates nested arrays and tuples", () => {
+		const file = ["uuid", "bucket", "region", 1, "parent", "metadata", "1", 2]
+
+		expect(() =>
+			validateAPIResponse("/v3/dir/tree", {
+				status: true,
+				data: {
+					folders: [["uuid", "name", "parent"]],
+					files: [file]
+				}
+			})
+		).not.toThrow()
+
+		expect(() =>
+			validateAPIResponse("/v3/dir/tree", {
+				status: true,
+				data: {
+					folders: [["uuid", "name"]],
+					files: []
+				}
+			})
+		).toThrow("Invalid response from /v3/dir/tree")
+	})
+
+	it("skips the data of failed requests", () => {
+		const response = {
+			status: false,
+			message: "Invalid API key",
+			code: "api_key_not_found"
+		}
+
+		expect(validateAPIResponse("/v3/user/info", response)).toBe(response)
+	})
+
+	it("rejects malformed envelopes", () => {
+		expect(() => validateAPIResponse("/v3/login", null)).toThrow("Invalid response from /v3/login: response expected object, got null")
+		expect(() => validateAPIResponse("/v3/login", { status: "true" })).toThrow(
+			"Invalid response from /v3/login: response.status expected boolean, got string"
+		)
+		expect(() => validateAPIResponse("/v3/login", { status: true, data: [] })).toThrow(
+			"Invalid response from /v3/login: response.data expected object, got array"
+		)
+	})
+})
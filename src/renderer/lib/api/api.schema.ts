@@ -0,0 +1,463 @@
+// Request and response definitions for the /v3 gateway endpoints the client uses.
+// Responses are validated at runtime, but only the fields the client actually reads, so additions on the server side don't break anything.
+
+export type Validator<T> = (value: unknown, path: string) => T
+
+const describe = (value: unknown): string => {
+	if (value === null) {
+		return "null"
+	}
+
+	if (Array.isArray(value)) {
+		return "array"
+	}
+
+	return typeof value
+}
+
+const mismatch = (path: string, expected: string, value: unknown): Error => {
+	return new Error(path + " expected " + expected + ", got " + describe(value))
+}
+
+export const v = {
+	string: (): Validator<string> => (value, path) => {
+		if (typeof value !== "string") {
+			throw mismatch(path, "string", value)
+		}
+
+		return value
+	},
+	number: (): Validator<number> => (value, path) => {
+		if (typeof value !== "number" || isNaN(value)) {
+			throw mismatch(path, "number", value)
+		}
+
+		return value
+	},
+	// Flags are sent as booleans or as 0/1 depending on the endpoint
+	flag: (): Validator<boolean | number> => (value, path) => {
+		if (typeof value !== "boolean" && value !== 0 && value !== 1) {
+			throw mismatch(path, "boolean or 0/1", value)
+		}
+
+		return value
+	},
+	numeric: (): Validator<number | string> => (value, path) => {
+		if (typeof value == "number" || (typeof value == "string" && value.trim().length > 0 && !isNaN(Number(value)))) {
+			return value
+		}
+
+		throw mismatch(path, "number or numeric string", value)
+	},
+	optional:
+		<T>(validator: Validator<T>): Validator<T | undefined> =>
+		(value, path) => {
+			if (typeof value == "undefined" || value === null) {
+				return undefined
+			}
+
+			return validator(value, path)
+		},
+	array:
+		<T>(validator: Validator<T>): Validator<T[]> =>
+		(value, path) => {
+			if (!Array.isArray(value)) {
+				throw mismatch(path, "array", value)
+			}
+
+			for (let i = 0; i < value.length; i++) {
+				validator(value[i], path + "[" + i + "]")
+			}
+
+			return value as T[]
+		},
+	tuple:
+		<T extends unknown[]>(validators: { [K in keyof T]: Validator<T[K]> }): Validator<T> =>
+		(value, path) => {
+			if (!Array.isArray(value) || value.length < validators.length) {
+				throw mismatch(path, "array with " + validators.length + " entries", value)
+			}
+
+			for (let i = 0; i < validators.length; i++) {
+				const validator = validators[i] as Validator<unknown>
+
+				validator(value[i], path + "[" + i + "]")
+			}
+
+			return value as T
+		},
+	object:
+		<T extends object>(shape: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> =>
+		(value, path) => {
+			if (typeof value !== "object" || value === null || Array.isArray(value)) {
+				throw mismatch(path, "object", value)
+			}
+
+			for (const key in shape) {
+				shape[key]((value as any)[key], path + "." + key)
+			}
+
+			return value as T
+		},
+	record: (): Validator<Record<string, any>> => (value, path) => {
+		if (typeof value !== "object" || value === null || Array.isArray(value)) {
+			throw mismatch(path, "object", value)
+		}
+
+		return value as Record<string, any>
+	},
+	// For payloads the client never reads
+	unchecked:
+		<T>(): Validator<T> =>
+		value =>
+			value as T
+}
+
+export type DirTreeFolder = [uuid: string, metadata: string, parent: string]
+
+export type DirTreeFile = [
+	uuid: string,
+	bucket: string,
+	region: string,
+	chunks: number | string,
+	parent: string,
+	metadata: string,
+	version: number | string,
+	timestamp: number | string
+]
+
+export interface DirContentFolder {
+	uuid: string
+	name: string
+	parent: string
+	[key: string]: any
+}
+
+export interface DirContentFile {
+	uuid: string
+	metadata: string
+	[key: string]: any
+}
+
+export interface DirDownloadFolder {
+	uuid: string
+	name: string
+	parent: string
+}
+
+export interface DirDownloadFile {
+	uuid: string
+	bucket: string
+	region: string
+	chunks: number
+	parent: string
+	metadata: string
+	version: number
+	timestamp: number
+}
+
+export interface ItemPresent {
+	present: boolean | number
+	trash: boolean | number
+	versioned?: boolean | number
+}
+
+export interface ItemExists {
+	exists: boolean | number
+	uuid?: string
+}
+
+export interface PublicLink {
+	linkUUID: string
+	linkKey: string
+}
+
+export interface DirDownloadResponse {
+	folders: DirDownloadFolder[]
+	files: DirDownloadFile[]
+}
+
+export interface APIEndpoints {
+	"/v3/auth/info": { request: { email: string }; response: { authVersion: number; salt: string } }
+	"/v3/login": {
+		request: { email: string; password: string; twoFactorCode: string | number; authVersion: number }
+		response: { apiKey: string }
+	}
+	"/v3/user/info": {
+		request: undefined
+		response: { id: number; email: string; isPremium: number; maxStorage: number; storageUsed: number; avatarURL: string }
+	}
+	"/v3/user/baseFolder": { request: undefined; response: { uuid: string } }
+	"/v3/user/keyPair/update": { request: { publicKey: string; privateKey: string }; response: unknown }
+	"/v3/user/keyPair/set": { request: { publicKey: string; privateKey: string }; response: unknown }
+	"/v3/user/keyPair/info": { request: undefined; response: { publicKey: string; privateKey: string } }
+	"/v3/user/masterKeys": { request: { masterKeys: string }; response: { keys: string } }
+	"/v3/dir/content": { request: { uuid: string }; response: { folders: DirContentFolder[]; uploads: DirContentFile[] } }
+	"/v3/dir/present": { request: { uuid: string }; response: ItemPresent }
+	"/v3/file/present": { request: { uuid: string }; response: ItemPresent }
+	"/v3/dir/tree": {
+		request: { uuid: string; deviceId: string; skipCache: number }
+		response: { folders: DirTreeFolder[]; files: DirTreeFile[] }
+	}
+	// Only read when the request failed because the folder exists already
+	"/v3/dir/create": {
+		request: { uuid: string; name: string; nameHashed: string; parent: string }
+		response: { existsUUID?: string } | undefined
+	}
+	"/v3/file/exists": { request: { parent: string; nameHashed: string }; response: ItemExists }
+	"/v3/dir/exists": { request: { parent: string; nameHashed: string }; response: ItemExists }
+	"/v3/dir/shared": {
+		request: { uuid: string }
+		response: { sharing: boolean | number; users: { email: string; publicKey: string }[] }
+	}
+	"/v3/dir/linked": { request: { uuid: string }; response: { link: boolean | number; links: PublicLink[] } }
+	"/v3/dir/link/add": {
+		request: { uuid: string; parent: string; linkUUID: string; type: string; metadata: string; key: string; expiration: string }
+		response: unknown
+	}
+	"/v3/item/share": { request: { uuid: string; parent: string; email: string; type: string; metadata: string }; response: unknown }
+	"/v3/item/shared": {
+		request: { uuid: string }
+		response: { sharing: boolean | number; users: { id: number; publicKey: string }[] }
+	}
+	"/v3/item/linked": { request: { uuid: string }; response: { link: boolean | number; links: PublicLink[] } }
+	"/v3/item/linked/rename": { request: { uuid: string; linkUUID: string; metadata: string }; response: unknown }
+	"/v3/item/shared/rename": { request: { uuid: string; receiverId: number; metadata: string }; response: unknown }
+	"/v3/dir/download": { request: { uuid: string }; response: DirDownloadResponse }
+	"/v3/dir/download/shared": { request: { uuid: string }; response: DirDownloadResponse }
+	"/v3/dir/download/link": { request: { uuid: string; parent: string; password: string }; response: DirDownloadResponse }
+	"/v3/upload/done": {
+		request: {
+			uuid: string
+			name: string
+			nameHashed: string
+			size: string
+			chunks: number
+			mime: string
+			version: number
+			metadata: string
+			uploadKey: string
+		}
+		response: { chunks: number; size: number }
+	}
+	"/v3/upload/empty": {
+		request: {
+			uuid: string
+			name: string
+			nameHashed: string
+			size: string
+			parent: string
+			mime: string
+			metadata: string
+			version: number
+		}
+		response: { chunks: number; size: number }
+	}
+	"/v3/dir/trash": { request: { uuid: string }; response: unknown }
+	"/v3/file/trash": { request: { uuid: string }; response: unknown }
+	"/v3/file/move": { request: { uuid: string; to: string }; response: unknown }
+	"/v3/dir/move": { request: { uuid: string; to: string }; response: unknown }
+	"/v3/file/rename": { request: { uuid: string; name: string; nameHashed: string; metadata: string }; response: unknown }
+	"/v3/dir/rename": { request: { uuid: string; name: string; nameHashed: string }; response: unknown }
+	"/v3/file/link/status": { request: { uuid: string }; response: Record<string, any> }
+	"/v3/dir/link/status": { request: { uuid: string }; response: Record<string, any> }
+	"/v3/file/link/edit": {
+		request: {
+			uuid: string
+			fileUUID: string
+			expiration: string
+			password: string
+			passwordHashed: string
+			salt: string
+			downloadBtn: boolean
+			type: "enable" | "disable"
+		}
+		response: unknown
+	}
+	"/v3/dir/link/remove": { request: { uuid: string }; response: unknown }
+	"/v3/file": { request: { uuid: string }; response: { metadata: string } }
+}
+
+export type APIEndpoint = keyof APIEndpoints
+export type APIRequest<E extends APIEndpoint> = APIEndpoints[E]["request"]
+export type APIResponse<E extends APIEndpoint> = APIEndpoints[E]["response"]
+
+export interface APIEnvelope<E extends APIEndpoint> {
+	status: boolean
+	message: string
+	code: string
+	data: APIResponse<E>
+}
+
+const itemPresent = v.object<ItemPresent>({
+	present: v.flag(),
+	trash: v.flag(),
+	versioned: v.optional(v.flag())
+})
+
+const itemExists = v.object<ItemExists>({
+	exists: v.flag(),
+	uuid: v.optional(v.string())
+})
+
+const publicLinks = v.object<{ link: boolean | number; links: PublicLink[] }>({
+	link: v.flag(),
+	links: v.array(
+		v.object<PublicLink>({
+			linkUUID: v.string(),
+			linkKey: v.string()
+		})
+	)
+})
+
+const dirDownload = v.object<DirDownloadResponse>({
+	folders: v.array(
+		v.object<DirDownloadFolder>({
+			uuid: v.string(),
+			name: v.string(),
+			parent: v.string()
+		})
+	),
+	files: v.array(
+		v.object<DirDownloadFile>({
+			uuid: v.string(),
+			bucket: v.string(),
+			region: v.string(),
+			chunks: v.number(),
+			parent: v.string(),
+			metadata: v.string(),
+			version: v.number(),
+			timestamp: v.number()
+		})
+	)
+})
+
+const uploadDone = v.object<{ chunks: number; size: number }>({
+	chunks: v.number(),
+	size: v.number()
+})
+
+export const apiResponseSchemas: { [E in APIEndpoint]: Validator<APIResponse<E>> } = {
+	"/v3/auth/info": v.object({
+		authVersion: v.number(),
+		salt: v.string()
+	}),
+	"/v3/login": v.object({
+		apiKey: v.string()
+	}),
+	"/v3/user/info": v.object<APIResponse<"/v3/user/info">>({
+		id: v.number(),
+		email: v.string(),
+		isPremium: v.unchecked(),
+		maxStorage: v.number(),
+		storageUsed: v.number(),
+		avatarURL: v.unchecked()
+	}),
+	"/v3/user/baseFolder": v.object({
+		uuid: v.string()
+	}),
+	"/v3/user/keyPair/update": v.unchecked(),
+	"/v3/user/keyPair/set": v.unchecked(),
+	"/v3/user/keyPair/info": v.object({
+		publicKey: v.string(),
+		privateKey: v.string()
+	}),
+	"/v3/user/masterKeys": v.object({
+		keys: v.string()
+	}),
+	"/v3/dir/content": v.object({
+		folders: v.array(
+			v.object<DirContentFolder>({
+				uuid: v.string(),
+				name: v.string(),
+				parent: v.string()
+			})
+		),
+		uploads: v.array(
+			v.object<DirContentFile>({
+				uuid: v.string(),
+				metadata: v.string()
+			})
+		)
+	}),
+	"/v3/dir/present": itemPresent,
+	"/v3/file/present": itemPresent,
+	"/v3/dir/tree": v.object({
+		folders: v.array(v.tuple<DirTreeFolder>([v.string(), v.string(), v.string()])),
+		files: v.array(
+			v.tuple<DirTreeFile>([v.string(), v.string(), v.string(), v.numeric(), v.string(), v.string(), v.numeric(), v.numeric()])
+		)
+	}),
+	"/v3/dir/create": v.unchecked(),
+	"/v3/file/exists": itemExists,
+	"/v3/dir/exists": itemExists,
+	"/v3/dir/shared": v.object({
+		sharing: v.flag(),
+		users: v.array(
+			v.object({
+				email: v.string(),
+				publicKey: v.string()
+			})
+		)
+	}),
+	"/v3/dir/linked": publicLinks,
+	"/v3/dir/link/add": v.unchecked(),
+	"/v3/item/share": v.unchecked(),
+	"/v3/item/shared": v.object({
+		sharing: v.flag(),
+		users: v.array(
+			v.object({
+				id: v.number(),
+				publicKey: v.string()
+			})
+		)
+	}),
+	"/v3/item/linked": publicLinks,
+	"/v3/item/linked/rename": v.unchecked(),
+	"/v3/item/shared/rename": v.unchecked(),
+	"/v3/dir/download": dirDownload,
+	"/v3/dir/download/shared": dirDownload,
+	"/v3/dir/download/link": dirDownload,
+	"/v3/upload/done": uploadDone,
+	"/v3/upload/empty": uploadDone,
+	"/v3/dir/trash": v.unchecked(),
+	"/v3/file/trash": v.unchecked(),
+	"/v3/file/move": v.unchecked(),
+	"/v3/dir/move": v.unchecked(),
+	"/v3/file/rename": v.unchecked(),
+	"/v3/dir/rename": v.unchecked(),
+	"/v3/file/link/status": v.record(),
+	"/v3/dir/link/status": v.record(),
+	"/v3/file/link/edit": v.unchecked(),
+	"/v3/dir/link/remove": v.unchecked(),
+	"/v3/file": v.object({
+		metadata: v.string()
+	})
+}
+
+const envelope = v.object<{ status: boolean; message?: string; code?: string }>({
+	status: v.unchecked(),
+	message: v.optional(v.string()),
+	code: v.optional(v.string())
+})
+
+// Throws an error naming the endpoint and the offending field, instead of letting a TypeError surface somewhere down the line
+export const validateAPIResponse = <E extends APIEndpoint>(endpoint: E, response: unknown): APIEnvelope<E> => {
+	try {
+		const validated = envelope(response, "response")
+
+		if (typeof validated.status !== "boolean") {
+			throw mismatch("response.status", "boolean", validated.status)
+		}
+
+		if (validated.status) {
+			const validator = apiResponseSchemas[endpoint] as Validator<unknown>
+
+			validator((response as any).data, "response.data")
+		}
+	} catch (e: any) {
+		throw new Error("Invalid response from " + endpoint + ": " + e.message)
+	}
+
+	return response as APIEnvelope<E>
+}
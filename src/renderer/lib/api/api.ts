@@ -20,16 +20,41 @@ import db from "../db"
 import { sendToAllPorts } from "../worker/ipc"
 import { logout } from "../../windows/settings/account"
 import striptags from "striptags"
-import { isSyncLocationPaused } from "../worker/sync/sync.utils"
+import { isSyncLocationPaused, isTransferPolicyPaused } from "../worker/sync/sync.utils"
 import { v4 as uuidv4 } from "uuid"
 import packageJSON from "../../../../package.json"
-import { RemoteFileMetadata } from "../../../types"
+import { getEffectiveBandwidth, getNextBandwidthBoundary } from "../bandwidth"
+import eventListener from "../eventListener"
+import { APIEndpoint, APIRequest, APIResponse, APIEnvelope, validateAPIResponse } from "./api.schema"
+import {
+	isRetryableStatus,
+	parseRetryAfter,
+	getRetryDelay,
+	recordAPIFailure,
+	recordAPISuccess,
+	acquireAPIRequest,
+	releaseAPIProbe
+} from "../retry"
+import {
+	RemoteFileMetadata,
+	Endpoint,
+	EndpointType,
+	EndpointProfile,
+	ProxySettings,
+	NetworkingSettings,
+	TransferPolicy
+} from "../../../types"
+import ipc from "../ipc"
 
 const https = window.require("https")
+const http = window.require("http")
+const fs = window.require("fs-extra")
 const log = window.require("electron-log")
 const { ThrottleGroup } = window.require("speed-limiter")
-const { Readable } = window.require("stream")
+const { Readable, PassThrough } = window.require("stream")
 const progress = window.require("progress-stream")
+const { HttpsProxyAgent } = window.require("https-proxy-agent")
+const { SocksProxyAgent } = window.require("socks-proxy-agent")
 
 export const createFolderSemaphore = new Semaphore(1)
 export const throttleGroupUpload = new ThrottleGroup({
@@ -39,6 +64,89 @@ export const throttleGroupDownload = new ThrottleGroup({
 	rate: 1024 * 1024 * 1024
 })
 
+const UNLIMITED_BPS = 122070 * 1024
+let BANDWIDTH_SCHEDULE_TIMEOUT: NodeJS.Timeout
+
+const kbpsToBps = (kbps: number): number => {
+	return kbps > 0 ? Math.floor(kbps * 1024) : UNLIMITED_BPS
+}
+
+// Re-rates the sync throttle groups whenever a schedule rule starts or ends, so running transfers pick up the new limit right away
+export const applyBandwidthSchedule = async (): Promise<void> => {
+	const [networkingSettings, transferPolicy]: [NetworkingSettings | null, TransferPolicy | null] = await Promise.all([
+		db.get("networkingSettings"),
+		db.get("transferPolicy")
+	])
+	const { uploadKbps, downloadKbps } = getEffectiveBandwidth(networkingSettings, new Date(), transferPolicy)
+
+	throttleGroupUpload.setRate(kbpsToBps(uploadKbps))
+	throttleGroupDownload.setRate(kbpsToBps(downloadKbps))
+
+	clearTimeout(BANDWIDTH_SCHEDULE_TIMEOUT)
+
+	const nextBoundary = getNextBandwidthBoundary(networkingSettings)
+
+	if (nextBoundary !== null) {
+		BANDWIDTH_SCHEDULE_TIMEOUT = setTimeout(() => {
+			applyBandwidthSchedule().catch(log.error)
+		}, Math.min(nextBoundary + 1000, 3600000))
+	}
+}
+
+const locationThrottleGroups: Record<string, any> = {}
+
+// Sync transfers of a location with its own cap additionally run through a throttle group of that location
+const createLocationThrottle = (direction: "upload" | "download", from: string, location: any): any => {
+	if (from !== "sync" || typeof location !== "object" || location === null || typeof location.uuid !== "string") {
+		return new PassThrough()
+	}
+
+	const kbps = direction == "upload" ? location.uploadKbps : location.downloadKbps
+
+	if (typeof kbps !== "number" || kbps <= 0) {
+		return new PassThrough()
+	}
+
+	const key = direction + ":" + location.uuid
+
+	if (typeof locationThrottleGroups[key] == "undefined") {
+		locationThrottleGroups[key] = new ThrottleGroup({
+			rate: kbpsToBps(kbps)
+		})
+	}
+
+	locationThrottleGroups[key].setRate(kbpsToBps(kbps))
+
+	return locationThrottleGroups[key].throttle()
+}
+
+let bandwidthScheduleListener: { remove: () => void } | null = null
+
+// Safe to call again, the previous settings listener is replaced instead of stacking up
+export const initBandwidthSchedule = (): (() => void) => {
+	applyBandwidthSchedule().catch(log.error)
+
+	if (bandwidthScheduleListener !== null) {
+		bandwidthScheduleListener.remove()
+	}
+
+	const listener = eventListener.on("dbSet", ({ key }: { key: string }) => {
+		if (key == "networkingSettings" || key == "transferPolicy") {
+			applyBandwidthSchedule().catch(log.error)
+		}
+	})
+
+	bandwidthScheduleListener = listener
+
+	return () => {
+		listener.remove()
+
+		if (bandwidthScheduleListener === listener) {
+			bandwidthScheduleListener = null
+		}
+	}
+}
+
 const httpsAPIAgent = new https.Agent({
 	keepAlive: true,
 	maxSockets: constants.maxConcurrentAPIRequest,
@@ -57,6 +165,10 @@ const httpsDownloadAgent = new https.Agent({
 	timeout: 3600000
 })
 
+const endpointAgents: Record<string, any> = {}
+const systemProxyCache: Record<string, { proxy: string | null; expires: number }> = {}
+const caBundles: Record<string, any> = {}
+
 const textEncoder = new TextEncoder()
 
 export const getAPIServer = () => {
@@ -71,6 +183,214 @@ export const getDownloadServer = () => {
 	return constants.downloadServers[getRandomArbitrary(0, constants.downloadServers.length - 1)]
 }
 
+export const getEndpoint = async (type: EndpointType): Promise<{ endpoint: Endpoint; ca: string }> => {
+	const endpoint: Endpoint = {
+		scheme: "https",
+		host: type == "api" ? getAPIServer() : type == "upload" ? getUploadServer() : getDownloadServer(),
+		port: 443
+	}
+
+	const profile: EndpointProfile | null = await db.get("endpointProfile")
+
+	if (profile === null || typeof profile !== "object") {
+		return {
+			endpoint,
+			ca: ""
+		}
+	}
+
+	const custom = profile[type]
+
+	// The CA bundle only applies to the self-hosted endpoints, the Filen servers keep the default trust store
+	if (typeof custom !== "object" || custom === null || typeof custom.host !== "string" || custom.host.length == 0) {
+		return {
+			endpoint,
+			ca: ""
+		}
+	}
+
+	endpoint.scheme = custom.scheme == "http" ? "http" : "https"
+	endpoint.host = custom.host
+	endpoint.port =
+		typeof custom.port == "number" && custom.port > 0 && custom.port <= 65535 ? custom.port : endpoint.scheme == "http" ? 80 : 443
+
+	return {
+		endpoint,
+		ca: typeof profile.ca == "string" ? profile.ca.trim() : ""
+	}
+}
+
+// Loopback traffic never goes through a proxy, whatever the settings say
+export const isLoopbackHost = (host: string): boolean => {
+	const hostLower = host.toLowerCase().replace(/^\[(.*)\]$/, "$1")
+
+	return (
+		hostLower == "localhost" ||
+		hostLower.endsWith(".localhost") ||
+		hostLower == "::1" ||
+		/^127\.\d{1,3}\.\d{1,3}\.\d{1,3}$/.test(hostLower)
+	)
+}
+
+// Matches exact hosts, "*.example.com" / ".example.com" suffixes, "<local>" for plain hostnames without a dot and "*"
+export const isProxyBypassed = (host: string, bypass: string[]): boolean => {
+	const hostLower = host.toLowerCase()
+
+	if (isLoopbackHost(hostLower)) {
+		return true
+	}
+
+	for (const entry of bypass) {
+		const rule = entry.trim().toLowerCase()
+
+		if (rule.length == 0) {
+			continue
+		}
+
+		if (rule == "*" || rule == hostLower) {
+			return true
+		}
+
+		if (rule == "<local>" && !hostLower.includes(".") && !hostLower.includes(":")) {
+			return true
+		}
+
+		const suffix = rule.startsWith("*.") ? rule.slice(1) : rule.startsWith(".") ? rule : ""
+
+		if (suffix.length > 0 && (hostLower.endsWith(suffix) || hostLower == suffix.slice(1))) {
+			return true
+		}
+	}
+
+	return false
+}
+
+// Converts the first entry of a PAC style result ("PROXY host:port; DIRECT") to a proxy URL
+const pacResultToProxyURL = (result: string): string | null => {
+	const [type, hostPort] = result.split(";")[0].trim().split(/\s+/)
+
+	if (typeof hostPort !== "string" || hostPort.length == 0) {
+		return null
+	}
+
+	switch (type.toUpperCase()) {
+		case "PROXY":
+			return "http://" + hostPort
+		case "HTTPS":
+			return "https://" + hostPort
+		case "SOCKS":
+		case "SOCKS5":
+			return "socks5://" + hostPort
+		default:
+			return null
+	}
+}
+
+export const getProxyURL = async (endpoint: Endpoint): Promise<string | null> => {
+	const settings: ProxySettings | null = await db.get("proxySettings")
+
+	if (settings === null || typeof settings !== "object" || settings.mode == "none" || isLoopbackHost(endpoint.host)) {
+		return null
+	}
+
+	if (settings.mode == "system") {
+		const url = endpoint.scheme + "://" + endpoint.host + ":" + endpoint.port
+
+		if (typeof systemProxyCache[url] !== "undefined" && systemProxyCache[url].expires > Date.now()) {
+			return systemProxyCache[url].proxy
+		}
+
+		const proxy = pacResultToProxyURL(await ipc.resolveProxy(url))
+
+		systemProxyCache[url] = {
+			proxy,
+			expires: Date.now() + 60000
+		}
+
+		return proxy
+	}
+
+	if (typeof settings.host !== "string" || settings.host.length == 0 || typeof settings.port !== "number") {
+		return null
+	}
+
+	if (Array.isArray(settings.bypass) && isProxyBypassed(endpoint.host, settings.bypass)) {
+		return null
+	}
+
+	const auth =
+		typeof settings.username == "string" && settings.username.length > 0
+			? encodeURIComponent(settings.username) +
+			  (typeof settings.password == "string" && settings.password.length > 0 ? ":" + encodeURIComponent(settings.password) : "") +
+			  "@"
+			: ""
+
+	return (settings.mode == "socks5" ? "socks5://" : "http://") + auth + settings.host + ":" + settings.port
+}
+
+const readCABundle = async (path: string): Promise<any> => {
+	if (typeof caBundles[path] == "undefined") {
+		caBundles[path] = await fs.readFile(path)
+	}
+
+	return caBundles[path]
+}
+
+export const getEndpointAgent = async (type: EndpointType, endpoint: Endpoint, ca: string = ""): Promise<any> => {
+	const proxyURL = await getProxyURL(endpoint)
+
+	if (proxyURL === null && endpoint.scheme == "https" && ca.length == 0) {
+		return type == "api" ? httpsAPIAgent : type == "upload" ? httpsUploadAgent : httpsDownloadAgent
+	}
+
+	const cacheKey = type + ":" + endpoint.scheme + ":" + ca + ":" + (proxyURL || "")
+
+	if (typeof endpointAgents[cacheKey] !== "undefined") {
+		return endpointAgents[cacheKey]
+	}
+
+	const options: Record<string, any> = {
+		keepAlive: true,
+		maxSockets:
+			type == "api"
+				? constants.maxConcurrentAPIRequest
+				: type == "upload"
+				? constants.maxConcurrentUploads
+				: constants.maxConcurrentDownloads,
+		timeout: 3600000
+	}
+
+	// Proxy agents take the TLS options for the target from the request, see getEndpointRequestOptions
+	if (proxyURL !== null) {
+		endpointAgents[cacheKey] = proxyURL.startsWith("socks5://")
+			? new SocksProxyAgent(proxyURL, options)
+			: new HttpsProxyAgent(proxyURL, options)
+	} else {
+		if (endpoint.scheme == "https" && ca.length > 0) {
+			options.ca = await readCABundle(ca)
+		}
+
+		endpointAgents[cacheKey] = endpoint.scheme == "https" ? new https.Agent(options) : new http.Agent(options)
+	}
+
+	return endpointAgents[cacheKey]
+}
+
+export const getEndpointRequestOptions = async (
+	type: EndpointType
+): Promise<{ module: any; hostname: string; port: number; agent: any; ca: any }> => {
+	const { endpoint, ca } = await getEndpoint(type)
+	const agent = await getEndpointAgent(type, endpoint, ca)
+
+	return {
+		module: endpoint.scheme == "https" ? https : http,
+		hostname: endpoint.host,
+		port: endpoint.port,
+		agent,
+		ca: endpoint.scheme == "https" && ca.length > 0 ? await readCABundle(ca) : undefined
+	}
+}
+
 export const doAPIRequest = ({
 	method = "POST",
 	endpoint = "/v3/",
@@ -80,10 +400,19 @@ export const doAPIRequest = ({
 	apiKey = undefined
 }): Promise<any> => {
 	return new Promise((resolve, reject) => {
-		bufferToHash(textEncoder.encode(JSON.stringify(typeof data !== "undefined" ? data : {})), "SHA-512")
-			.then(checksum => {
+		Promise.all([
+			bufferToHash(textEncoder.encode(JSON.stringify(typeof data !== "undefined" ? data : {})), "SHA-512"),
+			getEndpointRequestOptions("api")
+		])
+			.then(([checksum, requestOptions]) => {
 				let currentTries = 0
 
+				const retry = (retryAfter: number | null = null): void => {
+					recordAPIFailure()
+
+					setTimeout(doRequest, getRetryDelay(currentTries, retryAfter))
+				}
+
 				const doRequest = (): any => {
 					if (!window.navigator.onLine) {
 						return setTimeout(doRequest, constants.retryAPIRequestTimeout)
@@ -105,16 +434,36 @@ export const doAPIRequest = ({
 						)
 					}
 
+					const { wait, probe } = acquireAPIRequest()
+
+					if (wait > 0) {
+						return setTimeout(doRequest, wait)
+					}
+
 					currentTries += 1
 
-					const req = https.request(
+					// A timed out request is destroyed, which emits "error" as well. Each attempt may only count one failure and schedule one retry.
+					let settled = false
+
+					const retryAttempt = (retryAfter: number | null = null): void => {
+						if (settled) {
+							return
+						}
+
+						settled = true
+
+						retry(retryAfter)
+					}
+
+					const req = requestOptions.module.request(
 						{
 							method: method.toUpperCase(),
-							hostname: "gateway.filen.io",
+							hostname: requestOptions.hostname,
 							path: endpoint,
-							port: 443,
+							port: requestOptions.port,
 							timeout: 3600000,
-							agent: httpsAPIAgent,
+							agent: requestOptions.agent,
+							ca: requestOptions.ca,
 							headers: {
 								"Content-Type": "application/json",
 								"User-Agent":
@@ -138,7 +487,21 @@ export const doAPIRequest = ({
 									)
 								)
 
-								setTimeout(doRequest, constants.retryAPIRequestTimeout)
+								response.resume()
+
+								if (!isRetryableStatus(response.statusCode)) {
+									settled = true
+
+									if (probe) {
+										releaseAPIProbe()
+									}
+
+									reject(new Error("API request to " + endpoint + " failed with status " + response.statusCode))
+
+									return
+								}
+
+								retryAttempt(parseRetryAfter(response.headers["retry-after"]))
 
 								return
 							}
@@ -155,11 +518,15 @@ export const doAPIRequest = ({
 									const obj = JSON.parse(str)
 
 									if (typeof obj.code === "string" && obj.code === "internal_error") {
-										setTimeout(doRequest, constants.retryAPIRequestTimeout)
+										retryAttempt()
 
 										return
 									}
 
+									settled = true
+
+									recordAPISuccess()
+
 									if (includeRaw) {
 										resolve({
 											data: obj,
@@ -173,6 +540,12 @@ export const doAPIRequest = ({
 								} catch (e) {
 									log.error(e)
 
+									settled = true
+
+									if (probe) {
+										releaseAPIProbe()
+									}
+
 									reject(e)
 								}
 							})
@@ -182,7 +555,7 @@ export const doAPIRequest = ({
 					req.on("error", (err: any) => {
 						log.error(err)
 
-						setTimeout(doRequest, constants.retryAPIRequestTimeout)
+						retryAttempt()
 					})
 
 					req.on("timeout", () => {
@@ -190,7 +563,7 @@ export const doAPIRequest = ({
 
 						req.destroy()
 
-						setTimeout(doRequest, constants.retryAPIRequestTimeout)
+						retryAttempt()
 					})
 
 					if (method.toUpperCase() === "POST") {
@@ -206,28 +579,28 @@ export const doAPIRequest = ({
 	})
 }
 
-export const apiRequest = async ({
-	method = "POST",
+// Always reads the raw body as well, apiRequest simply drops it
+const requestAndValidate = async <E extends APIEndpoint>({
+	method,
 	endpoint,
 	data,
-	apiKey,
-	includeRaw = false
+	apiKey
 }: {
 	method: string
-	endpoint: string
-	data?: any
+	endpoint: E
+	data?: APIRequest<E>
 	apiKey?: string | null | undefined
-	includeRaw?: boolean
-}): Promise<any> => {
+}): Promise<{ data: APIEnvelope<E>; raw: string }> => {
 	const dbAPIKey = typeof apiKey === "string" && apiKey.length === 64 ? apiKey : await db.get("apiKey")
-	const response = await doAPIRequest({ method, endpoint, data, apiKey: dbAPIKey, includeRaw })
+	const response = await doAPIRequest({ method, endpoint, data, apiKey: dbAPIKey, includeRaw: true })
+	const envelope = response.data
 
-	if (typeof response === "object") {
-		if (typeof response.code === "string" && typeof response.message === "string") {
+	if (typeof envelope === "object" && envelope !== null) {
+		if (typeof envelope.code === "string" && typeof envelope.message === "string") {
 			if (
-				response.message.toLowerCase().indexOf("api key not found") !== -1 ||
-				response.message.toLowerCase().indexOf("invalid api key") !== -1 ||
-				response.code === "api_key_not_found"
+				envelope.message.toLowerCase().indexOf("api key not found") !== -1 ||
+				envelope.message.toLowerCase().indexOf("invalid api key") !== -1 ||
+				envelope.code === "api_key_not_found"
 			) {
 				logout().catch(console.error)
 
@@ -236,10 +609,42 @@ export const apiRequest = async ({
 		}
 	}
 
-	return response
+	return {
+		data: validateAPIResponse(endpoint, envelope),
+		raw: response.raw
+	}
 }
 
-export const authInfo = async ({ email }: { email: string }): Promise<any> => {
+export const apiRequest = async <E extends APIEndpoint>({
+	method = "POST",
+	endpoint,
+	data,
+	apiKey
+}: {
+	method: string
+	endpoint: E
+	data?: APIRequest<E>
+	apiKey?: string | null | undefined
+}): Promise<APIEnvelope<E>> => {
+	return (await requestAndValidate({ method, endpoint, data, apiKey })).data
+}
+
+// Same as apiRequest, but also returns the raw response body
+export const apiRequestRaw = async <E extends APIEndpoint>({
+	method = "POST",
+	endpoint,
+	data,
+	apiKey
+}: {
+	method: string
+	endpoint: E
+	data?: APIRequest<E>
+	apiKey?: string | null | undefined
+}): Promise<{ data: APIEnvelope<E>; raw: string }> => {
+	return await requestAndValidate({ method, endpoint, data, apiKey })
+}
+
+export const authInfo = async ({ email }: { email: string }): Promise<APIResponse<"/v3/auth/info">> => {
 	const response = await apiRequest({
 		method: "POST",
 		endpoint: "/v3/auth/info",
@@ -265,7 +670,7 @@ export const login = async ({
 	password: string
 	twoFactorCode: string | number
 	authVersion: number
-}): Promise<any> => {
+}): Promise<APIResponse<"/v3/login">> => {
 	const response = await apiRequest({
 		method: "POST",
 		endpoint: "/v3/login",
@@ -284,7 +689,7 @@ export const login = async ({
 	return response.data
 }
 
-export const userInfo = async (passedApiKey?: string): Promise<any> => {
+export const userInfo = async (passedApiKey?: string): Promise<APIResponse<"/v3/user/info">> => {
 	const apiKey = passedApiKey ? passedApiKey : await db.get("apiKey")
 	const response = await apiRequest({
 		method: "GET",
@@ -312,7 +717,7 @@ export const baseFolder = async (): Promise<string> => {
 	return response.data.uuid
 }
 
-export const folderContent = async (uuid: string): Promise<any> => {
+export const folderContent = async (uuid: string): Promise<APIResponse<"/v3/dir/content">> => {
 	const response = await apiRequest({
 		method: "POST",
 		endpoint: "/v3/dir/content",
@@ -328,7 +733,7 @@ export const folderContent = async (uuid: string): Promise<any> => {
 	return response.data
 }
 
-export const folderPresent = async (uuid: string): Promise<any> => {
+export const folderPresent = async (uuid: string): Promise<APIResponse<"/v3/dir/present">> => {
 	const response = await apiRequest({
 		method: "POST",
 		endpoint: "/v3/dir/present",
@@ -344,7 +749,7 @@ export const folderPresent = async (uuid: string): Promise<any> => {
 	return response.data
 }
 
-export const filePresent = async (uuid: string): Promise<any> => {
+export const filePresent = async (uuid: string): Promise<APIResponse<"/v3/file/present">> => {
 	const response = await apiRequest({
 		method: "POST",
 		endpoint: "/v3/file/present",
@@ -370,19 +775,20 @@ export const dirTree = async ({
 	deviceId: string
 	skipCache?: boolean
 	includeRaw?: boolean
-}): Promise<{ data: any; raw: string }> => {
-	const response = await apiRequest({
+}): Promise<{ data: APIResponse<"/v3/dir/tree">; raw: string }> => {
+	const request = {
 		method: "POST",
-		endpoint: "/v3/dir/tree",
+		endpoint: "/v3/dir/tree" as const,
 		data: {
 			uuid,
 			deviceId,
 			skipCache: skipCache ? 1 : 0
-		},
-		includeRaw
-	})
+		}
+	}
 
 	if (includeRaw) {
+		const response = await apiRequestRaw(request)
+
 		if (!response.data.status) {
 			throw new Error(response.data.message)
 		}
@@ -390,11 +796,13 @@ export const dirTree = async ({
 		return { data: response.data.data, raw: response.raw }
 	}
 
+	const response = await apiRequest(request)
+
 	if (!response.status) {
 		throw new Error(response.message)
 	}
 
-	return response.data
+	return { data: response.data, raw: "" }
 }
 
 export const createFolder = async ({ uuid, name, parent }: { uuid: string; name: string; parent: string }): Promise<string> => {
@@ -460,8 +868,8 @@ export const fileExists = async ({ name, parent }: { name: string; parent: strin
 	}
 
 	return {
-		exists: response.data.exists,
-		existsUUID: response.data.uuid
+		exists: Boolean(response.data.exists),
+		existsUUID: response.data.uuid || ""
 	}
 }
 
@@ -487,8 +895,8 @@ export const folderExists = async ({
 	}
 
 	return {
-		exists: response.data.exists,
-		existsUUID: response.data.uuid
+		exists: Boolean(response.data.exists),
+		existsUUID: response.data.uuid || ""
 	}
 }
 
@@ -506,7 +914,7 @@ export const isSharingFolder = async (uuid: string): Promise<{ sharing: boolean;
 	}
 
 	return {
-		sharing: response.data.sharing,
+		sharing: Boolean(response.data.sharing),
 		users: response.data.users
 	}
 }
@@ -525,7 +933,7 @@ export const isPublicLinkingFolder = async (uuid: string): Promise<{ linking: bo
 	}
 
 	return {
-		linking: response.data.link,
+		linking: Boolean(response.data.link),
 		links: response.data.links
 	}
 }
@@ -576,7 +984,7 @@ export const isSharingItem = async (uuid: string): Promise<{ sharing: boolean; u
 	}
 
 	return {
-		sharing: response.data.sharing,
+		sharing: Boolean(response.data.sharing),
 		users: response.data.users
 	}
 }
@@ -595,7 +1003,7 @@ export const isItemInPublicLink = async (uuid: string): Promise<{ linking: boole
 	}
 
 	return {
-		linking: response.data.link,
+		linking: Boolean(response.data.link),
 		links: response.data.links
 	}
 }
@@ -1322,8 +1730,15 @@ export const uploadChunk = ({
 	location?: any
 }): Promise<any> => {
 	return new Promise((resolve, reject) => {
-		chunkedPromiseAll([db.get("networkingSettings"), db.get("maxStorageReached"), db.get("apiKey"), bufferToHash(data, "SHA-512")])
-			.then(async ([networkingSettings, maxStorageReached, apiKey, chunkHash]) => {
+		chunkedPromiseAll([
+			db.get("networkingSettings"),
+			db.get("maxStorageReached"),
+			db.get("apiKey"),
+			bufferToHash(data, "SHA-512"),
+			getEndpointRequestOptions("upload"),
+			db.get("transferPolicy")
+		])
+			.then(async ([networkingSettings, maxStorageReached, apiKey, chunkHash, requestOptions, transferPolicy]) => {
 				if (maxStorageReached) {
 					return reject(new Error("Max storage reached"))
 				}
@@ -1332,9 +1747,9 @@ export const uploadChunk = ({
 					const getPausedStatus = () => {
 						if (from == "sync") {
 							if (typeof location !== "undefined" && typeof location.uuid == "string") {
-								chunkedPromiseAll([db.get("paused"), isSyncLocationPaused(location.uuid)])
-									.then(([paused, locationPaused]) => {
-										if (paused || locationPaused) {
+								chunkedPromiseAll([db.get("paused"), isSyncLocationPaused(location.uuid), isTransferPolicyPaused()])
+									.then(([paused, locationPaused, policyPaused]) => {
+										if (paused || locationPaused || policyPaused) {
 											return setTimeout(getPausedStatus, 1000)
 										}
 
@@ -1346,9 +1761,9 @@ export const uploadChunk = ({
 										return setTimeout(getPausedStatus, 1000)
 									})
 							} else {
-								db.get("paused")
-									.then(paused => {
-										if (paused) {
+								chunkedPromiseAll([db.get("paused"), isTransferPolicyPaused()])
+									.then(([paused, policyPaused]) => {
+										if (paused || policyPaused) {
 											return setTimeout(getPausedStatus, 1000)
 										}
 
@@ -1394,15 +1809,11 @@ export const uploadChunk = ({
 
 				bufferToHash(textEncoder.encode(JSON.stringify(parsedURLParams)), "SHA-512")
 					.then(checksum => {
-						let bps = 122070 * 1024
-
-						if (networkingSettings !== null && typeof networkingSettings == "object" && from == "sync") {
-							if (typeof networkingSettings.uploadKbps !== "undefined" && networkingSettings.uploadKbps > 0) {
-								bps = Math.floor(networkingSettings.uploadKbps * 1024)
-							}
-						}
-
-						throttleGroupUpload.setRate(bps)
+						throttleGroupUpload.setRate(
+							from == "sync"
+								? kbpsToBps(getEffectiveBandwidth(networkingSettings, new Date(), transferPolicy).uploadKbps)
+								: UNLIMITED_BPS
+						)
 
 						let currentTries = 0
 
@@ -1423,6 +1834,7 @@ export const uploadChunk = ({
 
 							let lastBytes = 0
 							const throttle = throttleGroupUpload.throttle()
+							const locationThrottle = createLocationThrottle("upload", from, location)
 
 							const calcProgress = (written: number) => {
 								let bytes = written
@@ -1444,14 +1856,15 @@ export const uploadChunk = ({
 								})
 							}
 
-							const req = https.request(
+							const req = requestOptions.module.request(
 								{
 									method: "POST",
-									hostname: "ingest.filen.io",
+									hostname: requestOptions.hostname,
 									path: "/v3/upload?" + queryParams,
-									port: 443,
+									port: requestOptions.port,
 									timeout: 3600000,
-									agent: httpsUploadAgent,
+									agent: requestOptions.agent,
+									ca: requestOptions.ca,
 									headers: {
 										"User-Agent":
 											"filen-desktop/" + packageJSON.version + "-" + packageJSON.buildNumber + "-" + process.platform,
@@ -1465,6 +1878,7 @@ export const uploadChunk = ({
 										log.error(new Error("Upload failed, status code: " + response.statusCode))
 
 										throttle.destroy()
+										locationThrottle.destroy()
 
 										setTimeout(doRequest, constants.retryUploadTimeout)
 
@@ -1488,6 +1902,7 @@ export const uploadChunk = ({
 												}
 
 												throttle.destroy()
+												locationThrottle.destroy()
 
 												reject(obj.message)
 
@@ -1506,6 +1921,7 @@ export const uploadChunk = ({
 								log.error(err)
 
 								throttle.destroy()
+								locationThrottle.destroy()
 
 								reject(err)
 							})
@@ -1514,6 +1930,7 @@ export const uploadChunk = ({
 								log.error("Upload request timed out")
 
 								throttle.destroy()
+								locationThrottle.destroy()
 								req.destroy()
 
 								reject(new Error("Upload request timed out"))
@@ -1529,6 +1946,7 @@ export const uploadChunk = ({
 							Readable.from([data])
 								.pipe(str.on("end", () => str.destroy()))
 								.pipe(throttle.on("end", () => throttle.destroy()))
+								.pipe(locationThrottle.on("end", () => locationThrottle.destroy()))
 								.pipe(req)
 						}
 
@@ -1565,6 +1983,29 @@ export const markUploadAsDone = async (data: {
 	return response.data
 }
 
+export const uploadEmpty = async (data: {
+	uuid: string
+	name: string
+	nameHashed: string
+	size: string
+	parent: string
+	mime: string
+	metadata: string
+	version: number
+}): Promise<{ chunks: number; size: number }> => {
+	const response = await apiRequest({
+		method: "POST",
+		endpoint: "/v3/upload/empty",
+		data
+	})
+
+	if (!response.status) {
+		throw new Error(response.message)
+	}
+
+	return response.data
+}
+
 export const downloadChunk = ({
 	region,
 	bucket,
@@ -1581,15 +2022,15 @@ export const downloadChunk = ({
 	location?: any
 }): Promise<any> => {
 	return new Promise((resolve, reject) => {
-		db.get("networkingSettings")
-			.then(async networkingSettings => {
+		Promise.all([db.get("networkingSettings"), getEndpointRequestOptions("download"), db.get("transferPolicy")])
+			.then(async ([networkingSettings, requestOptions, transferPolicy]) => {
 				await new Promise(resolve => {
 					const getPausedStatus = () => {
 						if (from == "sync") {
 							if (typeof location !== "undefined" && typeof location.uuid == "string") {
-								chunkedPromiseAll([db.get("paused"), isSyncLocationPaused(location.uuid)])
-									.then(([paused, locationPaused]) => {
-										if (paused || locationPaused) {
+								chunkedPromiseAll([db.get("paused"), isSyncLocationPaused(location.uuid), isTransferPolicyPaused()])
+									.then(([paused, locationPaused, policyPaused]) => {
+										if (paused || locationPaused || policyPaused) {
 											return setTimeout(getPausedStatus, 1000)
 										}
 
@@ -1601,9 +2042,9 @@ export const downloadChunk = ({
 										return setTimeout(getPausedStatus, 1000)
 									})
 							} else {
-								db.get("paused")
-									.then(paused => {
-										if (paused) {
+								chunkedPromiseAll([db.get("paused"), isTransferPolicyPaused()])
+									.then(([paused, policyPaused]) => {
+										if (paused || policyPaused) {
 											return setTimeout(getPausedStatus, 1000)
 										}
 
@@ -1641,15 +2082,11 @@ export const downloadChunk = ({
 					return getPausedStatus()
 				})
 
-				let bps = 122070 * 1024
-
-				if (networkingSettings !== null && typeof networkingSettings == "object" && from == "sync") {
-					if (typeof networkingSettings.downloadKbps !== "undefined" && networkingSettings.downloadKbps > 0) {
-						bps = Math.floor(networkingSettings.downloadKbps * 1024)
-					}
-				}
-
-				throttleGroupDownload.setRate(bps)
+				throttleGroupDownload.setRate(
+					from == "sync"
+						? kbpsToBps(getEffectiveBandwidth(networkingSettings, new Date(), transferPolicy).downloadKbps)
+						: UNLIMITED_BPS
+				)
 
 				let currentTries = 0
 
@@ -1663,15 +2100,17 @@ export const downloadChunk = ({
 					}
 
 					const throttle = throttleGroupDownload.throttle()
+					const locationThrottle = createLocationThrottle("download", from, location)
 
 					currentTries += 1
 
-					const request = https.request({
-						host: "down.filen.io",
-						port: 443,
+					const request = requestOptions.module.request({
+						host: requestOptions.hostname,
+						port: requestOptions.port,
 						path: "/" + region + "/" + bucket + "/" + uuid + "/" + index,
 						method: "GET",
-						agent: httpsDownloadAgent,
+						agent: requestOptions.agent,
+						ca: requestOptions.ca,
 						timeout: 86400000,
 						headers: {
 							"User-Agent": "filen-desktop/" + packageJSON.version + "-" + packageJSON.buildNumber + "-" + process.platform
@@ -1683,6 +2122,7 @@ export const downloadChunk = ({
 							log.error("Invalid http statuscode: " + response.statusCode)
 
 							throttle.destroy()
+							locationThrottle.destroy()
 
 							return setTimeout(doRequest, constants.retryDownloadTimeout)
 						}
@@ -1693,12 +2133,14 @@ export const downloadChunk = ({
 							log.error(err)
 
 							throttle.destroy()
+							locationThrottle.destroy()
 
 							return setTimeout(doRequest, constants.retryDownloadTimeout)
 						})
 
 						response
 							.pipe(throttle)
+							.pipe(locationThrottle)
 							.on("data", (chunk: Buffer) => {
 								res.push(chunk)
 
@@ -1719,6 +2161,7 @@ export const downloadChunk = ({
 								}
 
 								throttle.destroy()
+								locationThrottle.destroy()
 
 								return true
 							})
@@ -1728,6 +2171,7 @@ export const downloadChunk = ({
 						log.error(err)
 
 						throttle.destroy()
+						locationThrottle.destroy()
 
 						return setTimeout(doRequest, constants.retryDownloadTimeout)
 					})
@@ -1736,6 +2180,7 @@ export const downloadChunk = ({
 						log.error("Download request timed out")
 
 						throttle.destroy()
+						locationThrottle.destroy()
 						request.destroy()
 
 						return setTimeout(doRequest, constants.retryDownloadTimeout)
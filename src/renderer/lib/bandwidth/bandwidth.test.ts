@@ -0,0 +1,72 @@
+import { isBandwidthRuleActive, getNextBandwidthBoundary } from "./bandwidth"
+import { BandwidthScheduleRule, NetworkingSettings } from "../../../types"
+
+const rule = (days: number[], start: string, end: string): BandwidthScheduleRule => ({
+	uuid: start + "-" + end,
+	days,
+	start,
+	end,
+	uploadKbps: 100,
+	downloadKbps: 200
+})
+
+// 2024-01-01 is a Monday (getDay() == 1), dates are built in local time like the schedule
+const at = (day: number, hours: number, minutes: number, seconds: number = 0): Date => new Date(2024, 0, day, hours, minutes, seconds)
+
+describe("isBandwidthRuleActive", () => {
+	const workHours = rule([1, 2, 3, 4, 5], "09:00", "17:00")
+
+	it("is active between start and end on the listed days", () => {
+		expect(isBandwidthRuleActive(workHours, at(1, 9, 0))).toBe(true)
+		expect(isBandwidthRuleActive(workHours, at(1, 16, 59))).toBe(true)
+		expect(isBandwidthRuleActive(workHours, at(1, 17, 0))).toBe(false)
+		expect(isBandwidthRuleActive(workHours, at(1, 8, 59))).toBe(false)
+	})
+
+	it("is inactive on other days", () => {
+		expect(isBandwidthRuleActive(workHours, at(6, 12, 0))).toBe(false)
+		expect(isBandwidthRuleActive(workHours, at(7, 12, 0))).toBe(false)
+	})
+
+	it("runs over midnight into the day after a listed day", () => {
+		// Fridays from 22:00 until Saturday 06:00
+		const overnight = rule([5], "22:00", "06:00")
+
+		expect(isBandwidthRuleActive(overnight, at(5, 23, 0))).toBe(true)
+		expect(isBandwidthRuleActive(overnight, at(6, 5, 59))).toBe(true)
+		expect(isBandwidthRuleActive(overnight, at(6, 6, 0))).toBe(false)
+		expect(isBandwidthRuleActive(overnight, at(5, 5, 0))).toBe(false)
+	})
+
+	it("wraps from Sunday to Monday", () => {
+		const sundayNight = rule([0], "23:00", "01:00")
+
+		expect(isBandwidthRuleActive(sundayNight, at(7, 23, 30))).toBe(true)
+		expect(isBandwidthRuleActive(sundayNight, at(8, 0, 30))).toBe(true)
+	})
+})
+
+describe("getNextBandwidthBoundary", () => {
+	const settings = (schedule?: BandwidthScheduleRule[]): NetworkingSettings => ({
+		uploadKbps: 0,
+		downloadKbps: 0,
+		schedule
+	})
+
+	it("returns null without a schedule", () => {
+		expect(getNextBandwidthBoundary(null)).toBeNull()
+		expect(getNextBandwidthBoundary(settings())).toBeNull()
+		expect(getNextBandwidthBoundary(settings([]))).toBeNull()
+	})
+
+	it("returns the time until the closest start or end", () => {
+		const schedule = settings([rule([1], "09:00", "17:00"), rule([1], "12:00", "13:00")])
+
+		expect(getNextBandwidthBoundary(schedule, at(1, 8, 0))).toBe(60 * 60000)
+		expect(getNextBandwidthBoundary(schedule, at(1, 12, 30, 15))).toBe(30 * 60000 - 15000)
+	})
+
+	it("wraps to the next day after the last boundary", () => {
+		expect(getNextBandwidthBoundary(settings([rule([1], "09:00", "17:00")]), at(1, 18, 0))).toBe(15 * 60 * 60000)
+	})
+})
@@ -0,0 +1,97 @@
+import { NetworkingSettings, BandwidthScheduleRule, TransferPolicy } from "../../../types"
+import constants from "../../../constants.json"
+
+const MINUTES_PER_DAY = 1440
+
+// "HH:MM" to minutes since midnight
+export const parseScheduleTime = (time: string): number => {
+	const [hours, minutes] = time.split(":").map(part => parseInt(part))
+
+	if (isNaN(hours) || isNaN(minutes)) {
+		return 0
+	}
+
+	return Math.min(Math.max(hours * 60 + minutes, 0), MINUTES_PER_DAY)
+}
+
+// Rules ending at or before their start run over midnight into the next day
+export const isBandwidthRuleActive = (rule: BandwidthScheduleRule, date: Date = new Date()): boolean => {
+	const day = date.getDay()
+	const minutes = date.getHours() * 60 + date.getMinutes()
+	const start = parseScheduleTime(rule.start)
+	const end = parseScheduleTime(rule.end)
+
+	if (start < end) {
+		return rule.days.includes(day) && minutes >= start && minutes < end
+	}
+
+	return (rule.days.includes(day) && minutes >= start) || (rule.days.includes((day + 6) % 7) && minutes < end)
+}
+
+export const getActiveBandwidthRule = (settings: NetworkingSettings | null, date: Date = new Date()): BandwidthScheduleRule | null => {
+	if (settings === null || typeof settings !== "object" || !Array.isArray(settings.schedule)) {
+		return null
+	}
+
+	for (const rule of settings.schedule) {
+		if (isBandwidthRuleActive(rule, date)) {
+			return rule
+		}
+	}
+
+	return null
+}
+
+// A throttling transfer policy (metered network, battery) caps whatever the schedule allows
+export const getEffectiveBandwidth = (
+	settings: NetworkingSettings | null,
+	date: Date = new Date(),
+	transferPolicy: TransferPolicy | null = null
+): { uploadKbps: number; downloadKbps: number } => {
+	const rule = getActiveBandwidthRule(settings, date)
+	let uploadKbps = 0
+	let downloadKbps = 0
+
+	if (settings !== null && typeof settings == "object") {
+		uploadKbps = rule ? rule.uploadKbps : settings.uploadKbps || 0
+		downloadKbps = rule ? rule.downloadKbps : settings.downloadKbps || 0
+	}
+
+	if (transferPolicy !== null && typeof transferPolicy == "object" && transferPolicy.action == "throttle") {
+		const cap = constants.transferPolicyThrottleKbps
+
+		uploadKbps = uploadKbps > 0 ? Math.min(uploadKbps, cap) : cap
+		downloadKbps = downloadKbps > 0 ? Math.min(downloadKbps, cap) : cap
+	}
+
+	return {
+		uploadKbps,
+		downloadKbps
+	}
+}
+
+// Milliseconds until the next rule starts or ends, null without a schedule
+export const getNextBandwidthBoundary = (settings: NetworkingSettings | null, date: Date = new Date()): number | null => {
+	if (settings === null || typeof settings !== "object" || !Array.isArray(settings.schedule) || settings.schedule.length == 0) {
+		return null
+	}
+
+	const minutes = date.getHours() * 60 + date.getMinutes()
+	let next: number | null = null
+
+	for (const rule of settings.schedule) {
+		for (const time of [parseScheduleTime(rule.start), parseScheduleTime(rule.end)]) {
+			const inMinutes = time > minutes ? time - minutes : time + MINUTES_PER_DAY - minutes
+
+			if (next === null || inMinutes < next) {
+				next = inMinutes
+			}
+		}
+	}
+
+	if (next === null) {
+		return null
+	}
+
+	return next * 60000 - date.getSeconds() * 1000 - date.getMilliseconds()
+}
@@ -356,6 +356,8 @@ export const decryptFileMetadata = async (metadata: string, masterKeys: string[]
 	let fileMime = ""
 	let fileKey = ""
 	let fileLastModified = 0
+	let fileHash = ""
+	let fileSymlink = ""
 
 	for (let i = 0; i < masterKeys.length; i++) {
 		try {
@@ -371,6 +373,8 @@ export const decryptFileMetadata = async (metadata: string, masterKeys: string[]
 						fileMime = striptags(obj.mime)
 						fileKey = obj.key
 						fileLastModified = parseInt(obj.lastModified)
+						fileHash = typeof obj.hash == "string" ? obj.hash : ""
+						fileSymlink = typeof obj.symlink == "string" ? obj.symlink : ""
 
 						break
 					}
@@ -381,7 +385,7 @@ export const decryptFileMetadata = async (metadata: string, masterKeys: string[]
 		}
 	}
 
-	const obj = {
+	const obj: RemoteFileMetadata = {
 		name: fileName,
 		size: fileSize,
 		mime: fileMime,
@@ -389,6 +393,14 @@ export const decryptFileMetadata = async (metadata: string, masterKeys: string[]
 		lastModified: fileLastModified
 	}
 
+	if (fileHash.length > 0) {
+		obj.hash = fileHash
+	}
+
+	if (fileSymlink.length > 0) {
+		obj.symlink = fileSymlink
+	}
+
 	if (typeof obj.name == "string" && obj.name.length > 0) {
 		memoryCache.set(cacheKey, obj)
 	}
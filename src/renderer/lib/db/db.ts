@@ -1,13 +1,14 @@
 import { sendToAllPorts } from "../worker/ipc"
 import { getRandomArbitrary, hashKey } from "../helpers"
 import ipc from "../ipc"
+import { DbOperation } from "../../../types"
 
 const writeFileAtomic = window.require("write-file-atomic")
 const fs = window.require("fs-extra")
 const pathModule = window.require("path")
 const log = window.require("electron-log")
 
-const DB_VERSION = 1
+const DB_VERSION = 2
 let DB_PATH = ""
 const MAX_RETRIES = 30
 const RETRY_TIMEOUT = 500
@@ -210,10 +211,20 @@ export const remove = (key: string): Promise<void> => {
 	})
 }
 
+// Writes several keys at once. The main process commits the batch through its journal, so there is a single implementation of it
+// and a crash in the middle is recovered on the next start. It also emits dbSet and dbRemove for every key.
+export const batch = async (operations: DbOperation[]): Promise<void> => {
+	if (operations.length == 0) {
+		return
+	}
+
+	await ipc.dbBatch(operations)
+}
+
 export const clear = async (): Promise<void> => {
 	await dbReady()
 
-	const dir = await fs.readdir(DB_PATH)
+	const dir = (await fs.readdir(DB_PATH)).filter((file: string) => file.endsWith(".json"))
 
 	for (const file of dir) {
 		await fs.unlink(pathModule.join(DB_PATH, file))
@@ -227,14 +238,19 @@ export const clear = async (): Promise<void> => {
 export const keys = async (): Promise<string[]> => {
 	await dbReady()
 
-	const dir = await fs.readdir(DB_PATH)
+	const dir = (await fs.readdir(DB_PATH)).filter((file: string) => file.endsWith(".json"))
 	const keys: string[] = []
 
 	for (const file of dir) {
-		const obj = JSON.parse(await fs.readFile(pathModule.join(DB_PATH, file), "utf-8"))
+		try {
+			const obj = JSON.parse(await fs.readFile(pathModule.join(DB_PATH, file), "utf-8"))
 
-		if (typeof obj === "object" && typeof obj.key === "string") {
-			keys.push(obj.key)
+			if (typeof obj === "object" && typeof obj.key === "string") {
+				keys.push(obj.key)
+			}
+		} catch (e) {
+			log.error("Skipping corrupt db entry " + file)
+			log.error(e)
 		}
 	}
 
@@ -246,7 +262,8 @@ export const db = {
 	set,
 	remove,
 	clear,
-	keys
+	keys,
+	batch
 }
 
 export default db
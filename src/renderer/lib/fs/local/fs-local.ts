@@ -11,7 +11,9 @@ import {
 	isNameOverMaxLength,
 	isPathOverMaxLength,
 	Semaphore,
-	chunkedPromiseAll
+	chunkedPromiseAll,
+	isSubdir,
+	hashKey
 } from "../../helpers"
 import { downloadChunk } from "../../api"
 import { decryptData } from "../../crypto"
@@ -20,8 +22,8 @@ import db from "../../db"
 import constants from "../../../../constants.json"
 import { isSyncLocationPaused, isIgnoredBySelectiveSync } from "../../worker/sync/sync.utils"
 import { Stats } from "fs-extra"
-import { LocalDirectoryTreeResult, Location } from "../../../../types"
-import { invokeProxy } from "../../ipc/ipc"
+import { LocalDirectoryTreeResult, Location, LocalTreeFiles, SymlinkModes } from "../../../../types"
+import { invokeProxy, takeLocalChangedPaths, requeueLocalChangedPaths } from "../../ipc/ipc"
 
 const pathModule = window.require("path")
 const log = window.require("electron-log")
@@ -29,12 +31,25 @@ const gitignoreParser = window.require("@gerhobbelt/gitignore-parser")
 const fs = window.require("fs-extra")
 const readdirp = window.require("readdirp")
 const readline = window.require("readline")
+const writeFileAtomic = window.require("write-file-atomic")
 
 const downloadThreadsSemaphore = new Semaphore(constants.maxDownloadThreads)
+const hashFileSemaphore = new Semaphore(constants.maxConcurrentHashes)
 let LOCAL_TRASH_DIRS_CLEAN_INTERVAL: NodeJS.Timer
 let APPLY_DONE_TASKS_PATH: Record<string, string> = {}
-const APPLY_DONE_TASKS_VERSION: number = 1
+// Changes to the stored format go through a db migration (src/main/lib/db/migrations.ts) instead of a new directory
+const APPLY_DONE_TASKS_DIR: string = "applyDoneTasks"
+
+// root is the path readdirp walks, realRoot where it actually lives and ancestors the real directories above it
+interface LocalWalkContext {
+	root: string
+	realRoot: string
+	ancestors: string[]
+	followed: boolean
+}
 const applyDoneTasksSemaphore = new Semaphore(1)
+const PARTIAL_DOWNLOAD_PREFIX = "filen-partial-"
+const LAST_FULL_LOCAL_SCAN: Record<string, { timestamp: number; signature: string }> = {}
 
 export const normalizePath = (path: string): string => {
 	return pathModule.normalize(path)
@@ -58,9 +73,104 @@ export const getTempDir = async (): Promise<string> => {
 
 	memoryCache.set("tmpDir", tmpDir)
 
+	clearOrphanedPartialDownloads().catch(log.error)
+
 	return tmpDir
 }
 
+// Partial downloads live at a deterministic path per remote file and destination, next to a manifest that records how many chunks were completely written.
+// The destination is part of the path so the same file downloaded to two places at once (two locations, sync and the download window) never shares a partial.
+export const getPartialDownloadPath = async (uuid: string, destination: string): Promise<string> => {
+	return normalizePath(
+		pathModule.join(await getTempDir(), PARTIAL_DOWNLOAD_PREFIX + uuid + "-" + hashKey(normalizePath(destination)).slice(0, 16))
+	)
+}
+
+export const loadPartialDownload = async (path: string, file: any): Promise<{ written: number; bytes: number }> => {
+	try {
+		const manifest = JSON.parse(await fs.readFile(path + ".json", "utf-8"))
+
+		if (
+			manifest.uuid !== file.uuid ||
+			manifest.chunks !== file.chunks ||
+			!Number.isInteger(manifest.written) ||
+			!Number.isInteger(manifest.bytes)
+		) {
+			throw new Error("Invalid partial download manifest for " + path)
+		}
+
+		const stats = await fs.stat(path)
+
+		if (stats.size < manifest.bytes) {
+			throw new Error("Partial download " + path + " is smaller than its manifest")
+		}
+
+		// Anything after the last chunk recorded in the manifest might be incomplete
+		if (stats.size > manifest.bytes) {
+			await fs.truncate(path, manifest.bytes)
+		}
+
+		return {
+			written: manifest.written,
+			bytes: manifest.bytes
+		}
+	} catch {
+		await removePartialDownload(path)
+
+		return {
+			written: 0,
+			bytes: 0
+		}
+	}
+}
+
+export const savePartialDownload = async (path: string, file: any, written: number, bytes: number): Promise<void> => {
+	await writeFileAtomic(
+		path + ".json",
+		JSON.stringify({
+			uuid: file.uuid,
+			chunks: file.chunks,
+			written,
+			bytes,
+			updated: Date.now()
+		})
+	)
+}
+
+export const removePartialDownload = async (path: string): Promise<void> => {
+	await chunkedPromiseAll([rmPermanent(path), rmPermanent(path + ".json")])
+}
+
+export const clearOrphanedPartialDownloads = async (): Promise<void> => {
+	const tmpDir = await getTempDir()
+	const entries: string[] = await fs.readdir(tmpDir)
+	const now = Date.now()
+	const partials = entries.filter(entry => entry.startsWith(PARTIAL_DOWNLOAD_PREFIX) && !entry.endsWith(".json"))
+
+	// A manifest without its partial file is useless, e.g. left behind when the partial was removed by hand
+	await chunkedPromiseAll(
+		entries
+			.filter(entry => entry.startsWith(PARTIAL_DOWNLOAD_PREFIX) && entry.endsWith(".json") && !partials.includes(entry.slice(0, -5)))
+			.map(entry => rmPermanent(normalizePath(pathModule.join(tmpDir, entry))).catch(log.error))
+	)
+
+	await chunkedPromiseAll(
+		partials.map(async entry => {
+			const path = normalizePath(pathModule.join(tmpDir, entry))
+
+			try {
+				const stats = await fs.stat(path)
+
+				if (now - stats.mtimeMs > constants.partialDownloadMaxAge) {
+					await removePartialDownload(path)
+				}
+			} catch (e) {
+				log.error(e)
+			}
+		})
+	)
+}
+
 export const smokeTest = async (path: string): Promise<void> => {
 	return await invokeProxy("fsSmokeTest", path)
 }
@@ -87,6 +197,159 @@ export const canReadAtPath = async (path: string): Promise<boolean> => {
 	return await invokeProxy("fsCanReadAtPath", path)
 }
 
+export const hashFile = async (path: string): Promise<string> => {
+	return await invokeProxy("fsHashFile", path)
+}
+
+// Hashes are cached by ino, size and mtime so we only have to read files that actually changed since the last scan
+const addContentHashes = async (basePath: string, files: LocalTreeFiles, location: Location): Promise<void> => {
+	const cacheKey = "contentHashes:" + location.uuid
+	const cached: Record<string, { size: number; lastModified: number; hash: string }> | null = await db.get(cacheKey)
+	const hashes: Record<string, { size: number; lastModified: number; hash: string }> = {}
+
+	await chunkedPromiseAll(
+		Object.keys(files).map(async path => {
+			const file = files[path]
+
+			if (typeof file.symlink == "string") {
+				return
+			}
+
+			const cachedEntry = cached !== null && typeof cached == "object" ? cached[file.ino] : undefined
+
+			if (
+				typeof cachedEntry !== "undefined" &&
+				cachedEntry.size == file.size &&
+				cachedEntry.lastModified == file.lastModified &&
+				typeof cachedEntry.hash == "string"
+			) {
+				file.hash = cachedEntry.hash
+				hashes[file.ino] = cachedEntry
+
+				return
+			}
+
+			await hashFileSemaphore.acquire()
+
+			try {
+				file.hash = await hashFile(pathModule.join(basePath, path))
+
+				hashes[file.ino] = {
+					size: file.size,
+					lastModified: file.lastModified,
+					hash: file.hash
+				}
+			} catch (e) {
+				log.error(e)
+			}
+
+			hashFileSemaphore.release()
+		})
+	)
+
+	await db.set(cacheKey, hashes)
+}
+
+// Skipped or unfollowable symlinks are only reported once per location and session, otherwise every scan would add a new issue
+const reportSkippedSymlinks = (location: Location, symlinkMode: SymlinkModes, skipped: string[]): void => {
+	const reportedKey = "symlinksSkippedReported:" + location.uuid + ":" + symlinkMode
+
+	if (skipped.length == 0 || memoryCache.has(reportedKey)) {
+		return
+	}
+
+	memoryCache.set(reportedKey, true)
+
+	ipc.addSyncIssue({
+		uuid: uuidv4(),
+		type: symlinkMode == "follow" ? "warning" : "info",
+		where: "local",
+		path: skipped[0],
+		info:
+			(symlinkMode == "follow"
+				? "Not following " + skipped.length + " symlink(s) pointing outside of the sync location or into a loop: "
+				: "Skipped " + skipped.length + " symlink(s): ") + skipped.slice(0, 10).join(", "),
+		timestamp: Date.now()
+	}).catch(log.error)
+}
+
+// Stored links are recreated with whatever target the remote has. Only relative targets that stay inside the sync location are allowed,
+// anything else would let a remote item point a local link anywhere on the disk.
+export const isSafeSymlinkTarget = (location: Location, path: string, target: string): boolean => {
+	if (target.length == 0 || pathModule.posix.isAbsolute(target) || pathModule.win32.isAbsolute(target)) {
+		return false
+	}
+
+	const root = pathModule.resolve(location.local)
+	const resolved = pathModule.resolve(pathModule.dirname(pathModule.join(root, path)), target)
+
+	return resolved == root || resolved.startsWith(root + pathModule.sep)
+}
+
+// Reported once per location, path and target in a session, the remote offers the link again every cycle
+export const reportUnsafeSymlinkTarget = (location: Location, path: string, target: string): void => {
+	const reportedKey = "unsafeSymlinkTargetReported:" + location.uuid + ":" + path + ":" + target
+
+	if (memoryCache.has(reportedKey)) {
+		return
+	}
+
+	memoryCache.set(reportedKey, true)
+
+	ipc.addSyncIssue({
+		uuid: uuidv4(),
+		type: "warning",
+		where: "local",
+		path: normalizePath(pathModule.join(location.local, path)),
+		info: "Not creating symlink " + path + ", its target " + target + " is absolute or points outside of the sync location",
+		timestamp: Date.now()
+	}).catch(log.error)
+}
+
+const isBelowAny = (path: string, roots: Record<string, boolean>): boolean => {
+	let parent = pathModule.posix.dirname(path)
+
+	while (parent !== ".") {
+		if (roots[parent]) {
+			return true
+		}
+
+		parent = pathModule.posix.dirname(parent)
+	}
+
+	return false
+}
+
+// Maps changed paths to the topmost subtrees that have to be read again. Paths below folders we do not know yet are read from their first known ancestor.
+// Returns null if the location itself changed.
+const getLocalScanRoots = (basePath: string, changedPaths: string[], folders: Record<string, any>): string[] | null => {
+	const roots: Record<string, boolean> = {}
+
+	for (const changedPath of changedPaths) {
+		let relativePath = windowsPathToUnixStyle(pathModule.relative(basePath, normalizePath(changedPath)))
+
+		if (relativePath.startsWith("..") || pathModule.isAbsolute(relativePath)) {
+			continue
+		}
+
+		while (
+			relativePath.length > 0 &&
+			pathModule.posix.dirname(relativePath) !== "." &&
+			typeof folders[pathModule.posix.dirname(relativePath)] == "undefined"
+		) {
+			relativePath = pathModule.posix.dirname(relativePath)
+		}
+
+		if (relativePath.length == 0) {
+			return null
+		}
+
+		roots[relativePath] = true
+	}
+
+	return Object.keys(roots).filter(root => !isBelowAny(root, roots))
+}
+
 export const directoryTree = async (path: string, skipCache = false, location: Location): Promise<LocalDirectoryTreeResult> => {
 	const cacheKey = "directoryTreeLocal:" + location.uuid
 
@@ -117,73 +380,175 @@ export const directoryTree = async (path: string, skipCache = false, location: L
 
 	path = normalizePath(path)
 
-	const obj: {
-		files: Record<
-			string,
-			{
-				name: string
-				size: number
-				lastModified: number
-				ino: number
-			}
-		>
-		folders: Record<
-			string,
-			{
-				name: string
-				lastModified: number
-				ino: number
-			}
-		>
-		ino: Record<number, { type: "folder" | "file"; path: string }>
-	} = {
-		files: {},
-		folders: {},
-		ino: {}
+	// Windows clients cannot recreate stored links, so they are skipped there
+	const symlinkMode: SymlinkModes =
+		location.symlinkMode == "follow" || (location.symlinkMode == "store" && process.platform !== "win32")
+			? location.symlinkMode
+			: "skip"
+	const rootRealPath = symlinkMode == "follow" ? await realPath(path) : path
+	const rootContext: LocalWalkContext = {
+		root: path,
+		realRoot: rootRealPath,
+		ancestors: [],
+		followed: false
 	}
+	const skippedLinks: string[] = []
 
-	const processEntry = async (item: any) => {
-		try {
-			if (process.platform === "win32") {
-				item.path = windowsPathToUnixStyle(item.path)
+	// Only follow links that stay inside the sync location and do not point to a directory on their own ancestor chain.
+	// Checking the whole chain also catches cycles spanning several links, e.g. a/l1 -> b and b/l2 -> a.
+	const resolveFollowedLink = async (fullPath: string, context: LocalWalkContext): Promise<LocalWalkContext | null> => {
+		const target = await realPath(fullPath)
+
+		// Dangling links resolve to themselves
+		if (target === normalizePath(fullPath) || !isSubdir(rootRealPath, target)) {
+			return null
+		}
+
+		const ancestors = [...context.ancestors, context.realRoot]
+		const relativeParent = pathModule.relative(context.root, pathModule.dirname(fullPath))
+		let current = context.realRoot
+
+		for (const segment of relativeParent.split(pathModule.sep)) {
+			if (segment.length == 0) {
+				continue
 			}
 
-			if (
-				!(excludeDot && (item.basename.startsWith(".") || pathIncludesDot(item.path))) &&
-				!isFolderPathExcluded(item.path) &&
-				pathValidation(item.path) &&
-				!pathIsFileOrFolderNameIgnoredByDefault(item.path) &&
-				!isSystemPathExcluded("//" + item.fullPath) &&
-				!isNameOverMaxLength(item.basename) &&
-				!isPathOverMaxLength(location.local + "/" + item.path)
-			) {
-				const stats = await gracefulLStat(item.fullPath)
+			current = pathModule.join(current, segment)
 
-				if (!stats.isLink) {
-					if (stats.isDir) {
-						const inoNum = parseInt(stats.ino.toString()) //.toString() because of BigInt
+			ancestors.push(current)
+		}
 
+		if (ancestors.some(ancestor => ancestor === target || isSubdir(target, ancestor))) {
+			return null
+		}
+
+		return {
+			root: fullPath,
+			realRoot: target,
+			ancestors,
+			followed: true
+		}
+	}
+
+	const { paths: changedPaths, fullScan: fullScanRequested } = takeLocalChangedPaths(location.uuid)
+
+	// The paths are only taken off the queue for good once the new tree is stored, a failed scan has to see them again
+	try {
+		const signature = JSON.stringify([path, excludeDot, filenIgnore, selectiveSyncRemote, symlinkMode, Boolean(location.contentHash)])
+		const lastFullScan = LAST_FULL_LOCAL_SCAN[location.uuid]
+
+		// Followed links can pull in entries from anywhere, so those locations are always read completely.
+		// A full scan also runs periodically as a safety net for events the watcher missed.
+		const incremental =
+			!skipCache &&
+			!fullScanRequested &&
+			cachedLocalTree !== null &&
+			changedPaths.length > 0 &&
+			changedPaths.length <= constants.maxIncrementalLocalScanPaths &&
+			symlinkMode !== "follow" &&
+			typeof lastFullScan !== "undefined" &&
+			lastFullScan.signature === signature &&
+			Date.now() - lastFullScan.timestamp < constants.localFullScanInterval
+		const scanRoots = incremental ? getLocalScanRoots(path, changedPaths, cachedLocalTree.folders) : null
+
+		const obj: {
+			files: LocalTreeFiles
+			folders: Record<
+				string,
+				{
+					name: string
+					lastModified: number
+					ino: number
+				}
+			>
+			ino: Record<number, { type: "folder" | "file"; path: string }>
+		} =
+			scanRoots !== null
+				? {
+						files: { ...cachedLocalTree.files },
+						folders: { ...cachedLocalTree.folders },
+						ino: { ...cachedLocalTree.ino }
+				  }
+				: {
+						files: {},
+						folders: {},
+						ino: {}
+				  }
+
+		const processEntry = async (item: any, context: LocalWalkContext = rootContext) => {
+			try {
+				if (process.platform === "win32") {
+					item.path = windowsPathToUnixStyle(item.path)
+				}
+
+				if (
+					!(excludeDot && (item.basename.startsWith(".") || pathIncludesDot(item.path))) &&
+					!isFolderPathExcluded(item.path) &&
+					pathValidation(item.path) &&
+					!pathIsFileOrFolderNameIgnoredByDefault(item.path) &&
+					!isSystemPathExcluded("//" + item.fullPath) &&
+					!isNameOverMaxLength(item.basename) &&
+					!isPathOverMaxLength(location.local + "/" + item.path)
+				) {
+					let stats = await gracefulLStat(item.fullPath)
+					let symlinkTarget: string | undefined = undefined
+
+					// Followed entries share their inode with the link target, so they must not be used for rename/move detection
+					let followed = context.followed
+					let followedContext: LocalWalkContext | null = null
+
+					if (stats.isLink) {
+						if (symlinkMode == "skip") {
+							skippedLinks.push(item.fullPath)
+
+							return
+						}
+
+						if (symlinkMode == "store") {
+							symlinkTarget = await readLink(item.fullPath)
+						} else {
+							followedContext = await resolveFollowedLink(item.fullPath, context)
+
+							if (followedContext === null) {
+								skippedLinks.push(item.fullPath)
+
+								return
+							}
+
+							stats = await gracefulLStat(followedContext.realRoot)
+							followed = true
+						}
+					}
+
+					const inoNum = parseInt(stats.ino.toString()) //.toString() because of BigInt
+
+					if (stats.isDir) {
 						obj.folders[item.path] = {
 							name: item.basename,
 							lastModified: parseInt(stats.mtimeMs.toString()), //.toString() because of BigInt
 							ino: inoNum
 						}
 
-						obj.ino[inoNum] = {
-							type: "folder",
-							path: item.path
+						if (!followed) {
+							obj.ino[inoNum] = {
+								type: "folder",
+								path: item.path
+							}
+						}
+
+						if (followedContext !== null) {
+							await walk(followedContext, item.path)
 						}
 					} else {
-						if (stats.size > 0) {
-							const inoNum = parseInt(stats.ino.toString()) //.toString() because of BigInt
-
-							obj.files[item.path] = {
-								name: item.basename,
-								size: parseInt(stats.size.toString()), //.toString() because of BigInt
-								lastModified: parseInt(stats.mtimeMs.toString()), //.toString() because of BigInt
-								ino: inoNum
-							}
+						obj.files[item.path] = {
+							name: item.basename,
+							size: typeof symlinkTarget == "string" ? 0 : parseInt(stats.size.toString()), //.toString() because of BigInt
+							lastModified: parseInt(stats.mtimeMs.toString()), //.toString() because of BigInt
+							ino: inoNum,
+							...(typeof symlinkTarget == "string" ? { symlink: symlinkTarget } : {})
+						}
 
+						if (!followed) {
 							obj.ino[inoNum] = {
 								type: "file",
 								path: item.path
@@ -191,58 +556,159 @@ export const directoryTree = async (path: string, skipCache = false, location: L
 						}
 					}
 				}
-			}
-		} catch (e: any) {
-			if (
-				!filenIgnoreCompiled.denies(item.path) &&
-				!filenIgnoreCompiled.denies(item.fullPath) &&
-				!isIgnoredBySelectiveSync(selectiveSyncRemote, item.path) &&
-				!isIgnoredBySelectiveSync(selectiveSyncRemote, item.fullPath)
-			) {
-				log.error(e)
+			} catch (e: any) {
+				if (
+					!filenIgnoreCompiled.denies(item.path) &&
+					!filenIgnoreCompiled.denies(item.fullPath) &&
+					!isIgnoredBySelectiveSync(selectiveSyncRemote, item.path) &&
+					!isIgnoredBySelectiveSync(selectiveSyncRemote, item.fullPath)
+				) {
+					log.error(e)
 
-				ipc.addSyncIssue({
-					uuid: uuidv4(),
-					type: "warning",
-					where: "local",
-					path: item.fullPath,
-					err: e,
-					info: "Could not read " + item.fullPath,
-					timestamp: Date.now()
-				}).catch(log.error)
+					ipc.addSyncIssue({
+						uuid: uuidv4(),
+						type: "warning",
+						where: "local",
+						path: item.fullPath,
+						err: e,
+						info: "Could not read " + item.fullPath,
+						timestamp: Date.now()
+					}).catch(log.error)
+				}
 			}
 		}
-	}
 
-	const concurrencyLimit = 8192
-	const processingPromises: Promise<void>[] = []
-	let activePromises = 0
-
-	for await (const item of readdirp(path, {
-		alwaysStat: false,
-		lstat: false,
-		type: "all",
-		depth: 2147483648,
-		directoryFilter: ["!.filen.trash.local", "!System Volume Information"],
-		fileFilter: ["!.filen.trash.local", "!System Volume Information"]
-	})) {
-		processingPromises.push(processEntry(item))
-		activePromises++
-
-		if (activePromises >= concurrencyLimit) {
+		const walk = async (context: LocalWalkContext, prefix: string): Promise<void> => {
+			const concurrencyLimit = 8192
+			const processingPromises: Promise<void>[] = []
+			let activePromises = 0
+
+			for await (const item of readdirp(context.root, {
+				alwaysStat: false,
+				lstat: false,
+				type: "all",
+				depth: 2147483648,
+				directoryFilter: (entry: any) => {
+					if (entry.basename == ".filen.trash.local" || entry.basename == "System Volume Information") {
+						return false
+					}
+
+					// Links are never descended into here, they are emitted as file entries and followed in processEntry
+					if (entry.dirent && entry.dirent.isSymbolicLink()) {
+						return false
+					}
+
+					return true
+				},
+				fileFilter: ["!.filen.trash.local", "!System Volume Information"]
+			})) {
+				if (prefix.length > 0) {
+					item.path = prefix + "/" + item.path
+				}
+
+				processingPromises.push(processEntry(item, context))
+				activePromises++
+
+				if (activePromises >= concurrencyLimit) {
+					await chunkedPromiseAll(processingPromises)
+
+					processingPromises.length = 0
+					activePromises = 0
+				}
+			}
+
 			await chunkedPromiseAll(processingPromises)
+		}
+
+		if (scanRoots !== null) {
+			const roots: Record<string, boolean> = {}
+
+			for (const root of scanRoots) {
+				roots[root] = true
+			}
+
+			for (const entryPath in obj.files) {
+				if (roots[entryPath] || isBelowAny(entryPath, roots)) {
+					const ino = obj.files[entryPath].ino
 
-			processingPromises.length = 0
-			activePromises = 0
+					if (typeof obj.ino[ino] !== "undefined" && obj.ino[ino].path == entryPath) {
+						delete obj.ino[ino]
+					}
+
+					delete obj.files[entryPath]
+				}
+			}
+
+			for (const entryPath in obj.folders) {
+				if (roots[entryPath] || isBelowAny(entryPath, roots)) {
+					const ino = obj.folders[entryPath].ino
+
+					if (typeof obj.ino[ino] !== "undefined" && obj.ino[ino].path == entryPath) {
+						delete obj.ino[ino]
+					}
+
+					delete obj.folders[entryPath]
+				}
+			}
+
+			for (const root of scanRoots) {
+				if (root.split("/").some(part => part == ".filen.trash.local" || part == "System Volume Information")) {
+					continue
+				}
+
+				const fullPath = normalizePath(pathModule.join(path, root))
+
+				// Deleted paths only had to be removed from the cached tree
+				if (!(await exists(fullPath))) {
+					continue
+				}
+
+				await processEntry({
+					path: root,
+					fullPath,
+					basename: pathModule.basename(fullPath)
+				})
+
+				if (typeof obj.folders[root] !== "undefined") {
+					await walk(
+						{
+							root: fullPath,
+							realRoot: fullPath,
+							ancestors: [],
+							followed: false
+						},
+						root
+					)
+				}
+			}
+		} else {
+			await walk(rootContext, "")
+
+			LAST_FULL_LOCAL_SCAN[location.uuid] = {
+				timestamp: Date.now(),
+				signature
+			}
 		}
-	}
 
-	await chunkedPromiseAll(processingPromises)
-	await chunkedPromiseAll([db.set(cacheKey, obj), db.set("localDataChanged:" + location.uuid, false)])
+		reportSkippedSymlinks(location, symlinkMode, skippedLinks)
 
-	return {
-		changed: true,
-		data: obj
+		if (location.contentHash) {
+			await addContentHashes(path, obj.files, location)
+		}
+
+		await db.batch([
+			{ type: "set", key: cacheKey, value: obj },
+			{ type: "set", key: "localDataChanged:" + location.uuid, value: false }
+		])
+
+		return {
+			changed: true,
+			data: obj
+		}
+	} catch (e) {
+		requeueLocalChangedPaths(location.uuid, changedPaths, fullScanRequested)
+
+		throw e
 	}
 }
 
@@ -284,6 +750,18 @@ export const unlink = async (path: string): Promise<void> => {
 	return await invokeProxy("fsUnlink", path)
 }
 
+export const readLink = async (path: string): Promise<string> => {
+	return await invokeProxy("fsReadLink", path)
+}
+
+export const symlink = async (target: string, path: string, mtime: Date): Promise<void> => {
+	return await invokeProxy("fsSymlink", {
+		target,
+		path,
+		mtime
+	})
+}
+
 export const remove = async (path: string): Promise<void> => {
 	return await invokeProxy("fsRemove", path)
 }
@@ -317,18 +795,33 @@ export const download = (path: string, location: any, task: any): Promise<any> =
 			return reject(e)
 		}
 
-		getTempDir()
-			.then(tmpDir => {
-				try {
-					var fileTmpPath = normalizePath(pathModule.join(tmpDir, uuidv4()))
-				} catch (e) {
-					return reject(e)
-				}
+		const now = Date.now()
+		const lastModified = convertTimestampToMs(typeof file.metadata.lastModified == "number" ? file.metadata.lastModified : now)
+		const utimesLastModified = typeof lastModified == "number" && lastModified > 0 && now > lastModified ? lastModified : now - 60000
+
+		// Stored links have no content, we only recreate the link itself
+		if (typeof file.metadata.symlink == "string") {
+			if (!isSafeSymlinkTarget(location, path, file.metadata.symlink)) {
+				return reject(new Error("Unsafe symlink target " + file.metadata.symlink + " for " + absolutePath))
+			}
 
-				chunkedPromiseAll([rmPermanent(absolutePath), rmPermanent(fileTmpPath)])
-					.then(async () => {
+			symlink(file.metadata.symlink, absolutePath, new Date(utimesLastModified))
+				.then(() => gracefulLStat(absolutePath))
+				.then(resolve)
+				.catch(reject)
+
+			return
+		}
+
+		getPartialDownloadPath(file.uuid, absolutePath)
+			.then(fileTmpPath => {
+				Promise.all([rmPermanent(absolutePath), loadPartialDownload(fileTmpPath, file)])
+					.then(async ([_, partial]) => {
 						const fileChunks = file.chunks
-						let currentWriteIndex = 0
+						let currentWriteIndex = partial.written
+						let bytesWritten = partial.bytes
+						// Manifest writes are queued so they land in order and the last one is done before the file is moved into place
+						let manifestWrite: Promise<void> = Promise.resolve()
 
 						const downloadTask = (index: number): Promise<{ index: number; data: Buffer }> => {
 							return new Promise((resolve, reject) => {
@@ -364,6 +857,14 @@ export const download = (path: string, location: any, task: any): Promise<any> =
 							appendFile(fileTmpPath, data)
 								.then(() => {
 									currentWriteIndex += 1
+									bytesWritten += data.byteLength
+
+									const written = currentWriteIndex
+									const bytes = bytesWritten
+
+									manifestWrite = manifestWrite
+										.then(() => savePartialDownload(fileTmpPath, file, written, bytes))
+										.catch(log.error)
 								})
 								.catch(err => {
 									downloadThreadsSemaphore.purge()
@@ -374,9 +875,22 @@ export const download = (path: string, location: any, task: any): Promise<any> =
 
 						try {
 							await new Promise<void>((resolve, reject) => {
-								let done = 0
+								let done = currentWriteIndex
+
+								// Empty files have no chunks, we only need to create the file itself
+								if (fileChunks <= 0) {
+									appendFile(fileTmpPath, Buffer.alloc(0))
+										.then(() => resolve())
+										.catch(reject)
 
-								for (let i = 0; i < fileChunks; i++) {
+									return
+								}
+
+								if (done >= fileChunks) {
+									return resolve()
+								}
+
+								for (let i = currentWriteIndex; i < fileChunks; i++) {
 									downloadThreadsSemaphore.acquire().then(() => {
 										downloadTask(i)
 											.then(({ index, data }) => {
@@ -413,27 +927,23 @@ export const download = (path: string, location: any, task: any): Promise<any> =
 								}, 10)
 							})
 						} catch (e) {
-							unlink(fileTmpPath).catch(console.error)
-
+							// The partial file is kept so the next attempt can continue where this one stopped
 							return reject(e)
 						}
 
-						const now = Date.now()
-						const lastModified = convertTimestampToMs(
-							typeof file.metadata.lastModified == "number" ? file.metadata.lastModified : now
-						)
-						const utimesLastModified =
-							typeof lastModified == "number" && lastModified > 0 && now > lastModified ? lastModified : now - 60000
+						await manifestWrite
 
 						move(fileTmpPath, absolutePath)
 							.then(() => {
+								rmPermanent(fileTmpPath + ".json").catch(log.error)
+
 								utimes(absolutePath, new Date(utimesLastModified), new Date(utimesLastModified))
 									.then(() => {
 										checkLastModified(absolutePath)
 											.then(() => {
 												gracefulLStat(absolutePath)
 													.then((stat: any) => {
-														if (stat.size <= 0) {
+														if (stat.size <= 0 && fileChunks > 0) {
 															rmPermanent(absolutePath)
 
 															return reject(new Error(absolutePath + " size = " + stat.size))
@@ -635,9 +1145,9 @@ export const getApplyDoneTaskPath = async (locationUUID: string): Promise<string
 
 	const userDataPath = await ipc.getAppPath("userData")
 
-	await fs.ensureDir(pathModule.join(userDataPath, "data", "v" + APPLY_DONE_TASKS_VERSION))
+	await fs.ensureDir(pathModule.join(userDataPath, "data", APPLY_DONE_TASKS_DIR))
 
-	const path = pathModule.join(userDataPath, "data", "v" + APPLY_DONE_TASKS_VERSION, "applyDoneTasks_" + locationUUID)
+	const path = pathModule.join(userDataPath, "data", APPLY_DONE_TASKS_DIR, "applyDoneTasks_" + locationUUID)
 
 	APPLY_DONE_TASKS_PATH[locationUUID] = path
 
@@ -5,6 +5,7 @@ import {
 	folderExists,
 	uploadChunk,
 	markUploadAsDone,
+	uploadEmpty,
 	checkIfItemParentIsShared,
 	trashItem,
 	moveFile,
@@ -34,8 +35,9 @@ import { sendToAllPorts } from "../../worker/ipc"
 import { remoteStorageLeft } from "../../user/info"
 import { isSyncLocationPaused } from "../../worker/sync/sync.utils"
 import memoryCache from "../../memoryCache"
-import { RemoteItem, RemoteUUIDs, RemoteDirectoryTreeResult, Location } from "../../../../types"
+import { RemoteItem, RemoteUUIDs, RemoteDirectoryTreeResult, Location, UploadSession } from "../../../../types"
 import { Stats } from "fs-extra"
+import { DirTreeFolder, DirTreeFile } from "../../api/api.schema"
 import ipc from "../../ipc"
 
 const pathModule = window.require("path")
@@ -47,10 +49,116 @@ const createDirectorySemaphore = new Semaphore(1)
 const uploadThreadsSemaphore = new Semaphore(constants.maxUploadThreads)
 const folderPathUUID = new Map<string, string>()
 const trashSemaphore = new Semaphore(1)
+const uploadSessionsSemaphore = new Semaphore(1)
+let CLEAR_STALE_UPLOAD_SESSIONS_INTERVAL: NodeJS.Timer
 
 const UPLOAD_VERSION: number = 2
 const previousDatasets: Record<string, string> = {}
 
+export const getUploadSessionKey = (location: Location, path: string): string => {
+	return "uploadSession:" + location.uuid + ":" + path
+}
+
+// All session keys are tracked in a separate index so stale sessions can be found without reading the whole db.
+// The index is only written when a session is created or removed, progress only rewrites the session itself.
+export const saveUploadSession = async (sessionKey: string, session: UploadSession, created: boolean = false): Promise<void> => {
+	session.updated = Date.now()
+
+	await db.set(sessionKey, session)
+
+	if (!created) {
+		return
+	}
+
+	await uploadSessionsSemaphore.acquire()
+
+	try {
+		const sessions: Record<string, number> = (await db.get("uploadSessions")) || {}
+
+		sessions[sessionKey] = session.created
+
+		await db.set("uploadSessions", sessions)
+	} catch (e) {
+		log.error(e)
+	}
+
+	uploadSessionsSemaphore.release()
+}
+
+export const removeUploadSession = async (sessionKey: string): Promise<void> => {
+	await db.remove(sessionKey)
+
+	await uploadSessionsSemaphore.acquire()
+
+	try {
+		const sessions: Record<string, number> = (await db.get("uploadSessions")) || {}
+
+		if (typeof sessions[sessionKey] !== "undefined") {
+			delete sessions[sessionKey]
+
+			await db.set("uploadSessions", sessions)
+		}
+	} catch (e) {
+		log.error(e)
+	}
+
+	uploadSessionsSemaphore.release()
+}
+
+export const clearStaleUploadSessions = async (): Promise<void> => {
+	const sessions: Record<string, number> | null = await db.get("uploadSessions")
+
+	if (!sessions || typeof sessions !== "object") {
+		return
+	}
+
+	const now = Date.now()
+
+	// The index only knows when a session was created, long running uploads are still active if the session itself was updated recently
+	const stale = await chunkedPromiseAll(
+		Object.keys(sessions)
+			.filter(sessionKey => now - sessions[sessionKey] > constants.uploadSessionMaxAge)
+			.map(async sessionKey => {
+				const session: UploadSession | null = await db.get(sessionKey)
+
+				return session === null || typeof session.updated !== "number" || now - session.updated > constants.uploadSessionMaxAge
+					? sessionKey
+					: null
+			})
+	)
+
+	await chunkedPromiseAll(stale.filter((sessionKey): sessionKey is string => sessionKey !== null).map(removeUploadSession))
+}
+
+export const initUploadSessions = (): void => {
+	clearStaleUploadSessions().catch(log.error)
+
+	clearInterval(CLEAR_STALE_UPLOAD_SESSIONS_INTERVAL)
+
+	CLEAR_STALE_UPLOAD_SESSIONS_INTERVAL = setInterval(() => {
+		clearStaleUploadSessions().catch(log.error)
+	}, constants.clearStaleUploadSessionsInterval)
+}
+
+// A session can only be resumed if neither the file nor its remote parent changed since it was started
+const isResumableUploadSession = (
+	session: UploadSession | null,
+	{ parent, chunks, size, lastModified, stats }: { parent: string; chunks: number; size: number; lastModified: number; stats: Stats }
+): session is UploadSession => {
+	return (
+		session !== null &&
+		typeof session == "object" &&
+		Array.isArray(session.uploadedChunks) &&
+		session.parent == parent &&
+		session.chunks == chunks &&
+		session.size == size &&
+		session.lastModified == lastModified &&
+		session.ino == parseInt(stats.ino.toString()) &&
+		session.mtimeMs == parseInt(stats.mtimeMs.toString()) &&
+		Date.now() - session.updated <= constants.uploadSessionMaxAge
+	)
+}
+
 export const smokeTest = async (uuid: string): Promise<boolean> => {
 	const response = await folderPresent(uuid)
 
@@ -153,7 +261,7 @@ export const directoryTree = (uuid: string, skipCache: boolean = false, location
 						const uuidsToPaths: Record<string, string> = {}
 
 						const promises = [
-							...response.folders.map((folder: string[]) => {
+							...response.folders.map((folder: DirTreeFolder) => {
 								const [uuid, metadata, parent] = folder
 
 								return new Promise(resolve => {
@@ -236,7 +344,7 @@ export const directoryTree = (uuid: string, skipCache: boolean = false, location
 										.catch(resolve)
 								})
 							}),
-							...response.files.map((file: string[]) => {
+							...response.files.map((file: DirTreeFile) => {
 								const [uuid, bucket, region, chunks, parent, metadata, version, timestamp] = file
 
 								return new Promise(resolve => {
@@ -287,7 +395,9 @@ export const directoryTree = (uuid: string, skipCache: boolean = false, location
 														!pathValidation(entryPath) ||
 														pathIsFileOrFolderNameIgnoredByDefault(entryPath) ||
 														isFolderPathExcluded(entryPath) ||
-														isPathOverMaxLength(location.local + "/" + entryPath)
+														isPathOverMaxLength(location.local + "/" + entryPath) ||
+														(typeof decrypted.symlink == "string" &&
+															(location.symlinkMode !== "store" || process.platform == "win32"))
 													) {
 														include = false
 													}
@@ -583,6 +693,9 @@ export const upload = (path: string, remoteTreeNow: any, location: Location, tas
 											? Math.floor(checkLastModifiedRes.mtimeMs as number)
 											: Math.floor(task.item.lastModified)
 										const mime = mimeTypes.lookup(name) || ""
+										const hash =
+											!checkLastModifiedRes.changed && typeof task.item.hash == "string" ? task.item.hash : undefined
+										const symlink = typeof task.item.symlink == "string" ? task.item.symlink : undefined
 										let dummyOffset = 0
 										let fileChunks = 0
 
@@ -591,12 +704,36 @@ export const upload = (path: string, remoteTreeNow: any, location: Location, tas
 											dummyOffset += constants.chunkSize
 										}
 
+										const sessionKey = getUploadSessionKey(location, path)
+
 										try {
-											var key = generateRandomString(32)
-											var rm = generateRandomString(32)
-											var uploadKey = generateRandomString(32)
-											var [nameEnc, mimeEnc, sizeEnc, metaData, origStats]: [string, string, string, string, Stats] =
-												await Promise.all([
+											var origStats: Stats = await gracefulLStat(absolutePath)
+											var previousSession: UploadSession | null = await db.get(sessionKey)
+											var session: UploadSession | null = isResumableUploadSession(previousSession, {
+												parent,
+												chunks: fileChunks,
+												size,
+												lastModified,
+												stats: origStats
+											})
+												? previousSession
+												: null
+
+											if (session === null && previousSession !== null) {
+												await removeUploadSession(sessionKey)
+											}
+
+											var sessionPersisted: boolean = session !== null
+
+											if (session !== null) {
+												uuid = session.uuid
+											}
+
+											var key = session !== null ? session.key : generateRandomString(32)
+											var rm = session !== null ? session.rm : generateRandomString(32)
+											var uploadKey = session !== null ? session.uploadKey : generateRandomString(32)
+											var [nameEnc, mimeEnc, sizeEnc, metaData]: [string, string, string, string] = await Promise.all(
+												[
 													encryptMetadata(name, key),
 													encryptMetadata(mime, key),
 													encryptMetadata(size.toString(), key),
@@ -607,14 +744,16 @@ export const upload = (path: string, remoteTreeNow: any, location: Location, tas
 																size,
 																mime,
 																key,
-																lastModified
+																lastModified,
+																hash,
+																symlink
 															},
 															(_, value) => (typeof value == "bigint" ? parseInt(value.toString()) : value)
 														),
 														masterKeys[masterKeys.length - 1]
-													),
-													gracefulLStat(absolutePath)
-												])
+													)
+												]
+											)
 										} catch (e) {
 											log.error("Metadata generation failed for " + absolutePath)
 											log.error(e)
@@ -670,6 +809,9 @@ export const upload = (path: string, remoteTreeNow: any, location: Location, tas
 																})
 																	.then(response => {
 																		if (!response.status) {
+																			// The server did not accept the chunk, so the session cannot be resumed
+																			dropUploadSession()
+
 																			reject(new Error(response.message))
 
 																			return
@@ -685,20 +827,81 @@ export const upload = (path: string, remoteTreeNow: any, location: Location, tas
 											})
 										}
 
-										let region: string = ""
-										let bucket: string = ""
+										const dropUploadSession = (): void => {
+											if (!sessionPersisted) {
+												return
+											}
+
+											sessionPersisted = false
+
+											removeUploadSession(sessionKey).catch(log.error)
+										}
+
+										let region: string = session !== null ? session.region : ""
+										let bucket: string = session !== null ? session.bucket : ""
 
 										try {
 											await new Promise((resolve, reject) => {
-												let done = 0
+												// Empty files have no chunks to upload
+												if (fileChunks == 0) {
+													return resolve(true)
+												}
+
+												if (session === null) {
+													const now = Date.now()
+
+													session = {
+														uuid,
+														uploadKey,
+														key,
+														rm,
+														parent,
+														chunks: fileChunks,
+														uploadedChunks: [],
+														region: "",
+														bucket: "",
+														size,
+														lastModified,
+														ino: parseInt(origStats.ino.toString()),
+														mtimeMs: parseInt(origStats.mtimeMs.toString()),
+														created: now,
+														updated: now
+													}
+
+													// Single chunk files are cheaper to upload again than to track
+													if (fileChunks > 1) {
+														sessionPersisted = true
+
+														saveUploadSession(sessionKey, session, true).catch(log.error)
+													}
+												}
+
+												const currentSession: UploadSession = session
+												let done = currentSession.uploadedChunks.length
+
+												if (done >= fileChunks) {
+													return resolve(true)
+												}
 
 												for (let i = 0; i < fileChunks; i++) {
+													if (currentSession.uploadedChunks.includes(i)) {
+														continue
+													}
+
 													uploadThreadsSemaphore.acquire().then(() => {
 														uploadTask(i)
 															.then((data: any) => {
 																region = data.region
 																bucket = data.bucket
 
+																currentSession.uploadedChunks.push(i)
+																currentSession.region = region
+																currentSession.bucket = bucket
+
+																if (sessionPersisted) {
+																	saveUploadSession(sessionKey, currentSession).catch(log.error)
+																}
+
 																done += 1
 
 																uploadThreadsSemaphore.release()
@@ -736,19 +939,38 @@ export const upload = (path: string, remoteTreeNow: any, location: Location, tas
 												return reject("parentMissing")
 											}
 
-											const doneRes = await markUploadAsDone({
-												uuid,
-												name: nameEnc,
-												nameHashed,
-												size: sizeEnc,
-												chunks: fileChunks,
-												mime: mimeEnc,
-												rm,
-												metadata: metaData,
-												version: UPLOAD_VERSION,
-												uploadKey
+											const doneRes = await (fileChunks == 0
+												? uploadEmpty({
+														uuid,
+														name: nameEnc,
+														nameHashed,
+														size: sizeEnc,
+														parent,
+														mime: mimeEnc,
+														metadata: metaData,
+														version: UPLOAD_VERSION
+												  })
+												: markUploadAsDone({
+														uuid,
+														name: nameEnc,
+														nameHashed,
+														size: sizeEnc,
+														chunks: fileChunks,
+														mime: mimeEnc,
+														rm,
+														metadata: metaData,
+														version: UPLOAD_VERSION,
+														uploadKey
+												  })
+											).catch(err => {
+												// Finishing failed even though all chunks are there, start over with a new session next time
+												dropUploadSession()
+
+												throw err
 											})
 
+											dropUploadSession()
+
 											fileChunks = doneRes.chunks
 										} catch (e: any) {
 											if (!(await doesExistLocally(absolutePath))) {
@@ -766,6 +988,8 @@ export const upload = (path: string, remoteTreeNow: any, location: Location, tas
 											}
 
 											if (e.toString().toLowerCase().indexOf("already exists") !== -1) {
+												dropUploadSession()
+
 												return resolve(true)
 											}
 
@@ -794,7 +1018,9 @@ export const upload = (path: string, remoteTreeNow: any, location: Location, tas
 											size,
 											mime,
 											key,
-											lastModified
+											lastModified,
+											...(typeof hash == "string" ? { hash } : {}),
+											...(typeof symlink == "string" ? { symlink } : {})
 										})
 
 										ipc.setFileKey(uuid, key).catch(log.error)
@@ -811,7 +1037,9 @@ export const upload = (path: string, remoteTreeNow: any, location: Location, tas
 												name,
 												size,
 												mime,
-												lastModified
+												lastModified,
+												...(typeof hash == "string" ? { hash } : {}),
+												...(typeof symlink == "string" ? { symlink } : {})
 											}
 										})
 									})
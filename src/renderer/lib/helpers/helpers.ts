@@ -310,7 +310,8 @@ export const Semaphore = function (this: SemaphoreInterface, max: number) {
 		}
 	}
 
-	this.acquire = function () {
+	// Waiters with a higher priority are served first, waiters of the same priority in order of arrival
+	this.acquire = function (priority: number = 0) {
 		if (counter < maxCount) {
 			counter++
 			return new Promise(resolve => {
@@ -318,7 +319,13 @@ export const Semaphore = function (this: SemaphoreInterface, max: number) {
 			})
 		} else {
 			return new Promise((resolve, err) => {
-				waiting.push({ resolve: resolve, err: err })
+				let index = waiting.length
+
+				while (index > 0 && waiting[index - 1].priority < priority) {
+					index--
+				}
+
+				waiting.splice(index, 0, { resolve: resolve, err: err, priority })
 			})
 		}
 	}
@@ -188,7 +188,141 @@ const en: {
 	possibleSolutionELOOP: "Please make sure your local sync location does not contain symlinks that result into infinite loops.",
 	possibleSolutionENAMETOOLONG: "File name or path too long. Please reduce the length to a value supported by your operating system.",
 	issue: "Issue",
-	path: "Path"
+	path: "Path",
+	endpoints: "Endpoints",
+	endpointsDefault: "Default",
+	endpointsCustom: "Custom",
+	apiEndpoint: "API endpoint",
+	uploadEndpoint: "Upload endpoint",
+	downloadEndpoint: "Download endpoint",
+	caBundlePath: "CA bundle path",
+	endpointsInfo: "Leave a field empty to use the default Filen servers. The CA bundle is only used for https endpoints",
+	invalidEndpointURL: "Invalid endpoint URL: __URL__",
+	conflictMode: "Conflicts",
+	conflictModeInfo:
+		"What to do when a file changed both locally and remotely since the last sync. Keep both saves the local version as a conflicted copy next to the remote version",
+	conflictModeKeepBoth: "Keep both",
+	conflictModePreferLocal: "Prefer local",
+	conflictModePreferRemote: "Prefer remote",
+	conflictModeAsk: "Ask me",
+	keepLocal: "Keep local",
+	keepRemote: "Keep remote",
+	keepBoth: "Keep both",
+	showInFolder: "Show in folder",
+	showConflictedCopy: "Show copy",
+	contentHash: "Content hashing",
+	contentHashInfo:
+		"Compare file contents instead of only modification times. Touched or restored files with unchanged content will not be transferred again. Uses more disk reads while scanning",
+	symlinkMode: "Symlinks",
+	symlinkModeInfo:
+		"Skip ignores symlinks. Follow syncs the files a symlink points to, as long as they are inside the sync location. Store syncs the link itself and recreates it on other Linux and macOS devices.",
+	symlinkModeSkip: "Skip",
+	symlinkModeFollow: "Follow",
+	symlinkModeStore: "Store as link",
+	syncPreview: "Preview sync",
+	syncPreviewInitial:
+		"This location has not been synced yet. The first cycle only records the current state of both sides without transferring anything.",
+	syncPreviewNothing: "Nothing to do, both sides are in sync.",
+	syncPreviewMore: "__COUNT__ more",
+	syncPreviewApply: "Apply",
+	syncPreviewUploadToRemote: "Uploads",
+	syncPreviewDownloadFromRemote: "Downloads",
+	syncPreviewRenameInRemote: "Renames in the cloud",
+	syncPreviewRenameInLocal: "Renames on this computer",
+	syncPreviewMoveInRemote: "Moves in the cloud",
+	syncPreviewMoveInLocal: "Moves on this computer",
+	syncPreviewDeleteInRemote: "Deletions in the cloud",
+	syncPreviewDeleteInLocal: "Deletions on this computer",
+	massDeletionNotificationTitle: "Deletions on hold",
+	massDeletionNotificationBody: "__COUNT__ deletions in __PATH__ are waiting for your confirmation",
+	massDeletionConfirm: "Confirm deletion",
+	massDeletionDiscard: "Discard",
+	massDeletionThresholdCount: "Hold deletions above",
+	massDeletionThresholdPercent: "Hold deletions above (share of files)",
+	massDeletionThresholdDisabled: "Disabled",
+	dbMigrationFailed:
+		"Updating the local database failed at step __VERSION__ (__DESCRIPTION__): __MESSAGE__. A backup was kept, the update will be retried on the next start.",
+	dbCorruptEntries: "__COUNT__ entries of the local database could not be read and were skipped: __FILES__",
+	proxy: "Proxy",
+	proxyMode: "Mode",
+	proxyModeNone: "No proxy",
+	proxyModeSystem: "System proxy",
+	proxyModeHTTP: "HTTP(S)",
+	proxyModeSOCKS5: "SOCKS5",
+	proxyHost: "Host",
+	proxyPort: "Port",
+	proxyUsername: "Username (optional)",
+	proxyPassword: "Password (optional)",
+	proxyBypass: "Bypass list (comma separated)",
+	proxyInfo:
+		"Used for all connections to Filen. The bypass list accepts hosts like intranet or *.example.com and <local> for hosts without a dot. Loopback addresses are never proxied. Authentication is not supported by SOCKS5 proxies for in-app windows.",
+	invalidProxy: "Please enter a valid proxy host and port",
+	bandwidthSchedule: "Bandwidth schedule",
+	bandwidthScheduleOff: "Off",
+	bandwidthScheduleRules: "__COUNT__ rules",
+	bandwidthScheduleStart: "From",
+	bandwidthScheduleEnd: "Until",
+	bandwidthScheduleUpload: "Upload (Kbps)",
+	bandwidthScheduleDownload: "Download (Kbps)",
+	bandwidthScheduleAddRule: "Add rule",
+	bandwidthScheduleRemoveRule: "Remove",
+	bandwidthScheduleInfo:
+		"The first matching rule replaces the default throttling while it is active. Rules ending before they start run past midnight. 0 Kbps means unlimited.",
+	bandwidthScheduleActive: "__UP__ up, __DOWN__ down until __END__",
+	invalidBandwidthSchedule: "Every rule needs at least one day and different start and end times",
+	locationPriority: "Priority",
+	locationPriorityInfo: "Locations with a higher priority get their changes synced first during every sync cycle.",
+	locationPriorityHigh: "High",
+	locationPriorityNormal: "Normal",
+	locationPriorityLow: "Low",
+	locationUploadKbps: "Maximum upload bandwidth (Kbps)",
+	locationDownloadKbps: "Maximum download bandwidth (Kbps)",
+	locationMaxConcurrentUploads: "Maximum concurrent uploads",
+	locationMaxConcurrentDownloads: "Maximum concurrent downloads",
+	meteredPolicy: "On metered networks",
+	meteredPolicyUnsupported: "Not supported on macOS",
+	batteryPolicy: "On battery power",
+	batteryPolicyThreshold: "Battery policy below",
+	transferPolicyNone: "Sync normally",
+	transferPolicyPause: "Pause transfers",
+	transferPolicyThrottle: "Throttle transfers",
+	transferPolicyAlways: "Always",
+	transferPolicyPausedBattery: "Transfers paused while on battery power",
+	transferPolicyPausedMetered: "Transfers paused on a metered network",
+	transferPolicyThrottledBattery: "Transfers throttled while on battery power",
+	transferPolicyThrottledMetered: "Transfers throttled on a metered network",
+	locationPollingInterval: "Polling interval (s)",
+	locationPollingIntervalInfo:
+		"How often the folder is checked for changes when it is polled, for example on network drives or when the Linux inotify watch limit is reached. Leave empty for a random interval between 30 and 60 seconds.",
+	locationWatcherMode: "Change detection",
+	locationWatcherModeInfo:
+		"Native uses the file watcher of the operating system. Polling compares file sizes and modification times in the polling interval, which is more reliable on network drives (SMB, NFS, sshfs). Hybrid uses both. Auto polls network drives and watches everything else natively.",
+	locationWatcherModeAuto: "Auto",
+	locationWatcherModeNative: "Native",
+	locationWatcherModePolling: "Polling",
+	locationWatcherModeHybrid: "Hybrid",
+	settingsHistory: "History",
+	historySearchPlaceholder: "Search by path",
+	historyAllLocations: "All locations",
+	historyNoEntries: "No sync history yet",
+	historyChangedLocally: "Changed locally",
+	historyChangedRemotely: "Changed remotely",
+	historyFailed: "Failed",
+	historyLoadMore: "Load more",
+	activitySearchPlaceholder: "Search activity",
+	activityFilters: "Filters",
+	activityFilterAllTypes: "All types",
+	activityFilterAllStatuses: "All statuses",
+	activityFilterRunning: "Running",
+	activityFilterDone: "Done",
+	activityFilterAnyTime: "Any time",
+	activityFilterLastHour: "Last hour",
+	activityFilterLast24Hours: "Last 24 hours",
+	activityFilterLast7Days: "Last 7 days",
+	activityFilterLast30Days: "Last 30 days",
+	noActivityMatchesFilters: "No activity matches your filters",
+	openInWeb: "Open in web",
+	openInWebNotFound: "This item could not be found in the web app yet, try again after the next sync"
 }
 
 export default en
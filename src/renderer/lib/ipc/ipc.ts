@@ -2,12 +2,58 @@ import eventListener from "../eventListener"
 import { v4 as uuidv4 } from "uuid"
 import db from "../db"
 import { sendToAllPorts } from "../worker/ipc"
-import { SyncIssue, Location } from "../../../types"
+import { SyncIssue, Location, DbMigrationStatus, DbOperation, TransferPolicy, HistoryEntry, HistoryQuery } from "../../../types"
 
 const { ipcRenderer } = window.require("electron")
 const log = window.require("electron-log")
 
 const DEBOUNCE_WATCHER_EVENT: Record<string, NodeJS.Timer> = {}
+const WATCHER_EVENT_PATHS: Record<string, { paths: Record<string, boolean>; fullScan: boolean }> = {}
+const LOCAL_CHANGED_PATHS: Record<string, { paths: Record<string, boolean>; fullScan: boolean }> = {}
+
+const addChangedPaths = (
+	store: Record<string, { paths: Record<string, boolean>; fullScan: boolean }>,
+	locationUUID: string,
+	paths: string[],
+	fullScan: boolean
+): void => {
+	if (typeof store[locationUUID] == "undefined") {
+		store[locationUUID] = {
+			paths: {},
+			fullScan: false
+		}
+	}
+
+	for (const path of paths) {
+		store[locationUUID].paths[path] = true
+	}
+
+	store[locationUUID].fullScan = store[locationUUID].fullScan || fullScan
+}
+
+// Absolute paths the watcher reported since the last local scan, so the scan only has to re-stat what changed
+export const takeLocalChangedPaths = (locationUUID: string): { paths: string[]; fullScan: boolean } => {
+	const changed = LOCAL_CHANGED_PATHS[locationUUID]
+
+	delete LOCAL_CHANGED_PATHS[locationUUID]
+
+	if (typeof changed == "undefined") {
+		return {
+			paths: [],
+			fullScan: false
+		}
+	}
+
+	return {
+		paths: Object.keys(changed.paths),
+		fullScan: changed.fullScan
+	}
+}
+
+// Puts paths taken by a local scan that failed back, merged with whatever the watcher reported in the meantime
+export const requeueLocalChangedPaths = (locationUUID: string, paths: string[], fullScan: boolean): void => {
+	addChangedPaths(LOCAL_CHANGED_PATHS, locationUUID, paths, fullScan)
+}
 
 export const decodeError = ({ name, message, extra }: { name: string; message: string; extra: any }) => {
 	const e = new Error(message)
@@ -58,7 +104,8 @@ const handleGlobalMessage = (data: any) => {
 		data.type == "syncStatusLocation" ||
 		data.type == "downloadProgressSeperate" ||
 		data.type == "uploadProgressSeperate" ||
-		data.type == "syncTasksToDo"
+		data.type == "syncTasksToDo" ||
+		data.type == "syncPreview"
 	) {
 		eventListener.emit(data.type, data.data)
 	} else if (type == "forceSync" && window.location.href.indexOf("#worker") !== -1) {
@@ -98,11 +145,22 @@ const handleGlobalMessage = (data: any) => {
 					.catch(console.error)
 			})
 			.catch(console.error)
+	} else if (type == "requestSyncPreview" && window.location.href.indexOf("#worker") !== -1) {
+		eventListener.emit("requestSyncPreview", data.data)
+	} else if (type == "headlessLogin" && window.location.href.indexOf("#worker") !== -1) {
+		eventListener.emit("headlessLogin", data.data)
 	} else if (type == "doneTasksCleared") {
 		eventListener.emit("doneTasksCleared")
 	} else if (type == "watcher-event" && window.location.href.indexOf("#worker") !== -1) {
 		const locationUUID: string = data.data.locationUUID
 
+		// Dummy events come from the polling fallback and watcher restarts, they do not say what changed
+		if (data.data.event == "dummy" || typeof data.data.name !== "string") {
+			addChangedPaths(WATCHER_EVENT_PATHS, locationUUID, [], true)
+		} else {
+			addChangedPaths(WATCHER_EVENT_PATHS, locationUUID, [data.data.name], false)
+		}
+
 		clearTimeout(DEBOUNCE_WATCHER_EVENT[locationUUID])
 
 		DEBOUNCE_WATCHER_EVENT[locationUUID] = setTimeout(() => {
@@ -113,6 +171,14 @@ const handleGlobalMessage = (data: any) => {
 					resolve()
 				})
 			}).then(() => {
+				const pending = WATCHER_EVENT_PATHS[locationUUID]
+
+				delete WATCHER_EVENT_PATHS[locationUUID]
+
+				if (typeof pending !== "undefined") {
+					addChangedPaths(LOCAL_CHANGED_PATHS, locationUUID, Object.keys(pending.paths), pending.fullScan)
+				}
+
 				db.set("localDataChanged:" + locationUUID, true)
 					.then(() => {
 						sendToAllPorts({
@@ -208,6 +274,38 @@ const ipc = {
 			text
 		})
 	},
+	resolveProxy: (url: string): Promise<string> => {
+		return invokeProxy("resolveProxy", {
+			url
+		})
+	},
+	applyProxySettings: (): Promise<void> => {
+		return invokeProxy("applyProxySettings")
+	},
+	evaluateTransferPolicy: (): Promise<TransferPolicy> => {
+		return invokeProxy("evaluateTransferPolicy")
+	},
+	getDbMigrationStatus: (): Promise<DbMigrationStatus> => {
+		return invokeProxy("getDbMigrationStatus")
+	},
+	dbBatch: (operations: DbOperation[]): Promise<void> => {
+		return invokeProxy("dbBatch", {
+			operations
+		})
+	},
+	queryHistory: (query: HistoryQuery = {}): Promise<HistoryEntry[]> => {
+		return invokeProxy("queryHistory", query)
+	},
+	clearHistory: (): Promise<void> => {
+		return invokeProxy("clearHistory")
+	},
+	showTrayNotification: (title: string, body: string, page?: string): Promise<void> => {
+		return invokeProxy("showTrayNotification", {
+			title,
+			body,
+			page
+		})
+	},
 	getFileIconName: (name: string = "name"): Promise<string> => {
 		return invokeProxy("getFileIconName", {
 			name
@@ -0,0 +1,114 @@
+import constants from "../../../constants.json"
+
+// The circuit breaker state lives in the module, every test starts from a fresh copy
+let retry: typeof import("./retry")
+
+beforeEach(() => {
+	jest.resetModules()
+
+	retry = require("./retry")
+})
+
+afterEach(() => {
+	jest.restoreAllMocks()
+})
+
+describe("parseRetryAfter", () => {
+	it("reads seconds", () => {
+		expect(retry.parseRetryAfter("120")).toBe(120000)
+		expect(retry.parseRetryAfter(" 0 ")).toBe(0)
+		expect(retry.parseRetryAfter("-5")).toBe(0)
+	})
+
+	it("reads HTTP dates", () => {
+		jest.spyOn(Date, "now").mockReturnValue(Date.parse("Wed, 21 Oct 2015 07:28:00 GMT"))
+
+		expect(retry.parseRetryAfter("Wed, 21 Oct 2015 07:28:30 GMT")).toBe(30000)
+		expect(retry.parseRetryAfter("Wed, 21 Oct 2015 07:27:00 GMT")).toBe(0)
+	})
+
+	it("ignores missing and malformed headers", () => {
+		expect(retry.parseRetryAfter(undefined)).toBeNull()
+		expect(retry.parseRetryAfter("")).toBeNull()
+		expect(retry.parseRetryAfter(["1", "2"])).toBeNull()
+		expect(retry.parseRetryAfter("soon")).toBeNull()
+	})
+})
+
+describe("getRetryDelay", () => {
+	it("prefers Retry-After, capped at the maximum", () => {
+		expect(retry.getRetryDelay(1, 5000)).toBe(5000)
+		expect(retry.getRetryDelay(1, constants.maxRetryAPIRequestTimeout * 2)).toBe(constants.maxRetryAPIRequestTimeout)
+	})
+
+	it("backs off exponentially with jitter", () => {
+		jest.spyOn(Math, "random").mockReturnValue(0.999999)
+
+		expect(retry.getRetryDelay(1)).toBe(constants.retryAPIRequestTimeout - 1)
+		expect(retry.getRetryDelay(3)).toBe(constants.retryAPIRequestTimeout * 4 - 1)
+		expect(retry.getRetryDelay(100)).toBe(constants.maxRetryAPIRequestTimeout - 1)
+	})
+
+	it("never drops below a quarter of the base timeout", () => {
+		jest.spyOn(Math, "random").mockReturnValue(0)
+
+		expect(retry.getRetryDelay(5)).toBe(constants.retryAPIRequestTimeout / 4)
+	})
+})
+
+describe("acquireAPIRequest", () => {
+	const openCircuit = () => {
+		for (let i = 0; i < constants.apiCircuitBreakerThreshold; i++) {
+			retry.recordAPIFailure()
+		}
+	}
+
+	it("lets requests through while the circuit is closed", () => {
+		retry.recordAPIFailure()
+
+		expect(retry.acquireAPIRequest()).toEqual({ wait: 0, probe: false })
+	})
+
+	it("makes requests wait for the cooldown once the circuit opens", () => {
+		const now = Date.now()
+
+		jest.spyOn(Date, "now").mockReturnValue(now)
+		openCircuit()
+
+		expect(retry.isAPICircuitOpen()).toBe(true)
+		expect(retry.acquireAPIRequest()).toEqual({ wait: constants.apiCircuitBreakerCooldown, probe: false })
+	})
+
+	it("sends exactly one probe after the cooldown", () => {
+		const now = Date.now()
+		const clock = jest.spyOn(Date, "now").mockReturnValue(now)
+
+		openCircuit()
+		clock.mockReturnValue(now + constants.apiCircuitBreakerCooldown)
+
+		expect(retry.acquireAPIRequest()).toEqual({ wait: 0, probe: true })
+		expect(retry.acquireAPIRequest()).toEqual({ wait: constants.retryAPIRequestTimeout, probe: false })
+
+		retry.releaseAPIProbe()
+
+		expect(retry.acquireAPIRequest()).toEqual({ wait: 0, probe: true })
+
+		retry.recordAPISuccess()
+
+		expect(retry.acquireAPIRequest()).toEqual({ wait: 0, probe: false })
+	})
+
+	it("opens the circuit again when the probe fails", () => {
+		const now = Date.now()
+		const clock = jest.spyOn(Date, "now").mockReturnValue(now)
+
+		openCircuit()
+		clock.mockReturnValue(now + constants.apiCircuitBreakerCooldown)
+
+		expect(retry.acquireAPIRequest().probe).toBe(true)
+
+		retry.recordAPIFailure()
+
+		expect(retry.acquireAPIRequest()).toEqual({ wait: constants.apiCircuitBreakerCooldown, probe: false })
+	})
+})
@@ -0,0 +1,108 @@
+import constants from "../../../constants.json"
+
+const log = window.require("electron-log")
+
+let consecutiveFailures: number = 0
+let circuitOpenUntil: number = 0
+let probeInFlight: boolean = false
+
+// 4xx responses will not succeed by asking again, except for timeouts and rate limits
+export const isRetryableStatus = (statusCode: number): boolean => {
+	if ([408, 425, 429].includes(statusCode)) {
+		return true
+	}
+
+	return statusCode >= 500 && statusCode !== 501 && statusCode !== 505
+}
+
+// Retry-After is either a number of seconds or a HTTP date
+export const parseRetryAfter = (header: string | string[] | undefined): number | null => {
+	if (typeof header !== "string" || header.trim().length == 0) {
+		return null
+	}
+
+	const seconds = Number(header.trim())
+
+	if (!isNaN(seconds)) {
+		return Math.max(seconds * 1000, 0)
+	}
+
+	const date = Date.parse(header)
+
+	if (isNaN(date)) {
+		return null
+	}
+
+	return Math.max(date - Date.now(), 0)
+}
+
+// Exponential backoff with full jitter, a Retry-After from the server takes precedence
+export const getRetryDelay = (attempt: number, retryAfter: number | null = null): number => {
+	if (retryAfter !== null) {
+		return Math.min(retryAfter, constants.maxRetryAPIRequestTimeout)
+	}
+
+	const ceiling = Math.min(constants.retryAPIRequestTimeout * Math.pow(2, Math.max(attempt - 1, 0)), constants.maxRetryAPIRequestTimeout)
+
+	return Math.max(Math.floor(Math.random() * ceiling), constants.retryAPIRequestTimeout / 4)
+}
+
+export const recordAPIFailure = (): void => {
+	consecutiveFailures += 1
+
+	if (consecutiveFailures >= constants.apiCircuitBreakerThreshold) {
+		if (!isAPICircuitOpen()) {
+			log.error("API failing persistently (" + consecutiveFailures + " consecutive failures), pausing requests")
+		}
+
+		circuitOpenUntil = Date.now() + constants.apiCircuitBreakerCooldown
+	}
+
+	probeInFlight = false
+}
+
+export const recordAPISuccess = (): void => {
+	if (consecutiveFailures >= constants.apiCircuitBreakerThreshold) {
+		log.info("API recovered, resuming requests")
+	}
+
+	consecutiveFailures = 0
+	circuitOpenUntil = 0
+	probeInFlight = false
+}
+
+export const isAPICircuitOpen = (): boolean => {
+	return getAPICircuitOpenFor() > 0
+}
+
+// Milliseconds until the next request may be sent to find out whether the API recovered
+export const getAPICircuitOpenFor = (): number => {
+	return Math.max(circuitOpenUntil - Date.now(), 0)
+}
+
+// Once the cooldown is over the circuit is half open: exactly one request goes out as a probe and every other one keeps waiting
+// until recordAPISuccess() closes the circuit or recordAPIFailure() opens it again
+export const acquireAPIRequest = (): { wait: number; probe: boolean } => {
+	if (circuitOpenUntil === 0) {
+		return { wait: 0, probe: false }
+	}
+
+	const openFor = getAPICircuitOpenFor()
+
+	if (openFor > 0) {
+		return { wait: openFor, probe: false }
+	}
+
+	if (probeInFlight) {
+		return { wait: constants.retryAPIRequestTimeout, probe: false }
+	}
+
+	probeInFlight = true
+
+	return { wait: 0, probe: true }
+}
+
+// For a probe that ended without telling us anything about the API's health, so the next waiting request can probe instead
+export const releaseAPIProbe = (): void => {
+	probeInFlight = false
+}
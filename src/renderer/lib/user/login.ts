@@ -0,0 +1,66 @@
+import { login, authInfo, userInfo } from "../api"
+import { generatePasswordAndMasterKeysBasedOnAuthVersion } from "../crypto"
+import db from "../db"
+
+// Same flow as the auth window, without any UI. Used by headless mode.
+export const loginWithCredentials = async ({
+	email,
+	password,
+	twoFactorCode
+}: {
+	email: string
+	password: string
+	twoFactorCode?: string
+}): Promise<void> => {
+	const emailToSend = email.trim()
+
+	if (!emailToSend || !password.trim()) {
+		throw new Error("Invalid email or password")
+	}
+
+	const { authVersion, salt } = await authInfo({ email: emailToSend })
+	const { derivedPassword, derivedMasterKeys } = await generatePasswordAndMasterKeysBasedOnAuthVersion({
+		rawPassword: password.trim(),
+		authVersion,
+		salt
+	})
+
+	const loginResponse = await login({
+		email: emailToSend,
+		password: derivedPassword,
+		twoFactorCode: typeof twoFactorCode == "string" && twoFactorCode.trim().length > 0 ? twoFactorCode.trim() : "XXXXXX",
+		authVersion
+	})
+
+	const userInfoResponse = await userInfo(loginResponse.apiKey)
+
+	await Promise.all([
+		db.set("apiKey", loginResponse.apiKey),
+		db.set("email", emailToSend),
+		db.set("userId", userInfoResponse.id),
+		db.set("masterKeys", [derivedMasterKeys]),
+		db.set("authVersion", authVersion),
+		db.set("isLoggedIn", true)
+	])
+}
+
+// The API key alone can't decrypt anything, so the master keys have to be provided alongside it
+export const loginWithApiKey = async ({ apiKey, masterKeys }: { apiKey: string; masterKeys: string[] }): Promise<void> => {
+	if (!apiKey.trim()) {
+		throw new Error("Invalid API key")
+	}
+
+	if (masterKeys.length == 0) {
+		throw new Error("No master keys provided")
+	}
+
+	const userInfoResponse = await userInfo(apiKey.trim())
+
+	await Promise.all([
+		db.set("apiKey", apiKey.trim()),
+		db.set("email", userInfoResponse.email),
+		db.set("userId", userInfoResponse.id),
+		db.set("masterKeys", masterKeys),
+		db.set("isLoggedIn", true)
+	])
+}
@@ -1,6 +1,7 @@
-import { Delta, Location } from "../../../../types"
-import { getSyncMode } from "./sync.utils"
+import { Delta, Location, ConflictModes, SyncConflict, SyncModes } from "../../../../types"
+import { getSyncMode, getConflictMode, getConflictCopyPath, getPathAfterFolderMoves } from "./sync.utils"
 import { v4 as uuidv4 } from "uuid"
+import db from "../../db"
 
 const pathModule = window.require("path")
 
@@ -24,6 +25,10 @@ export const getDeltas = async (type: "local" | "remote", before: any, now: any)
 				deltasFiles[path] = {
 					type: "NEW"
 				}
+			} else if (typeof beforeEntry?.hash == "string" && typeof nowEntry?.hash == "string") {
+				deltasFiles[path] = {
+					type: beforeEntry.hash == nowEntry.hash ? "UNCHANGED" : "NEWER"
+				}
 			} else if ((beforeEntry?.lastModified || 0) == (nowEntry?.lastModified || 0)) {
 				deltasFiles[path] = {
 					type: "UNCHANGED"
@@ -164,6 +169,10 @@ export const getDeltas = async (type: "local" | "remote", before: any, now: any)
 				deltasFiles[path] = {
 					type: "NEW"
 				}
+			} else if (typeof beforeEntry?.metadata?.hash == "string" && typeof nowEntry?.metadata?.hash == "string") {
+				deltasFiles[path] = {
+					type: beforeEntry.metadata.hash == nowEntry.metadata.hash ? "UNCHANGED" : "NEWER"
+				}
 			} else if ((beforeEntry?.metadata?.lastModified || 0) == (nowEntry?.metadata?.lastModified || 0)) {
 				deltasFiles[path] = {
 					type: "UNCHANGED"
@@ -303,7 +312,8 @@ export const consumeDeltas = async ({
 	lastRemoteTree,
 	localTreeNow,
 	remoteTreeNow,
-	location
+	location,
+	syncModeOverride
 }: {
 	localDeltas: any
 	remoteDeltas: any
@@ -312,8 +322,14 @@ export const consumeDeltas = async ({
 	localTreeNow: any
 	remoteTreeNow: any
 	location: Location
+	syncModeOverride?: SyncModes
 }): Promise<any> => {
-	const syncMode = await getSyncMode(location)
+	const [syncMode, conflictMode, conflictResolutions] = await Promise.all([
+		typeof syncModeOverride == "string" ? syncModeOverride : getSyncMode(location),
+		getConflictMode(location),
+		db.get("conflictResolutions:" + location.uuid)
+	])
+	const conflicts: SyncConflict[] = []
 	const uploadToRemote: any[] = []
 	const downloadFromRemote: any[] = []
 	const renameInLocal: any[] = []
@@ -514,9 +530,11 @@ export const consumeDeltas = async ({
 		const localDelta = localDeltas.files[path]?.type
 		const remoteDelta = remoteDeltas.files[path]?.type
 		const existsInRemote = typeof remoteDeltas.files[path] !== "undefined"
-		const localLastModified = localTreeNow[path]?.lastModified
-		const remoteLastModified = remoteTreeNow[path]?.metadata.lastModified
-		const sameLastModified = localLastModified === remoteTreeNow[path]?.metadata?.lastModified
+		const localLastModified = localTreeNow.files[path]?.lastModified
+		const remoteLastModified = remoteTreeNow.files[path]?.metadata?.lastModified
+		const sameLastModified = localLastModified === remoteLastModified
+		const localHash = localTreeNow.files[path]?.hash
+		const sameContent = typeof localHash == "string" && localHash === remoteTreeNow.files[path]?.metadata?.hash
 
 		if (localDelta == "RENAMED_MOVED" && !addedToList[path]) {
 			addedToList[path] = true
@@ -597,10 +615,39 @@ export const consumeDeltas = async ({
 			continue
 		}
 
-		if (localDelta == "NEW" && remoteDelta == "NEW" && !sameLastModified && !addedToList[path]) {
+		if ((localDelta == "NEW" || localDelta == "NEWER") && sameContent && !addedToList[path]) {
+			// Both sides already hold the same content, no need to transfer anything
+			addedToList[path] = true
+
+			continue
+		}
+
+		if (
+			((localDelta == "NEW" && remoteDelta == "NEW") || (localDelta == "NEWER" && remoteDelta == "NEWER")) &&
+			!sameLastModified &&
+			!addedToList[path]
+		) {
 			addedToList[path] = true
 
-			if (localLastModified > remoteLastModified) {
+			// Both sides changed since the last cycle. Only two way syncs can conflict, other modes let the newest version win
+			const mode: ConflictModes =
+				syncMode !== "twoWay"
+					? localLastModified > remoteLastModified
+						? "preferLocal"
+						: "preferRemote"
+					: conflictResolutions !== null && typeof conflictResolutions == "object" && typeof conflictResolutions[path] == "string"
+					? conflictResolutions[path]
+					: conflictMode
+
+			const conflict: SyncConflict = {
+				locationUUID: location.uuid,
+				path,
+				localPath: pathModule.normalize(location.local + "/" + path),
+				remotePath: location.remote + "/" + path,
+				mode
+			}
+
+			if (mode == "preferLocal") {
 				uploadToRemote.push({
 					uuid: uuidv4(),
 					path,
@@ -610,45 +657,52 @@ export const consumeDeltas = async ({
 						uuid: uuidv4()
 					}
 				})
-
-				continue
-			} else {
+			} else if (mode == "preferRemote") {
 				downloadFromRemote.push({
 					uuid: uuidv4(),
 					path,
 					type: "file",
 					item: remoteTreeNow.files[path]
 				})
+			} else if (mode == "keepBoth") {
+				// Move the local version out of the way, upload it under its new name and download the remote version to the original path
+				const conflictPath = getConflictCopyPath(path, [localTreeNow.files, remoteTreeNow.files])
 
-				continue
-			}
-		}
+				conflict.conflictPath = pathModule.normalize(location.local + "/" + conflictPath)
 
-		if (localDelta == "NEWER" && remoteDelta == "NEWER" && !sameLastModified && !addedToList[path]) {
-			addedToList[path] = true
+				renameInLocal.push({
+					uuid: uuidv4(),
+					path,
+					type: "file",
+					item: remoteTreeNow.files[path],
+					from: path,
+					to: conflictPath
+				})
 
-			if (localLastModified > remoteLastModified) {
 				uploadToRemote.push({
 					uuid: uuidv4(),
-					path,
+					path: conflictPath,
 					type: "file",
 					item: {
 						...localTreeNow.files[path],
+						name: pathModule.posix.basename(conflictPath),
 						uuid: uuidv4()
 					}
 				})
 
-				continue
-			} else {
 				downloadFromRemote.push({
 					uuid: uuidv4(),
 					path,
 					type: "file",
 					item: remoteTreeNow.files[path]
 				})
+			}
 
-				continue
+			if (syncMode == "twoWay") {
+				conflicts.push(conflict)
 			}
+
+			continue
 		}
 
 		if (localDelta == "NEWER" && !addedToList[path]) {
@@ -710,6 +764,8 @@ export const consumeDeltas = async ({
 		const localDelta = localDeltas.files[path]?.type
 		const remoteDelta = remoteDeltas.files[path]?.type
 		const existsInLocal = typeof localDeltas.files[path] !== "undefined"
+		const remoteHash = remoteTreeNow.files[path]?.metadata?.hash
+		const sameContent = typeof remoteHash == "string" && remoteHash === localTreeNow.files[path]?.hash
 
 		if (remoteDelta == "RENAMED_MOVED" && localDelta !== "RENAMED_MOVED" && !addedToList[path]) {
 			addedToList[path] = true
@@ -778,6 +834,12 @@ export const consumeDeltas = async ({
 			continue
 		}
 
+		if (remoteDelta == "NEWER" && sameContent && !addedToList[path]) {
+			addedToList[path] = true
+
+			continue
+		}
+
 		if (remoteDelta == "NEWER" && localDelta !== "NEWER" && !addedToList[path]) {
 			addedToList[path] = true
 
@@ -805,6 +867,18 @@ export const consumeDeltas = async ({
 		}
 	}
 
+	// The remote tree was read before the local renames and moves are applied to it. Anything the remote added inside a folder
+	// that was renamed or moved locally has to be downloaded to the folder's new path, the old one would bring the folder back.
+	const localFolderMoves = [...renameInRemote, ...moveInRemote].filter(
+		task => task.type == "folder" && typeof task.from == "string" && typeof task.to == "string"
+	)
+
+	if (localFolderMoves.length > 0) {
+		for (const task of downloadFromRemote) {
+			task.path = getPathAfterFolderMoves(task.path, localFolderMoves)
+		}
+	}
+
 	return {
 		uploadToRemote,
 		downloadFromRemote,
@@ -813,6 +887,7 @@ export const consumeDeltas = async ({
 		moveInLocal,
 		moveInRemote,
 		deleteInLocal,
-		deleteInRemote
+		deleteInRemote,
+		conflicts
 	}
 }
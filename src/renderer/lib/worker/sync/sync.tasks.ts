@@ -6,11 +6,12 @@ import {
 	emitSyncTask,
 	isIgnoredBySelectiveSync,
 	onlyGetBaseParentDelete,
-	onlyGetBaseParentMove
+	onlyGetBaseParentMove,
+	getLocationPriority
 } from "./sync.utils"
 import { sendToAllPorts } from "../ipc"
 import constants from "../../../../constants.json"
-import { Location } from "../../../../types"
+import { Location, SyncModes } from "../../../../types"
 import { Semaphore, chunkedPromiseAll } from "../../helpers"
 import ipc from "../../ipc"
 import { v4 as uuidv4 } from "uuid"
@@ -24,6 +25,27 @@ export const maxConcurrentUploadsSemaphore = new Semaphore(constants.maxConcurre
 export const maxConcurrentDownloadsSemaphore = new Semaphore(constants.maxConcurrentDownloads)
 export const maxSyncTasksSemaphore = new Semaphore(constants.maxConcurrentSyncTasks)
 
+// Locations consume their tasks concurrently, the UI shows the sum of what is left over all of them
+const syncTasksToDoByLocation: Record<string, number> = {}
+
+const emitSyncTasksToDo = (): void => {
+	sendToAllPorts({
+		type: "syncTasksToDo",
+		data: Object.values(syncTasksToDoByLocation).reduce((total, count) => total + count, 0)
+	})
+}
+
+export const getLocationConcurrency = (location: Location, direction: "upload" | "download"): number => {
+	const max = direction == "upload" ? constants.maxConcurrentUploads : constants.maxConcurrentDownloads
+	const limit = direction == "upload" ? location.maxConcurrentUploads : location.maxConcurrentDownloads
+
+	if (typeof limit !== "number" || limit <= 0) {
+		return max
+	}
+
+	return Math.min(Math.floor(limit), max)
+}
+
 // Sorting the tasks so we don't have duplicates
 // We also filter for ignored files/folders here + the sync mode
 
@@ -36,7 +58,8 @@ export const sortTasks = async ({
 	moveInRemote,
 	deleteInLocal,
 	deleteInRemote,
-	location
+	location,
+	syncModeOverride
 }: {
 	uploadToRemote: any[]
 	downloadFromRemote: any[]
@@ -47,9 +70,13 @@ export const sortTasks = async ({
 	deleteInLocal: any[]
 	deleteInRemote: any[]
 	location: Location
+	syncModeOverride?: SyncModes
 }): Promise<any> => {
 	const ignored = []
-	const [{ selectiveSyncRemoteIgnore, filenIgnore }, syncMode] = await Promise.all([getIgnored(location), getSyncMode(location)])
+	const [{ selectiveSyncRemoteIgnore, filenIgnore }, syncMode] = await Promise.all([
+		getIgnored(location),
+		typeof syncModeOverride == "string" ? syncModeOverride : getSyncMode(location)
+	])
 
 	for (let i = 0; i < renameInLocal.length; i++) {
 		if (filenIgnore.denies(renameInLocal[i].path) || isIgnoredBySelectiveSync(selectiveSyncRemoteIgnore, renameInLocal[i].path)) {
@@ -238,6 +265,25 @@ export const consumeTasks = async ({
 	doneTasks: any[]
 	resync: boolean
 }> => {
+	// A location with its own limit needs a slot of its own before it may take one of the global slots
+	const locationUploadsSemaphore = new Semaphore(getLocationConcurrency(location, "upload"))
+	const locationDownloadsSemaphore = new Semaphore(getLocationConcurrency(location, "download"))
+
+	const priority = getLocationPriority(location)
+
+	const acquireUploadSlot = () => locationUploadsSemaphore.acquire().then(() => maxConcurrentUploadsSemaphore.acquire(priority))
+	const acquireDownloadSlot = () => locationDownloadsSemaphore.acquire().then(() => maxConcurrentDownloadsSemaphore.acquire(priority))
+
+	const releaseUploadSlot = () => {
+		maxConcurrentUploadsSemaphore.release()
+		locationUploadsSemaphore.release()
+	}
+
+	const releaseDownloadSlot = () => {
+		maxConcurrentDownloadsSemaphore.release()
+		locationDownloadsSemaphore.release()
+	}
+
 	const {
 		uploadToRemoteTasks,
 		downloadFromRemoteTasks,
@@ -272,7 +318,7 @@ export const consumeTasks = async ({
 
 	let resync = false
 	const doneTasks: any[] = []
-	let syncTasksToDo =
+	syncTasksToDoByLocation[location.uuid] =
 		renameInRemoteTasks.length +
 		renameInLocalTasks.length +
 		moveInRemoteTasks.length +
@@ -282,18 +328,12 @@ export const consumeTasks = async ({
 		uploadToRemoteTasks.length +
 		downloadFromRemoteTasks.length
 
-	sendToAllPorts({
-		type: "syncTasksToDo",
-		data: syncTasksToDo
-	})
+	emitSyncTasksToDo()
 
 	const updateSyncTasksToDo = () => {
-		syncTasksToDo -= 1
+		syncTasksToDoByLocation[location.uuid] -= 1
 
-		sendToAllPorts({
-			type: "syncTasksToDo",
-			data: syncTasksToDo
-		})
+		emitSyncTasksToDo()
 	}
 
 	if (renameInRemoteTasks.length > 0) {
@@ -307,7 +347,7 @@ export const consumeTasks = async ({
 							return resolve(true)
 						}
 
-						maxSyncTasksSemaphore.acquire().then(() => {
+						maxSyncTasksSemaphore.acquire(priority).then(() => {
 							emitSyncTask("renameInRemote", {
 								status: "start",
 								task,
@@ -408,7 +448,7 @@ export const consumeTasks = async ({
 							return resolve(true)
 						}
 
-						maxSyncTasksSemaphore.acquire().then(() => {
+						maxSyncTasksSemaphore.acquire(priority).then(() => {
 							emitSyncTask("renameInLocal", {
 								status: "start",
 								task,
@@ -588,7 +628,7 @@ export const consumeTasks = async ({
 							return resolve(true)
 						}
 
-						maxSyncTasksSemaphore.acquire().then(() => {
+						maxSyncTasksSemaphore.acquire(priority).then(() => {
 							emitSyncTask("moveInRemote", {
 								status: "start",
 								task,
@@ -689,7 +729,7 @@ export const consumeTasks = async ({
 							return resolve(true)
 						}
 
-						maxSyncTasksSemaphore.acquire().then(() => {
+						maxSyncTasksSemaphore.acquire(priority).then(() => {
 							emitSyncTask("moveInLocal", {
 								status: "start",
 								task,
@@ -869,7 +909,7 @@ export const consumeTasks = async ({
 							return resolve(true)
 						}
 
-						maxSyncTasksSemaphore.acquire().then(() => {
+						maxSyncTasksSemaphore.acquire(priority).then(() => {
 							emitSyncTask("deleteInRemote", {
 								status: "start",
 								task,
@@ -970,7 +1010,7 @@ export const consumeTasks = async ({
 							return resolve(true)
 						}
 
-						maxSyncTasksSemaphore.acquire().then(() => {
+						maxSyncTasksSemaphore.acquire(priority).then(() => {
 							emitSyncTask("deleteInLocal", {
 								status: "start",
 								task,
@@ -1137,7 +1177,7 @@ export const consumeTasks = async ({
 							return resolve(true)
 						}
 
-						maxSyncTasksSemaphore.acquire().then(() => {
+						maxSyncTasksSemaphore.acquire(priority).then(() => {
 							emitSyncTask("uploadToRemote", {
 								status: "start",
 								task,
@@ -1177,7 +1217,7 @@ export const consumeTasks = async ({
 
 								currentTries += 1
 
-								maxConcurrentUploadsSemaphore.acquire().then(() => {
+								acquireUploadSlot().then(() => {
 									emitSyncTask("uploadToRemote", {
 										status: "started",
 										task,
@@ -1215,7 +1255,7 @@ export const consumeTasks = async ({
 											fsLocal
 												.addToApplyDoneTasks(location.uuid, doneTask)
 												.then(() => {
-													maxConcurrentUploadsSemaphore.release()
+													releaseUploadSlot()
 													maxSyncTasksSemaphore.release()
 
 													return resolve(result)
@@ -1223,7 +1263,7 @@ export const consumeTasks = async ({
 												.catch(err => {
 													log.error(err)
 
-													maxConcurrentUploadsSemaphore.release()
+													releaseUploadSlot()
 													maxSyncTasksSemaphore.release()
 
 													return resolve(result)
@@ -1242,7 +1282,7 @@ export const consumeTasks = async ({
 													err
 												})
 
-												maxConcurrentUploadsSemaphore.release()
+												releaseUploadSlot()
 												maxSyncTasksSemaphore.release()
 
 												updateSyncTasksToDo()
@@ -1266,7 +1306,7 @@ export const consumeTasks = async ({
 													err
 												})
 
-												maxConcurrentUploadsSemaphore.release()
+												releaseUploadSlot()
 												maxSyncTasksSemaphore.release()
 
 												updateSyncTasksToDo()
@@ -1278,7 +1318,7 @@ export const consumeTasks = async ({
 
 											log.error(err)
 
-											maxConcurrentUploadsSemaphore.release()
+											releaseUploadSlot()
 											maxSyncTasksSemaphore.release()
 
 											return setTimeout(() => {
@@ -1306,7 +1346,7 @@ export const consumeTasks = async ({
 							return resolve(true)
 						}
 
-						maxSyncTasksSemaphore.acquire().then(() => {
+						maxSyncTasksSemaphore.acquire(priority).then(() => {
 							emitSyncTask("downloadFromRemote", {
 								status: "start",
 								task,
@@ -1346,7 +1386,7 @@ export const consumeTasks = async ({
 
 								currentTries += 1
 
-								maxConcurrentDownloadsSemaphore.acquire().then(() => {
+								acquireDownloadSlot().then(() => {
 									emitSyncTask("downloadFromRemote", {
 										status: "started",
 										task,
@@ -1380,7 +1420,7 @@ export const consumeTasks = async ({
 									isPresent
 										.then(present => {
 											if (!present) {
-												maxConcurrentDownloadsSemaphore.release()
+												releaseDownloadSlot()
 												maxSyncTasksSemaphore.release()
 
 												emitSyncTask("downloadFromRemote", {
@@ -1394,6 +1434,27 @@ export const consumeTasks = async ({
 												return resolve(true)
 											}
 
+											if (
+												task.type == "file" &&
+												typeof task.item.metadata.symlink == "string" &&
+												!fsLocal.isSafeSymlinkTarget(location, task.path, task.item.metadata.symlink)
+											) {
+												releaseDownloadSlot()
+												maxSyncTasksSemaphore.release()
+
+												fsLocal.reportUnsafeSymlinkTarget(location, task.path, task.item.metadata.symlink)
+
+												emitSyncTask("downloadFromRemote", {
+													status: "err",
+													task,
+													location
+												})
+
+												updateSyncTasksToDo()
+
+												return resolve(true)
+											}
+
 											const promise =
 												task.type == "folder"
 													? fsLocal.mkdir(task.path, location)
@@ -1425,7 +1486,7 @@ export const consumeTasks = async ({
 													fsLocal
 														.addToApplyDoneTasks(location.uuid, doneTask)
 														.then(() => {
-															maxConcurrentDownloadsSemaphore.release()
+															releaseDownloadSlot()
 															maxSyncTasksSemaphore.release()
 
 															return resolve(result)
@@ -1433,14 +1494,14 @@ export const consumeTasks = async ({
 														.catch(err => {
 															log.error(err)
 
-															maxConcurrentDownloadsSemaphore.release()
+															releaseDownloadSlot()
 															maxSyncTasksSemaphore.release()
 
 															return resolve(result)
 														})
 												})
 												.catch(err => {
-													maxConcurrentDownloadsSemaphore.release()
+													releaseDownloadSlot()
 
 													log.error(err)
 
@@ -1450,7 +1511,7 @@ export const consumeTasks = async ({
 												})
 										})
 										.catch(err => {
-											maxConcurrentDownloadsSemaphore.release()
+											releaseDownloadSlot()
 
 											log.error(err)
 
@@ -1468,14 +1529,16 @@ export const consumeTasks = async ({
 		])
 	}
 
-	maxSyncTasksSemaphore.purge()
-	maxConcurrentDownloadsSemaphore.purge()
-	maxConcurrentUploadsSemaphore.purge()
+	delete syncTasksToDoByLocation[location.uuid]
 
-	sendToAllPorts({
-		type: "syncTasksToDo",
-		data: 0
-	})
+	// The shared semaphores can only be reset once no other location is still waiting on them
+	if (Object.keys(syncTasksToDoByLocation).length == 0) {
+		maxSyncTasksSemaphore.purge()
+		maxConcurrentDownloadsSemaphore.purge()
+		maxConcurrentUploadsSemaphore.purge()
+	}
+
+	emitSyncTasksToDo()
 
 	return { doneTasks, resync }
 }
@@ -0,0 +1,234 @@
+/**
+ * @jest-environment node
+ */
+
+import { createSyncHarness, SyncHarness } from "../../../../test/syncHarness"
+
+const fs = require("fs-extra")
+const pathModule = require("path")
+
+jest.setTimeout(120000)
+
+// Locations never store symlinks as links on Windows
+const itWithStoredSymlinks = process.platform == "win32" ? it.skip : it
+
+// Issues stay around for the whole file, every scenario only looks at the ones below its own directories
+const getSyncIssuesBelow = async (...dirs: string[]) => {
+	return (await harness.getSyncIssues()).filter(issue => typeof issue.path == "string" && dirs.some(dir => issue.path!.startsWith(dir)))
+}
+
+let harness: SyncHarness
+
+beforeAll(async () => {
+	harness = await createSyncHarness()
+})
+
+afterAll(async () => {
+	if (harness) {
+		await harness.close()
+	}
+})
+
+describe("syncLocation", () => {
+	it("keeps a file the remote added while the folder was renamed locally", async () => {
+		const remoteUUID = await harness.createRemoteFolder("Sync")
+		const localA = await harness.mkdtemp("deviceA")
+		const localB = await harness.mkdtemp("deviceB")
+		const locationA = await harness.addLocation(localA, remoteUUID)
+		const locationB = await harness.addLocation(localB, remoteUUID)
+
+		await harness.syncLocation(locationA)
+		await harness.syncLocation(locationB)
+
+		await fs.outputFile(pathModule.join(localA, "docs", "a.txt"), "a")
+
+		await harness.syncUntilSettled(locationA)
+		await harness.syncUntilSettled(locationB)
+
+		expect(await fs.readFile(pathModule.join(localB, "docs", "a.txt"), "utf-8")).toBe("a")
+
+		// The other side adds a file to the folder while this side renames it
+		await fs.outputFile(pathModule.join(localB, "docs", "b.txt"), "b")
+		await harness.syncUntilSettled(locationB)
+		await fs.rename(pathModule.join(localA, "docs"), pathModule.join(localA, "papers"))
+
+		await harness.syncUntilSettled(locationA)
+
+		expect(await harness.getSyncIssues()).toEqual([])
+		expect(await fs.pathExists(pathModule.join(localA, "docs"))).toBe(false)
+		expect(await fs.readFile(pathModule.join(localA, "papers", "a.txt"), "utf-8")).toBe("a")
+		expect(await fs.readFile(pathModule.join(localA, "papers", "b.txt"), "utf-8")).toBe("b")
+
+		const remote = await harness.remoteTree(remoteUUID)
+
+		expect(remote.folders).toEqual(["papers"])
+		expect(remote.files).toEqual(["papers/a.txt", "papers/b.txt"])
+	})
+
+	it("keeps both versions when both sides changed the same file", async () => {
+		const remoteUUID = await harness.createRemoteFolder("Conflict")
+		const localA = await harness.mkdtemp("conflictA")
+		const localB = await harness.mkdtemp("conflictB")
+		const locationA = await harness.addLocation(localA, remoteUUID)
+		const locationB = await harness.addLocation(localB, remoteUUID)
+
+		await harness.syncLocation(locationA)
+		await harness.syncLocation(locationB)
+
+		await fs.outputFile(pathModule.join(localA, "a.txt"), "original")
+
+		await harness.syncUntilSettled(locationA)
+		await harness.syncUntilSettled(locationB)
+
+		expect(await fs.readFile(pathModule.join(localB, "a.txt"), "utf-8")).toBe("original")
+
+		// Both sides edit the file before either of them syncs again
+		const now = Date.now() / 1000
+
+		await fs.outputFile(pathModule.join(localA, "a.txt"), "from A")
+		await fs.utimes(pathModule.join(localA, "a.txt"), now + 60, now + 60)
+		await fs.outputFile(pathModule.join(localB, "a.txt"), "from B")
+		await fs.utimes(pathModule.join(localB, "a.txt"), now + 120, now + 120)
+
+		await harness.syncUntilSettled(locationB)
+		await harness.syncUntilSettled(locationA)
+
+		const conflictCopies = (await fs.readdir(localA)).filter((entry: string) => entry.startsWith("a (conflicted copy, "))
+
+		expect(conflictCopies).toHaveLength(1)
+		expect(await fs.readFile(pathModule.join(localA, "a.txt"), "utf-8")).toBe("from B")
+		expect(await fs.readFile(pathModule.join(localA, conflictCopies[0]), "utf-8")).toBe("from A")
+		expect((await harness.remoteTree(remoteUUID)).files).toEqual(["a.txt", conflictCopies[0]].sort())
+
+		const conflicts = (await harness.getSyncIssues()).filter(
+			issue => issue.type == "conflict" && issue.conflict && issue.conflict.locationUUID == locationA.uuid
+		)
+
+		expect(conflicts).toHaveLength(1)
+		expect(conflicts[0].conflict).toMatchObject({
+			path: "a.txt",
+			mode: "keepBoth",
+			conflictPath: pathModule.join(localA, conflictCopies[0])
+		})
+	})
+
+	it("transfers empty files in both directions", async () => {
+		const remoteUUID = await harness.createRemoteFolder("Empty")
+		const localA = await harness.mkdtemp("emptyA")
+		const localB = await harness.mkdtemp("emptyB")
+		const locationA = await harness.addLocation(localA, remoteUUID)
+		const locationB = await harness.addLocation(localB, remoteUUID)
+
+		await harness.syncLocation(locationA)
+		await harness.syncLocation(locationB)
+
+		await fs.outputFile(pathModule.join(localA, "empty.txt"), "")
+
+		await harness.syncUntilSettled(locationA)
+		await harness.syncUntilSettled(locationB)
+
+		expect((await fs.stat(pathModule.join(localB, "empty.txt"))).size).toBe(0)
+
+		await fs.outputFile(pathModule.join(localB, "docs", "empty.md"), "")
+
+		await harness.syncUntilSettled(locationB)
+		await harness.syncUntilSettled(locationA)
+
+		expect((await fs.stat(pathModule.join(localA, "docs", "empty.md"))).size).toBe(0)
+		expect((await harness.remoteTree(remoteUUID)).files).toEqual(["docs/empty.md", "empty.txt"])
+		expect(await getSyncIssuesBelow(localA, localB)).toEqual([])
+	})
+
+	itWithStoredSymlinks("recreates stored symlinks, except those pointing outside of the location", async () => {
+		const remoteUUID = await harness.createRemoteFolder("Links")
+		const localA = await harness.mkdtemp("linksA")
+		const localB = await harness.mkdtemp("linksB")
+		const locationA = await harness.addLocation(localA, remoteUUID, "twoWay", { symlinkMode: "store" })
+		const locationB = await harness.addLocation(localB, remoteUUID, "twoWay", { symlinkMode: "store" })
+
+		await harness.syncLocation(locationA)
+		await harness.syncLocation(locationB)
+
+		await fs.outputFile(pathModule.join(localA, "docs", "a.txt"), "a")
+		await fs.symlink("docs/a.txt", pathModule.join(localA, "link"))
+		await fs.symlink("../outside.txt", pathModule.join(localA, "outside"))
+
+		await harness.syncUntilSettled(locationA)
+		await harness.syncUntilSettled(locationB)
+
+		expect((await fs.lstat(pathModule.join(localB, "link"))).isSymbolicLink()).toBe(true)
+		expect(await fs.readlink(pathModule.join(localB, "link"))).toBe("docs/a.txt")
+		expect(await fs.readFile(pathModule.join(localB, "link"), "utf-8")).toBe("a")
+		expect(await fs.pathExists(pathModule.join(localB, "outside"))).toBe(false)
+
+		const warnings = await getSyncIssuesBelow(localB)
+
+		expect(warnings).toHaveLength(1)
+		expect(warnings[0]).toMatchObject({
+			type: "warning",
+			path: pathModule.join(localB, "outside")
+		})
+	})
+
+	describe("mass deletions", () => {
+		const deleteEverything = async () => {
+			const remoteUUID = await harness.createRemoteFolder("Mass")
+			const local = await harness.mkdtemp("mass")
+			const location = await harness.addLocation(local, remoteUUID)
+
+			await harness.syncLocation(location)
+
+			for (let i = 0; i < 12; i++) {
+				await fs.outputFile(pathModule.join(local, "file" + i + ".txt"), "content " + i)
+			}
+
+			await harness.syncUntilSettled(location)
+
+			expect((await harness.remoteTree(remoteUUID)).files).toHaveLength(12)
+
+			await fs.emptyDir(local)
+			await harness.syncUntilSettled(location)
+
+			const issues = (await harness.getSyncIssues()).filter(
+				issue => issue.massDeletion && issue.massDeletion.locationUUID == location.uuid
+			)
+
+			return { remoteUUID, local, location, issues }
+		}
+
+		it("holds the deletions and pauses the location until confirmed", async () => {
+			const { remoteUUID, location, issues } = await deleteEverything()
+
+			expect(issues).toHaveLength(1)
+			expect(issues[0]).toMatchObject({
+				type: "critical",
+				massDeletion: {
+					deleteInRemote: 12,
+					deleteInLocal: 0
+				}
+			})
+			expect((await harness.getStoredLocation(location.uuid))!.paused).toBe(true)
+			expect((await harness.remoteTree(remoteUUID)).files).toHaveLength(12)
+
+			await harness.resolveMassDeletion(issues[0], "confirm")
+			await harness.syncUntilSettled(location)
+
+			expect((await harness.getStoredLocation(location.uuid))!.paused).toBe(false)
+			expect((await harness.remoteTree(remoteUUID)).files).toEqual([])
+		})
+
+		it("restores the deleted files when discarded", async () => {
+			const { remoteUUID, local, location, issues } = await deleteEverything()
+
+			expect(issues).toHaveLength(1)
+
+			await harness.resolveMassDeletion(issues[0], "discard")
+			await harness.syncUntilSettled(location)
+
+			expect((await harness.getStoredLocation(location.uuid))!.paused).toBe(false)
+			expect((await fs.readdir(local)).filter((entry: string) => entry.endsWith(".txt"))).toHaveLength(12)
+			expect(await fs.readFile(pathModule.join(local, "file3.txt"), "utf-8")).toBe("content 3")
+			expect((await harness.remoteTree(remoteUUID)).files).toHaveLength(12)
+		})
+	})
+})
@@ -3,14 +3,29 @@ import * as fsRemote from "../../fs/remote"
 import db from "../../db"
 import { v4 as uuidv4 } from "uuid"
 import { Semaphore, convertTimestampToMs } from "../../helpers"
-import { isSyncLocationPaused, emitSyncStatus, emitSyncStatusLocation, removeRemoteLocation, updateSyncLocationBusy } from "./sync.utils"
-import { Location, SyncIssue } from "../../../../types"
+import { isAPICircuitOpen } from "../../retry"
+import {
+	isSyncLocationPaused,
+	isTransferPolicyPaused,
+	emitSyncStatus,
+	emitSyncStatusLocation,
+	removeRemoteLocation,
+	updateSyncLocationBusy,
+	recordSyncConflicts,
+	exceedsMassDeletionThreshold,
+	holdMassDeletion,
+	getMassDeletionRestoreTasks,
+	isBlockingSyncIssue,
+	getLocationPriority
+} from "./sync.utils"
+import { Location, SyncIssue, SyncConflict, SyncModes, SyncPreview, SyncTaskListType, MassDeletionDecision } from "../../../../types"
 import { checkInternet } from "../../../windows/worker/worker"
 import ipc from "../../ipc"
 import eventListener from "../../eventListener"
-import { consumeTasks } from "./sync.tasks"
+import { consumeTasks, sortTasks } from "./sync.tasks"
 import { getDeltas, consumeDeltas } from "./sync.deltas"
 import constants from "../../../../constants.json"
+import { sendToAllPorts } from "../ipc"
 
 const pathModule = window.require("path")
 const log = window.require("electron-log")
@@ -21,8 +36,10 @@ let NEXT_SYNC = Date.now() - SYNC_TIMEOUT
 const IS_FIRST_REQUEST: Record<string, boolean> = {}
 const WATCHERS: Record<string, boolean> = {}
 const syncMutex = new Semaphore(1)
+const syncLocationsSemaphore = new Semaphore(constants.maxConcurrentLocationSyncs)
 const syncModes: Record<string, string> = {}
 let startSyncLoopTimeoutCounter = 0
+const SYNC_PREVIEW_MAX_TASKS = 1000
 
 const applyDoneTasksToSavedState = async ({
 	doneTasks,
@@ -564,7 +581,9 @@ const applyDoneTasksToSavedState = async ({
 			localTreeNow.files[task.path] = {
 				name: task.item.metadata.name,
 				lastModified: convertTimestampToMs(task.info.mtimeMs),
-				size: task.info.size
+				size: typeof task.item.metadata.symlink == "string" ? 0 : task.info.size,
+				...(typeof task.item.metadata.hash == "string" ? { hash: task.item.metadata.hash } : {}),
+				...(typeof task.item.metadata.symlink == "string" ? { symlink: task.item.metadata.symlink } : {})
 			}
 
 			localTreeNow.ino[task.info.ino] = {
@@ -580,6 +599,39 @@ const applyDoneTasksToSavedState = async ({
 	}
 }
 
+// Unresolved conflicts keep their previous saved state so they show up again in the next cycle until the user decides
+const keepConflictsInSavedState = ({
+	conflicts,
+	lastLocalTree,
+	lastRemoteTree,
+	localTree,
+	remoteTree
+}: {
+	conflicts: SyncConflict[]
+	lastLocalTree: any
+	lastRemoteTree: any
+	localTree: any
+	remoteTree: any
+}): void => {
+	for (const conflict of conflicts) {
+		if (conflict.mode !== "ask") {
+			continue
+		}
+
+		if (typeof lastLocalTree.files[conflict.path] !== "undefined") {
+			localTree.files[conflict.path] = lastLocalTree.files[conflict.path]
+		} else {
+			delete localTree.files[conflict.path]
+		}
+
+		if (typeof lastRemoteTree.files[conflict.path] !== "undefined") {
+			remoteTree.files[conflict.path] = lastRemoteTree.files[conflict.path]
+		} else {
+			delete remoteTree.files[conflict.path]
+		}
+	}
+}
+
 export const requestFreshStateOnNextSyncCycle = async (location: Location) => {
 	await Promise.all([db.set("localDataChanged:" + location.uuid, true), db.set("remoteDataChanged:" + location.uuid, true)]).catch(
 		log.error
@@ -588,7 +640,156 @@ export const requestFreshStateOnNextSyncCycle = async (location: Location) => {
 	delete IS_FIRST_REQUEST[location.uuid]
 }
 
-const syncLocation = async (location: Location): Promise<void> => {
+// Runs a sync cycle up to the point where tasks would be consumed, nothing is transferred and no state is saved
+export const previewSyncLocation = async (location: Location, syncModeOverride?: SyncModes): Promise<SyncPreview> => {
+	const preview: SyncPreview = {
+		locationUUID: location.uuid,
+		syncMode: typeof syncModeOverride == "string" ? syncModeOverride : location.type,
+		initial: false,
+		counts: {
+			renameInRemote: 0,
+			renameInLocal: 0,
+			moveInRemote: 0,
+			moveInLocal: 0,
+			deleteInRemote: 0,
+			deleteInLocal: 0,
+			uploadToRemote: 0,
+			downloadFromRemote: 0
+		},
+		tasks: {
+			renameInRemote: [],
+			renameInLocal: [],
+			moveInRemote: [],
+			moveInLocal: [],
+			deleteInRemote: [],
+			deleteInLocal: [],
+			uploadToRemote: [],
+			downloadFromRemote: []
+		},
+		timestamp: Date.now()
+	}
+
+	await syncMutex.acquire()
+
+	try {
+		if (typeof location.remoteUUID !== "string") {
+			throw new Error("Sync location " + location.uuid + " has no remote folder")
+		}
+
+		log.info("Previewing sync for location " + location.uuid + " [" + preview.syncMode + "]")
+
+		const [{ data: localTreeNow }, { data: remoteTreeNow }] = await Promise.all([
+			fsLocal.directoryTree(pathModule.normalize(location.local), true, location),
+			fsRemote.directoryTree(location.remoteUUID, true, location)
+		])
+
+		let [lastLocalTree, lastRemoteTree, applyDoneTasksPast] = await Promise.all([
+			db.get("lastLocalTree:" + location.uuid),
+			db.get("lastRemoteTree:" + location.uuid),
+			fsLocal.loadApplyDoneTasks(location.uuid)
+		])
+
+		if (!lastLocalTree || !lastRemoteTree) {
+			preview.initial = true
+		} else {
+			if (applyDoneTasksPast && Array.isArray(applyDoneTasksPast) && applyDoneTasksPast.length > 0) {
+				const { localTreeNowApplied, remoteTreeNowApplied } = await applyDoneTasksToSavedState({
+					doneTasks: applyDoneTasksPast,
+					localTreeNow: lastLocalTree,
+					remoteTreeNow: lastRemoteTree
+				})
+
+				lastLocalTree = localTreeNowApplied
+				lastRemoteTree = remoteTreeNowApplied
+			}
+
+			const [localDeltas, remoteDeltas] = await Promise.all([
+				getDeltas("local", lastLocalTree, localTreeNow),
+				getDeltas("remote", lastRemoteTree, remoteTreeNow)
+			])
+
+			const {
+				uploadToRemote,
+				downloadFromRemote,
+				renameInLocal,
+				renameInRemote,
+				moveInLocal,
+				moveInRemote,
+				deleteInLocal,
+				deleteInRemote
+			} = await consumeDeltas({
+				localDeltas,
+				remoteDeltas,
+				lastLocalTree,
+				lastRemoteTree,
+				localTreeNow,
+				remoteTreeNow,
+				location,
+				syncModeOverride: preview.syncMode
+			})
+
+			const sorted = await sortTasks({
+				uploadToRemote,
+				downloadFromRemote,
+				renameInLocal,
+				renameInRemote,
+				moveInLocal,
+				moveInRemote,
+				deleteInLocal,
+				deleteInRemote,
+				location,
+				syncModeOverride: preview.syncMode
+			})
+
+			for (const type of Object.keys(preview.tasks) as SyncTaskListType[]) {
+				const tasks: any[] = sorted[type + "Tasks"]
+
+				preview.counts[type] = tasks.length
+				preview.tasks[type] = tasks.slice(0, SYNC_PREVIEW_MAX_TASKS).map(task => ({
+					type: task.type,
+					path: task.path,
+					...(typeof task.from == "string" && typeof task.to == "string" ? { from: task.from, to: task.to } : {})
+				}))
+			}
+		}
+	} catch (e: any) {
+		log.error("Could not preview sync for location " + location.uuid)
+		log.error(e)
+
+		preview.err = e.toString()
+	}
+
+	// The preview consumed the changed flags of the directory trees, so the next real cycle has to build them again
+	await requestFreshStateOnNextSyncCycle(location).catch(log.error)
+
+	syncMutex.release()
+
+	return preview
+}
+
+eventListener.on("requestSyncPreview", ({ locationUUID, syncMode }: { locationUUID: string; syncMode?: SyncModes }) => {
+	db.get("userId")
+		.then(userId => db.get("syncLocations:" + userId))
+		.then((syncLocations: Location[] | null) => {
+			const location = Array.isArray(syncLocations) ? syncLocations.filter(location => location.uuid == locationUUID)[0] : undefined
+
+			if (typeof location == "undefined") {
+				return
+			}
+
+			previewSyncLocation(location, syncMode)
+				.then(preview => {
+					sendToAllPorts({
+						type: "syncPreview",
+						data: preview
+					})
+				})
+				.catch(log.error)
+		})
+		.catch(log.error)
+})
+
+export const syncLocation = async (location: Location): Promise<void> => {
 	if (location.paused) {
 		emitSyncStatusLocation("paused", {
 			status: "paused",
@@ -832,9 +1033,9 @@ const syncLocation = async (location: Location): Promise<void> => {
 		log.info("lastLocalTree/lastRemoteTree for location " + location.uuid + " empty, skipping")
 
 		try {
-			await Promise.all([
-				db.set("lastLocalTree:" + location.uuid, localTreeNow),
-				db.set("lastRemoteTree:" + location.uuid, remoteTreeNow)
+			await db.batch([
+				{ type: "set", key: "lastLocalTree:" + location.uuid, value: localTreeNow },
+				{ type: "set", key: "lastRemoteTree:" + location.uuid, value: remoteTreeNow }
 			])
 
 			delete IS_FIRST_REQUEST[location.uuid]
@@ -914,7 +1115,8 @@ const syncLocation = async (location: Location): Promise<void> => {
 			moveInLocal,
 			moveInRemote,
 			deleteInLocal,
-			deleteInRemote
+			deleteInRemote,
+			conflicts
 		} = await consumeDeltas({ localDeltas, remoteDeltas, lastLocalTree, lastRemoteTree, localTreeNow, remoteTreeNow, location })
 	} catch (e: any) {
 		log.error("Could not consume deltas for location " + location.uuid)
@@ -944,12 +1146,70 @@ const syncLocation = async (location: Location): Promise<void> => {
 		location
 	})
 
+	if (conflicts.length > 0) {
+		log.info(conflicts.length + " conflicts for location " + location.uuid)
+
+		await recordSyncConflicts(location, conflicts).catch(log.error)
+	}
+
 	if (await isSyncLocationPaused(location.uuid)) {
 		await requestFreshStateOnNextSyncCycle(location).catch(log.error)
 
 		return
 	}
 
+	try {
+		const massDeletionDecision: MassDeletionDecision | null = await db.get("massDeletionDecision:" + location.uuid)
+
+		// A decision only ever applies to the cycle that reads it, even if that cycle fails later on
+		if (typeof massDeletionDecision == "string") {
+			await db.remove("massDeletionDecision:" + location.uuid)
+		}
+
+		if (massDeletionDecision == "discard") {
+			log.info("Discarding " + (deleteInLocal.length + deleteInRemote.length) + " held deletions for location " + location.uuid)
+
+			const restore = getMassDeletionRestoreTasks({
+				deleteInLocal,
+				deleteInRemote,
+				localTreeNow,
+				remoteTreeNow
+			})
+			const uploading = new Set(uploadToRemote.map((task: any) => task.path))
+			const downloading = new Set(downloadFromRemote.map((task: any) => task.path))
+
+			uploadToRemote.push(...restore.uploadToRemote.filter(task => !uploading.has(task.path)))
+			downloadFromRemote.push(...restore.downloadFromRemote.filter(task => !downloading.has(task.path)))
+
+			deleteInLocal.splice(0)
+			deleteInRemote.splice(0)
+		} else if (massDeletionDecision !== "confirm") {
+			const massDeletion = await exceedsMassDeletionThreshold({
+				location,
+				deleteInLocal,
+				deleteInRemote,
+				lastLocalTree,
+				lastRemoteTree
+			})
+
+			if (massDeletion) {
+				log.info("Mass deletion detected for location " + location.uuid + ", holding deletions until confirmed")
+
+				await holdMassDeletion(location, massDeletion)
+				await requestFreshStateOnNextSyncCycle(location).catch(log.error)
+
+				return
+			}
+		}
+	} catch (e: any) {
+		log.error("Could not check mass deletion threshold for location " + location.uuid)
+		log.error(e)
+
+		await requestFreshStateOnNextSyncCycle(location).catch(log.error)
+
+		return
+	}
+
 	log.info("Consuming tasks for location " + location.uuid)
 
 	emitSyncStatusLocation("consumeTasks", {
@@ -993,7 +1253,7 @@ const syncLocation = async (location: Location): Promise<void> => {
 	try {
 		const syncIssues = await ipc.getSyncIssues()
 
-		if (syncIssues.filter(issue => issue.type === "critical").length > 0) {
+		if (syncIssues.filter(isBlockingSyncIssue).length > 0) {
 			log.info("Got critical sync issues after consume, won't apply anything to saved state")
 
 			return
@@ -1050,14 +1310,27 @@ const syncLocation = async (location: Location): Promise<void> => {
 	log.info("Cleaning up " + location.uuid)
 
 	try {
-		await Promise.all([
-			db.set("lastLocalTree:" + location.uuid, doneTasks.length > 0 ? localTreeNowApplied : localTreeNow),
-			db.set("lastRemoteTree:" + location.uuid, doneTasks.length > 0 ? remoteTreeNowApplied : remoteTreeNow),
-			fsLocal.clearApplyDoneTasks(location.uuid),
+		keepConflictsInSavedState({
+			conflicts,
+			lastLocalTree,
+			lastRemoteTree,
+			localTree: doneTasks.length > 0 ? localTreeNowApplied : localTreeNow,
+			remoteTree: doneTasks.length > 0 ? remoteTreeNowApplied : remoteTreeNow
+		})
+
+		// Saved trees and changed flags have to agree after a crash, so they are written in one batch
+		await db.batch([
+			{ type: "set", key: "lastLocalTree:" + location.uuid, value: doneTasks.length > 0 ? localTreeNowApplied : localTreeNow },
+			{ type: "set", key: "lastRemoteTree:" + location.uuid, value: doneTasks.length > 0 ? remoteTreeNowApplied : remoteTreeNow },
 			...(doneTasks.length > 0 || resync
-				? [db.set("localDataChanged:" + location.uuid, true), db.set("remoteDataChanged:" + location.uuid, true)]
+				? [
+						{ type: "set" as const, key: "localDataChanged:" + location.uuid, value: true },
+						{ type: "set" as const, key: "remoteDataChanged:" + location.uuid, value: true }
+				  ]
 				: [])
 		])
+
+		await fsLocal.clearApplyDoneTasks(location.uuid)
 	} catch (e: any) {
 		log.error("Could not save lastLocalTree to DB for location " + location.uuid)
 		log.error(e)
@@ -1105,6 +1378,13 @@ const startSyncLoop = () => {
 	}, SYNC_TIMEOUT)
 }
 
+// Locations sync concurrently so one large or slow location (a huge initial upload, a network share) does not hold back all the others.
+// At most constants.maxConcurrentLocationSyncs run at once, each one scans its trees and keeps its own state in memory.
+// They are started in order of priority, the higher ones get a slot and into the transfer queues first.
+const sortSyncLocationsByPriority = (syncLocations: Location[]): Location[] => {
+	return [...syncLocations].sort((a, b) => getLocationPriority(b) - getLocationPriority(a))
+}
+
 const sync = async (): Promise<any> => {
 	await syncMutex.acquire()
 
@@ -1165,7 +1445,7 @@ const sync = async (): Promise<any> => {
 		return startSyncLoop()
 	}
 
-	if (syncIssues.filter(issue => issue.type === "critical").length > 0) {
+	if (syncIssues.filter(isBlockingSyncIssue).length > 0) {
 		syncMutex.release()
 
 		eventListener.emit("syncLoopDone")
@@ -1245,7 +1525,7 @@ const sync = async (): Promise<any> => {
 		syncLocations
 	})
 
-	if (paused) {
+	if (paused || isAPICircuitOpen() || (await isTransferPolicyPaused())) {
 		syncMutex.release()
 
 		eventListener.emit("syncLoopDone")
@@ -1280,34 +1560,39 @@ const sync = async (): Promise<any> => {
 			syncLocations
 		})
 
-		for (const location of syncLocations) {
-			if (
-				typeof location.remote === "undefined" ||
-				typeof location.remoteUUID === "undefined" ||
-				typeof location.remoteName === "undefined"
-			) {
-				continue
-			}
+		await Promise.all(
+			sortSyncLocationsByPriority(syncLocations)
+				.filter(
+					location =>
+						typeof location.remote !== "undefined" &&
+						typeof location.remoteUUID !== "undefined" &&
+						typeof location.remoteName !== "undefined"
+				)
+				.map(async location => {
+					await syncLocationsSemaphore.acquire(getLocationPriority(location))
+
+					const setBusyTimeout = setTimeout(() => updateSyncLocationBusy(location.uuid, true).catch(log.error), 3000)
+
+					try {
+						await syncLocation(location)
+					} catch (e: any) {
+						log.error("Sync task for location " + location.uuid + " failed, reason:")
+						log.error(e)
+
+						emitSyncStatus("sync", {
+							status: "err",
+							syncLocations,
+							err: e
+						})
+					}
 
-			const setBusyTimeout = setTimeout(() => updateSyncLocationBusy(location.uuid, true).catch(log.error), 3000)
+					clearTimeout(setBusyTimeout)
 
-			try {
-				await syncLocation(location)
-			} catch (e: any) {
-				log.error("Sync task for location " + location.uuid + " failed, reason:")
-				log.error(e)
+					syncLocationsSemaphore.release()
 
-				emitSyncStatus("sync", {
-					status: "err",
-					syncLocations,
-					err: e
+					await updateSyncLocationBusy(location.uuid, false).catch(log.error)
 				})
-			}
-
-			clearTimeout(setBusyTimeout)
-
-			await updateSyncLocationBusy(location.uuid, false).catch(log.error)
-		}
+		)
 
 		emitSyncStatus("sync", {
 			status: "done",
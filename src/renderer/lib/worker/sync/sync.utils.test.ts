@@ -0,0 +1,199 @@
+import { getConflictCopyPath, exceedsMassDeletionThreshold, getPathAfterFolderMoves } from "./sync.utils"
+import { Location } from "../../../../types"
+import db from "../../db"
+
+jest.mock("../../db", () => ({
+	__esModule: true,
+	default: {
+		get: jest.fn(async () => null)
+	}
+}))
+jest.mock("../../ipc", () => ({
+	__esModule: true,
+	default: {}
+}))
+jest.mock("../ipc", () => ({
+	sendToAllPorts: jest.fn()
+}))
+jest.mock("../../helpers", () => ({
+	isSubdir: jest.fn(() => false)
+}))
+
+const os = require("os")
+
+const dbGet = db.get as jest.Mock
+
+afterEach(() => {
+	jest.restoreAllMocks()
+})
+
+describe("getConflictCopyPath", () => {
+	const date = new Date().toISOString().slice(0, 10)
+
+	beforeEach(() => {
+		jest.spyOn(os, "hostname").mockReturnValue("work:pc")
+	})
+
+	it("keeps the folder and the extension", () => {
+		expect(getConflictCopyPath("docs/report.pdf", [{}, {}])).toBe("docs/report (conflicted copy, work-pc, " + date + ").pdf")
+		expect(getConflictCopyPath("notes", [{}])).toBe("notes (conflicted copy, work-pc, " + date + ")")
+	})
+
+	it("counts up while the name is taken on either side", () => {
+		const first = "report (conflicted copy, work-pc, " + date + ").pdf"
+		const second = "report (conflicted copy, work-pc, " + date + " 2).pdf"
+
+		expect(getConflictCopyPath("report.pdf", [{ [first]: {} }, {}])).toBe(second)
+		expect(getConflictCopyPath("report.pdf", [{ [first]: {} }, { [second]: {} }])).toBe(
+			"report (conflicted copy, work-pc, " + date + " 3).pdf"
+		)
+	})
+})
+
+describe("exceedsMassDeletionThreshold", () => {
+	const location = (type: Location["type"]): Location => ({
+		uuid: "location",
+		local: "/local",
+		remote: "/remote",
+		remoteUUID: "remote",
+		remoteName: "remote",
+		type,
+		paused: false,
+		busy: false,
+		localChanged: false
+	})
+
+	// A tree with the given number of files and no folders
+	const tree = (size: number) => ({
+		files: Object.fromEntries(Array.from({ length: size }, (_, i) => ["file" + i, {}])),
+		folders: {}
+	})
+
+	const deletions = (count: number) => Array.from({ length: count }, (_, i) => ({ path: "file" + i }))
+
+	const thresholds = (count: number, percent: number) => {
+		dbGet.mockImplementation(async (key: string) =>
+			key == "massDeletionThresholdCount" ? count : key == "massDeletionThresholdPercent" ? percent : null
+		)
+	}
+
+	it("holds deletions over the count threshold", async () => {
+		thresholds(5, 0)
+
+		expect(
+			await exceedsMassDeletionThreshold({
+				location: location("twoWay"),
+				deleteInLocal: [],
+				deleteInRemote: deletions(5),
+				lastLocalTree: tree(100),
+				lastRemoteTree: tree(100)
+			})
+		).toEqual({ locationUUID: "location", deleteInRemote: 5, deleteInLocal: 0 })
+	})
+
+	it("holds deletions over the percent threshold once enough files are involved", async () => {
+		thresholds(0, 50)
+
+		expect(
+			await exceedsMassDeletionThreshold({
+				location: location("twoWay"),
+				deleteInLocal: deletions(10),
+				deleteInRemote: [],
+				lastLocalTree: tree(20),
+				lastRemoteTree: tree(20)
+			})
+		).toEqual({ locationUUID: "location", deleteInRemote: 0, deleteInLocal: 10 })
+
+		// All of a tiny folder is below the minimum count
+		expect(
+			await exceedsMassDeletionThreshold({
+				location: location("twoWay"),
+				deleteInLocal: deletions(3),
+				deleteInRemote: [],
+				lastLocalTree: tree(3),
+				lastRemoteTree: tree(3)
+			})
+		).toBeNull()
+	})
+
+	it("lets smaller deletions through", async () => {
+		thresholds(5, 50)
+
+		expect(
+			await exceedsMassDeletionThreshold({
+				location: location("twoWay"),
+				deleteInLocal: deletions(4),
+				deleteInRemote: deletions(4),
+				lastLocalTree: tree(100),
+				lastRemoteTree: tree(100)
+			})
+		).toBeNull()
+	})
+
+	it("only counts deletions the sync mode carries out", async () => {
+		thresholds(5, 0)
+
+		const args = {
+			deleteInLocal: deletions(10),
+			deleteInRemote: [],
+			lastLocalTree: tree(100),
+			lastRemoteTree: tree(100)
+		}
+
+		expect(await exceedsMassDeletionThreshold({ ...args, location: location("localToCloud") })).toBeNull()
+		expect(await exceedsMassDeletionThreshold({ ...args, location: location("localBackup") })).toBeNull()
+		expect(await exceedsMassDeletionThreshold({ ...args, location: location("cloudToLocal") })).toEqual({
+			locationUUID: "location",
+			deleteInRemote: 0,
+			deleteInLocal: 10
+		})
+	})
+
+	it("is disabled with both thresholds at 0", async () => {
+		thresholds(0, 0)
+
+		expect(
+			await exceedsMassDeletionThreshold({
+				location: location("twoWay"),
+				deleteInLocal: deletions(100),
+				deleteInRemote: deletions(100),
+				lastLocalTree: tree(100),
+				lastRemoteTree: tree(100)
+			})
+		).toBeNull()
+	})
+
+	it("falls back to the defaults when nothing is stored", async () => {
+		expect(
+			await exceedsMassDeletionThreshold({
+				location: location("twoWay"),
+				deleteInLocal: [],
+				deleteInRemote: deletions(60),
+				lastLocalTree: tree(100),
+				lastRemoteTree: tree(100)
+			})
+		).not.toBeNull()
+	})
+})
+
+describe("getPathAfterFolderMoves", () => {
+	it("rewrites paths below a moved folder", () => {
+		expect(getPathAfterFolderMoves("docs/a.txt", [{ from: "docs", to: "papers" }])).toBe("papers/a.txt")
+		expect(getPathAfterFolderMoves("docs/sub/a.txt", [{ from: "docs", to: "archive/docs" }])).toBe("archive/docs/sub/a.txt")
+	})
+
+	it("leaves other paths alone", () => {
+		expect(getPathAfterFolderMoves("docs", [{ from: "docs", to: "papers" }])).toBe("docs")
+		expect(getPathAfterFolderMoves("docs2/a.txt", [{ from: "docs", to: "papers" }])).toBe("docs2/a.txt")
+		expect(getPathAfterFolderMoves("a.txt", [])).toBe("a.txt")
+	})
+
+	it("uses the deepest matching move", () => {
+		expect(
+			getPathAfterFolderMoves("docs/sub/a.txt", [
+				{ from: "docs", to: "papers" },
+				{ from: "docs/sub", to: "elsewhere" }
+			])
+		).toBe("elsewhere/a.txt")
+	})
+})
@@ -1,11 +1,76 @@
 import db from "../../db"
 import { sendToAllPorts } from "../ipc"
 import { isSubdir } from "../../helpers"
-import { Location, SyncModes } from "../../../../types"
+import {
+	Location,
+	SyncModes,
+	ConflictModes,
+	SyncConflict,
+	MassDeletion,
+	TransferPolicy,
+	SyncIssue,
+	LocationPriority
+} from "../../../../types"
+import ipc from "../../ipc"
+import { v4 as uuidv4 } from "uuid"
+import constants from "../../../../constants.json"
+import { i18n } from "../../i18n"
 
 const log = window.require("electron-log")
+const pathModule = window.require("path")
+const os = window.require("os")
 const gitignoreParser = window.require("@gerhobbelt/gitignore-parser")
 
+export const isTransferPolicyPaused = async (): Promise<boolean> => {
+	try {
+		const transferPolicy: TransferPolicy | null = await db.get("transferPolicy")
+
+		return transferPolicy !== null && typeof transferPolicy == "object" && transferPolicy.action == "pause"
+	} catch (e) {
+		log.error(e)
+	}
+
+	return false
+}
+
+// The worker, the settings windows and the control socket in the main process all write the stored locations.
+// Every read-modify-write holds this main process semaphore, src/main/lib/control uses the same key.
+const SYNC_LOCATIONS_SEMAPHORE = "updateSyncLocations"
+
+export const updateSyncLocations = async (
+	userId: number,
+	update: (syncLocations: Location[]) => Location[] | Promise<Location[]>
+): Promise<void> => {
+	await ipc.acquireSemaphore(SYNC_LOCATIONS_SEMAPHORE, 1)
+
+	try {
+		const syncLocations: Location[] | null = await db.get("syncLocations:" + userId)
+
+		await db.set("syncLocations:" + userId, await update(Array.isArray(syncLocations) ? syncLocations : []))
+	} finally {
+		await ipc.releaseSemaphore(SYNC_LOCATIONS_SEMAPHORE).catch(log.error)
+	}
+}
+
+export const updateSyncLocation = async (uuid: string, update: (location: Location) => Location): Promise<void> => {
+	const userId = await db.get("userId")
+
+	await updateSyncLocations(userId, syncLocations =>
+		syncLocations.map((location: Location) => (location.uuid === uuid ? update(location) : location))
+	)
+}
+
+const LOCATION_PRIORITIES: Record<LocationPriority, number> = {
+	high: 2,
+	normal: 1,
+	low: 0
+}
+
+// Higher is scheduled first, both for the order of locations and for the shared transfer slots
+export const getLocationPriority = (location: Location): number => {
+	return LOCATION_PRIORITIES[location.priority || "normal"]
+}
+
 export const isSyncLocationPaused = async (uuid: string): Promise<boolean> => {
 	try {
 		const userId = await db.get("userId")
@@ -90,6 +155,97 @@ export const getSyncMode = async (location: Location): Promise<SyncModes> => {
 	return "twoWay"
 }
 
+export const getConflictMode = async (location: Location): Promise<ConflictModes> => {
+	const userId = await db.get("userId")
+	let syncLocations = await db.get("syncLocations:" + userId)
+
+	if (!syncLocations || syncLocations === null || !Array.isArray(syncLocations)) {
+		return "keepBoth"
+	}
+
+	for (let i = 0; i < syncLocations.length; i++) {
+		if (syncLocations[i].uuid == location.uuid && typeof syncLocations[i].conflictMode == "string") {
+			return syncLocations[i].conflictMode
+		}
+	}
+
+	return "keepBoth"
+}
+
+// Builds "name (conflicted copy, host, date).ext", appending a counter if the name is already taken on either side
+export const getConflictCopyPath = (path: string, taken: Record<string, any>[]): string => {
+	const dir = pathModule.posix.dirname(path)
+	const ext = pathModule.posix.extname(path)
+	const name = pathModule.posix.basename(path, ext)
+	const host = os.hostname().replace(/[\\/:*?"<>|]/g, "-")
+	const date = new Date().toISOString().slice(0, 10)
+	const isTaken = (candidate: string) => taken.some(tree => typeof tree[candidate] !== "undefined")
+
+	let counter = 1
+	let candidate = ""
+
+	do {
+		const copyName = name + " (conflicted copy, " + host + ", " + date + (counter > 1 ? " " + counter : "") + ")" + ext
+
+		candidate = dir == "." ? copyName : dir + "/" + copyName
+		counter += 1
+	} while (isTaken(candidate))
+
+	return candidate
+}
+
+export const recordSyncConflicts = async (location: Location, conflicts: SyncConflict[]): Promise<void> => {
+	if (conflicts.length == 0) {
+		return
+	}
+
+	const [syncIssues, conflictResolutions] = await Promise.all([ipc.getSyncIssues(), db.get("conflictResolutions:" + location.uuid)])
+	const resolutions: Record<string, ConflictModes> =
+		conflictResolutions !== null && typeof conflictResolutions == "object" ? conflictResolutions : {}
+
+	for (const conflict of conflicts) {
+		const existing = syncIssues.filter(
+			issue =>
+				issue.type == "conflict" &&
+				typeof issue.conflict !== "undefined" &&
+				issue.conflict.locationUUID == conflict.locationUUID &&
+				issue.conflict.path == conflict.path &&
+				issue.conflict.mode == "ask"
+		)
+
+		if (conflict.mode == "ask") {
+			if (existing.length > 0) {
+				continue
+			}
+		} else {
+			delete resolutions[conflict.path]
+
+			for (const issue of existing) {
+				await ipc.removeSyncIssue(issue.uuid)
+			}
+		}
+
+		await ipc.addSyncIssue({
+			uuid: uuidv4(),
+			type: "conflict",
+			where: "local",
+			path: conflict.localPath,
+			info:
+				conflict.mode == "keepBoth"
+					? "Conflict at " + conflict.localPath + ", kept both versions (local version saved as " + conflict.conflictPath + ")"
+					: conflict.mode == "preferLocal"
+					? "Conflict at " + conflict.localPath + ", kept the local version"
+					: conflict.mode == "preferRemote"
+					? "Conflict at " + conflict.localPath + ", kept the remote version"
+					: "Conflict at " + conflict.localPath + ", waiting for your decision",
+			timestamp: Date.now(),
+			conflict
+		})
+	}
+
+	await db.set("conflictResolutions:" + location.uuid, resolutions)
+}
+
 /*
 It would be a waste of time and resources if we work on all supplied tasks (e.g delete/move)
 This is why we only get the base parent if tasks look like this for example:
@@ -107,6 +263,166 @@ onlyGetBaseParent<Move/Delete>(tasks) will return
 }
 */
 
+export const getMassDeletionThresholds = async (): Promise<{ count: number; percent: number }> => {
+	const [count, percent] = await Promise.all([db.get("massDeletionThresholdCount"), db.get("massDeletionThresholdPercent")])
+
+	return {
+		count: typeof count == "number" ? count : constants.massDeletionThresholdCount,
+		percent: typeof percent == "number" ? percent : constants.massDeletionThresholdPercent
+	}
+}
+
+// Only counts deletions the sync mode would actually carry out, measured against the last known tree of the side being deleted from
+export const exceedsMassDeletionThreshold = async ({
+	location,
+	deleteInLocal,
+	deleteInRemote,
+	lastLocalTree,
+	lastRemoteTree
+}: {
+	location: Location
+	deleteInLocal: any[]
+	deleteInRemote: any[]
+	lastLocalTree: any
+	lastRemoteTree: any
+}): Promise<MassDeletion | null> => {
+	const { count, percent } = await getMassDeletionThresholds()
+
+	if (count <= 0 && percent <= 0) {
+		return null
+	}
+
+	const exceeds = (deletions: number, tree: any): boolean => {
+		if (deletions <= 0) {
+			return false
+		}
+
+		if (count > 0 && deletions >= count) {
+			return true
+		}
+
+		if (percent > 0 && deletions >= constants.massDeletionPercentMinCount) {
+			const total = Object.keys(tree.files).length + Object.keys(tree.folders).length
+
+			return total > 0 && (deletions / total) * 100 >= percent
+		}
+
+		return false
+	}
+
+	const remote = ["twoWay", "localToCloud"].includes(location.type) ? deleteInRemote.length : 0
+	const local = ["twoWay", "cloudToLocal"].includes(location.type) ? deleteInLocal.length : 0
+
+	if (!exceeds(remote, lastRemoteTree) && !exceeds(local, lastLocalTree)) {
+		return null
+	}
+
+	return {
+		locationUUID: location.uuid,
+		deleteInRemote: remote,
+		deleteInLocal: local
+	}
+}
+
+// Held mass deletions pause only their own location, so they must not stop the others from syncing
+export const isBlockingSyncIssue = (issue: SyncIssue): boolean => {
+	return issue.type === "critical" && typeof issue.massDeletion == "undefined"
+}
+
+// Turns discarded deletions back into transfers: whatever the other side deleted gets uploaded again from local,
+// whatever was deleted locally gets downloaded again from remote
+export const getMassDeletionRestoreTasks = ({
+	deleteInLocal,
+	deleteInRemote,
+	localTreeNow,
+	remoteTreeNow
+}: {
+	deleteInLocal: any[]
+	deleteInRemote: any[]
+	localTreeNow: any
+	remoteTreeNow: any
+}): { uploadToRemote: any[]; downloadFromRemote: any[] } => {
+	const uploadToRemote: any[] = []
+	const downloadFromRemote: any[] = []
+	const covers = (paths: string[], path: string): boolean => paths.some(parent => path === parent || path.startsWith(parent + "/"))
+	const localPaths: string[] = deleteInLocal.map(task => task.path)
+	const remotePaths: string[] = deleteInRemote.map(task => task.path)
+
+	for (const type of ["folder", "file"]) {
+		const localItems = type == "folder" ? localTreeNow.folders : localTreeNow.files
+		const remoteItems = type == "folder" ? remoteTreeNow.folders : remoteTreeNow.files
+
+		for (const path in localItems) {
+			if (covers(localPaths, path)) {
+				uploadToRemote.push({
+					uuid: uuidv4(),
+					path,
+					type,
+					item: {
+						...localItems[path],
+						uuid: uuidv4()
+					}
+				})
+			}
+		}
+
+		for (const path in remoteItems) {
+			if (covers(remotePaths, path)) {
+				downloadFromRemote.push({
+					uuid: uuidv4(),
+					path,
+					type,
+					item: remoteItems[path]
+				})
+			}
+		}
+	}
+
+	return {
+		uploadToRemote,
+		downloadFromRemote
+	}
+}
+
+export const holdMassDeletion = async (location: Location, massDeletion: MassDeletion): Promise<void> => {
+	const [syncIssues, lang] = await Promise.all([ipc.getSyncIssues(), db.get("lang")])
+
+	await updateSyncLocation(location.uuid, current => ({ ...current, paused: true }))
+
+	if (
+		syncIssues.filter(issue => typeof issue.massDeletion !== "undefined" && issue.massDeletion.locationUUID == location.uuid).length > 0
+	) {
+		return
+	}
+
+	const total = massDeletion.deleteInRemote + massDeletion.deleteInLocal
+
+	await ipc.addSyncIssue({
+		uuid: uuidv4(),
+		type: "critical",
+		where: massDeletion.deleteInRemote >= massDeletion.deleteInLocal ? "remote" : "local",
+		path: pathModule.normalize(location.local),
+		info:
+			"Held " +
+			total +
+			" deletions for location " +
+			location.local +
+			" (" +
+			massDeletion.deleteInRemote +
+			" remote, " +
+			massDeletion.deleteInLocal +
+			" local), waiting for your confirmation",
+		timestamp: Date.now(),
+		massDeletion
+	})
+
+	ipc.showTrayNotification(
+		i18n(lang, "massDeletionNotificationTitle"),
+		i18n(lang, "massDeletionNotificationBody", true, ["__COUNT__", "__PATH__"], [total.toString(), location.local]),
+		"issues"
+	).catch(log.error)
+}
+
 export const onlyGetBaseParentMove = (tasks: any[]): any[] => {
 	const sorted = tasks.sort((a: any, b: any) => {
 		return a.from.split("/").length - b.from.split("/").length
@@ -141,6 +457,20 @@ export const onlyGetBaseParentMove = (tasks: any[]): any[] => {
 	return newTasks
 }
 
+// Rewrites a path under a folder that was renamed or moved to where it lives now. The deepest moved folder wins,
+// its "to" already contains the new paths of all folders above it.
+export const getPathAfterFolderMoves = (path: string, folderMoves: { from: string; to: string }[]): string => {
+	let match: { from: string; to: string } | null = null
+
+	for (const move of folderMoves) {
+		if (path.startsWith(move.from + "/") && (match === null || move.from.length > match.from.length)) {
+			match = move
+		}
+	}
+
+	return match === null ? path : match.to + path.slice(match.from.length)
+}
+
 export const onlyGetBaseParentDelete = (tasks: any[]): any[] => {
 	const sorted = tasks.sort((a: any, b: any) => {
 		return a.path.split("/").length - b.path.split("/").length
@@ -247,24 +577,14 @@ export const emitSyncStatusLocation = (type: string, data: any): void => {
 
 export const removeRemoteLocation = async (location: any): Promise<void> => {
 	try {
-		const userId = await db.get("userId")
-		let currentSyncLocations = await db.get("syncLocations:" + userId)
-
-		if (!Array.isArray(currentSyncLocations)) {
-			currentSyncLocations = []
-		}
-
-		for (let i = 0; i < currentSyncLocations.length; i++) {
-			if (currentSyncLocations[i].uuid == location.uuid) {
-				currentSyncLocations[i].remoteUUID = undefined
-				currentSyncLocations[i].remote = undefined
-				currentSyncLocations[i].remoteName = undefined
-				currentSyncLocations[i].paused = true
-			}
-		}
-
 		await Promise.all([
-			db.set("syncLocations:" + userId, currentSyncLocations),
+			updateSyncLocation(location.uuid, current => ({
+				...current,
+				remoteUUID: undefined,
+				remote: undefined,
+				remoteName: undefined,
+				paused: true
+			})),
 			db.remove("lastLocalTree:" + location.uuid),
 			db.remove("lastRemoteTree:" + location.uuid)
 		])
@@ -302,18 +622,5 @@ export const isIgnoredBySelectiveSync = (selectiveSyncRemoteIgnore: { [key: stri
 }
 
 export const updateSyncLocationBusy = async (uuid: string, busy: boolean): Promise<void> => {
-	const userId = await db.get("userId")
-	let syncLocations = await db.get("syncLocations:" + userId)
-
-	if (!Array.isArray(syncLocations)) {
-		syncLocations = []
-	}
-
-	for (let i = 0; i < syncLocations.length; i++) {
-		if (syncLocations[i].uuid === uuid) {
-			syncLocations[i].busy = busy
-		}
-	}
-
-	await db.set("syncLocations:" + userId, syncLocations)
+	await updateSyncLocation(uuid, location => ({ ...location, busy }))
 }
@@ -47,18 +47,15 @@ const downloadThreadsSemaphore = new Semaphore(constants.maxDownloadThreads)
 const downloadFile = (absolutePath: string, file: any) => {
 	return new Promise((resolve, reject) => {
 		fsLocal
-			.getTempDir()
-			.then(tmpDir => {
-				try {
-					var fileTmpPath = fsLocal.normalizePath(tmpDir + "/" + uuidv4())
-				} catch (e) {
-					return reject(e)
-				}
-
-				Promise.all([fsLocal.rmPermanent(absolutePath), fsLocal.rmPermanent(fileTmpPath)])
-					.then(async () => {
+			.getPartialDownloadPath(file.uuid, absolutePath)
+			.then(fileTmpPath => {
+				Promise.all([fsLocal.rmPermanent(absolutePath), fsLocal.loadPartialDownload(fileTmpPath, file)])
+					.then(async ([_, partial]) => {
 						const fileChunks = file.chunks
-						let currentWriteIndex = 0
+						let currentWriteIndex = partial.written
+						let bytesWritten = partial.bytes
+						// Manifest writes are queued so they land in order and the last one is done before the file is moved into place
+						let manifestWrite: Promise<void> = Promise.resolve()
 
 						const downloadTask = (index: number): Promise<{ index: number; data: Buffer }> => {
 							return new Promise((resolve, reject) => {
@@ -83,7 +80,7 @@ const downloadFile = (absolutePath: string, file: any) => {
 							})
 						}
 
-						const writeChunk = (index: number, data: any) => {
+						const writeChunk = (index: number, data: Buffer) => {
 							if (index !== currentWriteIndex) {
 								return setTimeout(() => {
 									writeChunk(index, data)
@@ -94,6 +91,14 @@ const downloadFile = (absolutePath: string, file: any) => {
 								.appendFile(fileTmpPath, data)
 								.then(() => {
 									currentWriteIndex += 1
+									bytesWritten += data.byteLength
+
+									const written = currentWriteIndex
+									const bytes = bytesWritten
+
+									manifestWrite = manifestWrite
+										.then(() => fsLocal.savePartialDownload(fileTmpPath, file, written, bytes))
+										.catch(log.error)
 								})
 								.catch(err => {
 									downloadThreadsSemaphore.purge()
@@ -104,9 +109,23 @@ const downloadFile = (absolutePath: string, file: any) => {
 
 						try {
 							await new Promise<void>((resolve, reject) => {
-								let done = 0
+								let done = currentWriteIndex
+
+								// Empty files have no chunks, we only need to create the file itself
+								if (fileChunks <= 0) {
+									fsLocal
+										.appendFile(fileTmpPath, Buffer.alloc(0))
+										.then(() => resolve())
+										.catch(reject)
+
+									return
+								}
+
+								if (done >= fileChunks) {
+									return resolve()
+								}
 
-								for (let i = 0; i < fileChunks; i++) {
+								for (let i = currentWriteIndex; i < fileChunks; i++) {
 									downloadThreadsSemaphore.acquire().then(() => {
 										downloadTask(i)
 											.then(({ index, data }) => {
@@ -143,11 +162,12 @@ const downloadFile = (absolutePath: string, file: any) => {
 								}, 10)
 							})
 						} catch (e) {
-							fsLocal.unlink(fileTmpPath).catch(log.error)
-
+							// The partial file is kept so the next attempt can continue where this one stopped
 							return reject(e)
 						}
 
+						await manifestWrite
+
 						const now = Date.now()
 						const lastModified = convertTimestampToMs(file.metadata.lastModified)
 						const utimesLastModified =
@@ -156,6 +176,8 @@ const downloadFile = (absolutePath: string, file: any) => {
 						fsLocal
 							.move(fileTmpPath, absolutePath)
 							.then(() => {
+								fsLocal.rmPermanent(fileTmpPath + ".json").catch(log.error)
+
 								fsLocal
 									.utimes(absolutePath, new Date(utimesLastModified), new Date(utimesLastModified))
 									.then(() => {
@@ -165,7 +187,7 @@ const downloadFile = (absolutePath: string, file: any) => {
 												fsLocal
 													.gracefulLStat(absolutePath)
 													.then((stat: any) => {
-														if (stat.size <= 0) {
+														if (stat.size <= 0 && fileChunks > 0) {
 															fsLocal.rmPermanent(absolutePath)
 
 															return reject(new Error(absolutePath + " size = " + stat.size))
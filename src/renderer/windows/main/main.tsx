@@ -4,18 +4,18 @@ import useLang from "../../lib/hooks/useLang"
 import usePlatform from "../../lib/hooks/usePlatform"
 import Container from "../../components/Container"
 import eventListener from "../../lib/eventListener"
-import db from "../../lib/db"
 import Titlebar from "../../components/Titlebar"
 import IsOnlineBottomToast from "../../components/IsOnlineBottomToast"
 import MainFooter from "../../components/MainFooter"
 import MainList from "../../components/MainList"
 import MainHeader from "../../components/MainHeader"
-import { throttle, debounce } from "lodash"
+import { throttle } from "lodash"
 import constants from "../../../constants.json"
 import MaxStorageModal from "../../components/MaxStorageModal"
 import useIsOnline from "../../lib/hooks/useIsOnline"
 import { calcSpeed, calcTimeLeft } from "../../lib/helpers"
 import ipc from "../../lib/ipc"
+import { HistoryEntry } from "../../../types"
 
 const log = window.require("electron-log")
 const { ipcRenderer } = window.require("electron")
@@ -25,6 +25,26 @@ export interface TransferProgress {
 	bytes: number
 }
 
+// Done tasks are persisted by the history journal in the main process, this restores the shape the list expects
+const historyEntryToDoneTask = (entry: HistoryEntry): any => {
+	return {
+		type: entry.type,
+		task: {
+			path: entry.path,
+			type: entry.itemType,
+			...(typeof entry.from == "string" ? { from: entry.from } : {}),
+			...(typeof entry.to == "string" ? { to: entry.to } : {}),
+			...(typeof entry.uuid == "string" ? { item: { uuid: entry.uuid } } : {})
+		},
+		location: {
+			uuid: entry.locationUUID,
+			local: entry.local
+		},
+		timestamp: entry.timestamp,
+		...(entry.result == "err" ? { err: entry.err || "" } : {})
+	}
+}
+
 const MainWindow = memo(({ userId, email, windowId }: { userId: number; email: string; windowId: string }) => {
 	const darkMode = useDarkMode()
 	const lang = useLang()
@@ -44,15 +64,6 @@ const MainWindow = memo(({ userId, email, windowId }: { userId: number; email: s
 	const allBytes = useRef<number>(0)
 	const progressStarted = useRef<number>(-1)
 
-	const setDoneTasksThrottled = useCallback(
-		debounce(({ doneTasks }) => {
-			if (doneTasks.length > 0) {
-				db.set("doneTasks:" + userId, doneTasks.slice(0, 1024)).catch(log.error)
-			}
-		}, 2500),
-		[]
-	)
-
 	const throttleActivityUpdate = useCallback(
 		throttle(({ doneTasks, runningTasks, currentUploads, currentDownloads }) => {
 			setActivity([
@@ -98,21 +109,31 @@ const MainWindow = memo(({ userId, email, windowId }: { userId: number; email: s
 		ipc.trayAvailable().then(setIsTrayAvailable).catch(console.error)
 	}, [])
 
-	useEffect(() => {
-		setDoneTasksThrottled({ doneTasks })
-	}, [doneTasks])
-
 	useEffect(() => {
 		throttleActivityUpdate({ doneTasks, runningTasks, currentUploads, currentDownloads })
 		throttleTotalRemainingUpdate()
 	}, [doneTasks, runningTasks, currentUploads, currentDownloads])
 
 	useEffect(() => {
-		db.get("doneTasks:" + userId)
-			.then(result => {
-				if (Array.isArray(result)) {
-					setDoneTasks(result)
-				}
+		// Failed tasks are kept in the list as well so they can be filtered for
+		const addFailedTask = (type: string, task: any, now: number): void => {
+			setDoneTasks((prev: any) => [
+				{
+					type,
+					task: {
+						...task.task
+					},
+					location: task.location,
+					timestamp: now,
+					err: task.err && task.err.message ? task.err.message : String(task.err)
+				},
+				...prev
+			])
+		}
+
+		ipc.queryHistory({ limit: 1024 })
+			.then(entries => {
+				setDoneTasks((prev: any) => [...prev, ...entries.map(historyEntryToDoneTask)])
 			})
 			.catch(log.error)
 
@@ -130,6 +151,7 @@ const MainWindow = memo(({ userId, email, windowId }: { userId: number; email: s
 							.reduce((current, key) => Object.assign(current, { [key]: prev[key] }), {})
 					)
 					setRunningTasks((prev: any) => [...prev.filter((item: any) => item.task.uuid !== task.task.uuid)])
+					addFailedTask(type, task, now)
 				} else {
 					if (task.status == "start" && task.task.type == "file") {
 						if (progressStarted.current == -1) {
@@ -223,6 +245,7 @@ const MainWindow = memo(({ userId, email, windowId }: { userId: number; email: s
 							.reduce((current, key) => Object.assign(current, { [key]: prev[key] }), {})
 					)
 					setRunningTasks((prev: any) => [...prev.filter((item: any) => item.task.uuid !== task.task.uuid)])
+					addFailedTask(type, task, now)
 				} else {
 					if (task.status == "start" && task.task.type == "file") {
 						if (progressStarted.current == -1) {
@@ -311,6 +334,7 @@ const MainWindow = memo(({ userId, email, windowId }: { userId: number; email: s
 			} else {
 				if (task.err) {
 					setRunningTasks((prev: any) => [...prev.filter((item: any) => item.task.uuid !== task.task.uuid)])
+					addFailedTask(type, task, now)
 				} else {
 					if (task.status == "start") {
 						setRunningTasks((prev: any) => [
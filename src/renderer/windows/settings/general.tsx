@@ -22,7 +22,9 @@ import db from "../../lib/db"
 import colors from "../../styles/colors"
 import { formatBytes } from "../../lib/helpers"
 import { sendToAllPorts } from "../../lib/worker/ipc"
-import { Location } from "../../../types"
+import { Location, DbMigrationStatus, TransferPolicyActions } from "../../../types"
+import useDb from "../../lib/hooks/useDb"
+import constants from "../../../constants.json"
 
 const log = window.require("electron-log")
 
@@ -36,6 +38,18 @@ const SettingsWindowGeneral = memo(({ darkMode, lang, platform }: { darkMode: bo
 	const [clearLocalTrashDirsModalOpen, setClearLocalTrashDirsModalOpen] = useState<boolean>(false)
 	const [localTrashDirsSize, setLocalTrashDirsSize] = useState<number>(0)
 	const [clearingLocalTrashDirs, setClearingLocalTrashDirs] = useState<boolean>(false)
+	const [dbMigrationStatus, setDbMigrationStatus] = useState<DbMigrationStatus | undefined>(undefined)
+	const massDeletionThresholdCount: number = useDb("massDeletionThresholdCount", constants.massDeletionThresholdCount)
+	const massDeletionThresholdPercent: number = useDb("massDeletionThresholdPercent", constants.massDeletionThresholdPercent)
+	const meteredPolicy: TransferPolicyActions = useDb("meteredPolicy", "none")
+	const batteryPolicy: TransferPolicyActions = useDb("batteryPolicy", "none")
+	const batteryPolicyThreshold: number = useDb("batteryPolicyThreshold", constants.batteryPolicyThreshold)
+
+	const updateTransferPolicySetting = useCallback((key: string, value: TransferPolicyActions | number) => {
+		db.set(key, value)
+			.then(() => ipc.evaluateTransferPolicy())
+			.catch(log.error)
+	}, [])
 
 	const getOpenAtStartup = useCallback(() => {
 		ipc.getOpenOnStartup()
@@ -101,11 +115,16 @@ const SettingsWindowGeneral = memo(({ darkMode, lang, platform }: { darkMode: bo
 			.catch(log.error)
 	}, [])
 
+	const getDbMigrationStatus = useCallback(() => {
+		ipc.getDbMigrationStatus().then(setDbMigrationStatus).catch(log.error)
+	}, [])
+
 	const populate = useCallback(() => {
 		getOpenAtStartup()
 		getAppVersion()
 		getExcludeDot()
 		getLocalTrashDirsSize()
+		getDbMigrationStatus()
 	}, [])
 
 	useEffect(() => {
@@ -137,6 +156,56 @@ const SettingsWindowGeneral = memo(({ darkMode, lang, platform }: { darkMode: bo
 				height="100%"
 				flexDirection="column"
 			>
+				{typeof dbMigrationStatus !== "undefined" && typeof dbMigrationStatus.error !== "undefined" && (
+					<Flex
+						width="80%"
+						margin="0px auto"
+						marginTop="10px"
+						paddingBottom="8px"
+						borderBottom={"1px solid " + colors(platform, darkMode, "borderPrimary")}
+					>
+						<Text
+							color={colors(platform, darkMode, "danger")}
+							fontSize={14}
+							wordBreak="break-all"
+						>
+							{i18n(
+								lang,
+								"dbMigrationFailed",
+								true,
+								["__VERSION__", "__DESCRIPTION__", "__MESSAGE__"],
+								[
+									dbMigrationStatus.error.version.toString(),
+									dbMigrationStatus.error.description,
+									dbMigrationStatus.error.message
+								]
+							)}
+						</Text>
+					</Flex>
+				)}
+				{typeof dbMigrationStatus !== "undefined" && dbMigrationStatus.corrupt.length > 0 && (
+					<Flex
+						width="80%"
+						margin="0px auto"
+						marginTop="10px"
+						paddingBottom="8px"
+						borderBottom={"1px solid " + colors(platform, darkMode, "borderPrimary")}
+					>
+						<Text
+							color={colors(platform, darkMode, "danger")}
+							fontSize={14}
+							wordBreak="break-all"
+						>
+							{i18n(
+								lang,
+								"dbCorruptEntries",
+								true,
+								["__COUNT__", "__FILES__"],
+								[dbMigrationStatus.corrupt.length.toString(), dbMigrationStatus.corrupt.join(", ")]
+							)}
+						</Text>
+					</Flex>
+				)}
 				{platform !== "linux" && (
 					<Flex
 						flexDirection="row"
@@ -467,6 +536,408 @@ const SettingsWindowGeneral = memo(({ darkMode, lang, platform }: { darkMode: bo
 						</Select>
 					</Flex>
 				</Flex>
+				<Flex
+					flexDirection="row"
+					justifyContent="space-between"
+					alignItems="center"
+					width="80%"
+					margin="0px auto"
+					marginTop="10px"
+					paddingBottom="8px"
+					borderBottom={"1px solid " + colors(platform, darkMode, "borderPrimary")}
+				>
+					<Flex>
+						<Text
+							color={colors(platform, darkMode, "textPrimary")}
+							fontSize={15}
+						>
+							{i18n(lang, "massDeletionThresholdCount")}
+						</Text>
+					</Flex>
+					<Flex>
+						<Select
+							value={massDeletionThresholdCount}
+							color={colors(platform, darkMode, "textPrimary")}
+							fontSize={14}
+							height="30px"
+							borderColor={colors(platform, darkMode, "borderPrimary")}
+							_focus={{
+								outline: "none"
+							}}
+							outline="none"
+							_active={{
+								outline: "none"
+							}}
+							onChange={(e: any) => {
+								db.set("massDeletionThresholdCount", parseInt(e.nativeEvent.target.value)).catch(log.error)
+							}}
+						>
+							<option
+								value={100}
+								style={{
+									backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+									height: "30px",
+									borderRadius: "10px"
+								}}
+							>
+								100
+							</option>
+							<option
+								value={500}
+								style={{
+									backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+									height: "30px",
+									borderRadius: "10px"
+								}}
+							>
+								500
+							</option>
+							<option
+								value={1000}
+								style={{
+									backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+									height: "30px",
+									borderRadius: "10px"
+								}}
+							>
+								1000
+							</option>
+							<option
+								value={5000}
+								style={{
+									backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+									height: "30px",
+									borderRadius: "10px"
+								}}
+							>
+								5000
+							</option>
+							<option
+								value={0}
+								style={{
+									backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+									height: "30px",
+									borderRadius: "10px"
+								}}
+							>
+								{i18n(lang, "massDeletionThresholdDisabled")}
+							</option>
+						</Select>
+					</Flex>
+				</Flex>
+				<Flex
+					flexDirection="row"
+					justifyContent="space-between"
+					alignItems="center"
+					width="80%"
+					margin="0px auto"
+					marginTop="10px"
+					paddingBottom="8px"
+					borderBottom={"1px solid " + colors(platform, darkMode, "borderPrimary")}
+				>
+					<Flex>
+						<Text
+							color={colors(platform, darkMode, "textPrimary")}
+							fontSize={15}
+						>
+							{i18n(lang, "massDeletionThresholdPercent")}
+						</Text>
+					</Flex>
+					<Flex>
+						<Select
+							value={massDeletionThresholdPercent}
+							color={colors(platform, darkMode, "textPrimary")}
+							fontSize={14}
+							height="30px"
+							borderColor={colors(platform, darkMode, "borderPrimary")}
+							_focus={{
+								outline: "none"
+							}}
+							outline="none"
+							_active={{
+								outline: "none"
+							}}
+							onChange={(e: any) => {
+								db.set("massDeletionThresholdPercent", parseInt(e.nativeEvent.target.value)).catch(log.error)
+							}}
+						>
+							<option
+								value={10}
+								style={{
+									backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+									height: "30px",
+									borderRadius: "10px"
+								}}
+							>
+								10%
+							</option>
+							<option
+								value={25}
+								style={{
+									backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+									height: "30px",
+									borderRadius: "10px"
+								}}
+							>
+								25%
+							</option>
+							<option
+								value={50}
+								style={{
+									backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+									height: "30px",
+									borderRadius: "10px"
+								}}
+							>
+								50%
+							</option>
+							<option
+								value={75}
+								style={{
+									backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+									height: "30px",
+									borderRadius: "10px"
+								}}
+							>
+								75%
+							</option>
+							<option
+								value={0}
+								style={{
+									backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+									height: "30px",
+									borderRadius: "10px"
+								}}
+							>
+								{i18n(lang, "massDeletionThresholdDisabled")}
+							</option>
+						</Select>
+					</Flex>
+				</Flex>
+				<Flex
+					flexDirection="row"
+					justifyContent="space-between"
+					alignItems="center"
+					width="80%"
+					margin="0px auto"
+					marginTop="10px"
+					paddingBottom="8px"
+					borderBottom={"1px solid " + colors(platform, darkMode, "borderPrimary")}
+				>
+					<Flex>
+						<Text
+							color={colors(platform, darkMode, "textPrimary")}
+							fontSize={15}
+						>
+							{i18n(lang, "meteredPolicy")}
+						</Text>
+					</Flex>
+					<Flex>
+						{platform == "mac" ? (
+							<Text
+								color={colors(platform, darkMode, "textSecondary")}
+								fontSize={14}
+							>
+								{i18n(lang, "meteredPolicyUnsupported")}
+							</Text>
+						) : (
+							<Select
+								value={meteredPolicy}
+								color={colors(platform, darkMode, "textPrimary")}
+								fontSize={14}
+								height="30px"
+								borderColor={colors(platform, darkMode, "borderPrimary")}
+								_focus={{
+									outline: "none"
+								}}
+								outline="none"
+								_active={{
+									outline: "none"
+								}}
+								onChange={(e: any) => updateTransferPolicySetting("meteredPolicy", e.nativeEvent.target.value)}
+							>
+								<option
+									value="none"
+									style={{
+										backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+										height: "30px",
+										borderRadius: "10px"
+									}}
+								>
+									{i18n(lang, "transferPolicyNone")}
+								</option>
+								<option
+									value="pause"
+									style={{
+										backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+										height: "30px",
+										borderRadius: "10px"
+									}}
+								>
+									{i18n(lang, "transferPolicyPause")}
+								</option>
+								<option
+									value="throttle"
+									style={{
+										backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+										height: "30px",
+										borderRadius: "10px"
+									}}
+								>
+									{i18n(lang, "transferPolicyThrottle")}
+								</option>
+							</Select>
+						)}
+					</Flex>
+				</Flex>
+				<Flex
+					flexDirection="row"
+					justifyContent="space-between"
+					alignItems="center"
+					width="80%"
+					margin="0px auto"
+					marginTop="10px"
+					paddingBottom="8px"
+					borderBottom={"1px solid " + colors(platform, darkMode, "borderPrimary")}
+				>
+					<Flex>
+						<Text
+							color={colors(platform, darkMode, "textPrimary")}
+							fontSize={15}
+						>
+							{i18n(lang, "batteryPolicy")}
+						</Text>
+					</Flex>
+					<Flex>
+						<Select
+							value={batteryPolicy}
+							color={colors(platform, darkMode, "textPrimary")}
+							fontSize={14}
+							height="30px"
+							borderColor={colors(platform, darkMode, "borderPrimary")}
+							_focus={{
+								outline: "none"
+							}}
+							outline="none"
+							_active={{
+								outline: "none"
+							}}
+							onChange={(e: any) => updateTransferPolicySetting("batteryPolicy", e.nativeEvent.target.value)}
+						>
+							<option
+								value="none"
+								style={{
+									backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+									height: "30px",
+									borderRadius: "10px"
+								}}
+							>
+								{i18n(lang, "transferPolicyNone")}
+							</option>
+							<option
+								value="pause"
+								style={{
+									backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+									height: "30px",
+									borderRadius: "10px"
+								}}
+							>
+								{i18n(lang, "transferPolicyPause")}
+							</option>
+							<option
+								value="throttle"
+								style={{
+									backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+									height: "30px",
+									borderRadius: "10px"
+								}}
+							>
+								{i18n(lang, "transferPolicyThrottle")}
+							</option>
+						</Select>
+					</Flex>
+				</Flex>
+				{batteryPolicy !== "none" && (
+					<Flex
+						flexDirection="row"
+						justifyContent="space-between"
+						alignItems="center"
+						width="80%"
+						margin="0px auto"
+						marginTop="10px"
+						paddingBottom="8px"
+						borderBottom={"1px solid " + colors(platform, darkMode, "borderPrimary")}
+					>
+						<Flex>
+							<Text
+								color={colors(platform, darkMode, "textPrimary")}
+								fontSize={15}
+							>
+								{i18n(lang, "batteryPolicyThreshold")}
+							</Text>
+						</Flex>
+						<Flex>
+							<Select
+								value={batteryPolicyThreshold}
+								color={colors(platform, darkMode, "textPrimary")}
+								fontSize={14}
+								height="30px"
+								borderColor={colors(platform, darkMode, "borderPrimary")}
+								_focus={{
+									outline: "none"
+								}}
+								outline="none"
+								_active={{
+									outline: "none"
+								}}
+								onChange={(e: any) =>
+									updateTransferPolicySetting("batteryPolicyThreshold", parseInt(e.nativeEvent.target.value))
+								}
+							>
+								<option
+									value={20}
+									style={{
+										backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+										height: "30px",
+										borderRadius: "10px"
+									}}
+								>
+									20%
+								</option>
+								<option
+									value={30}
+									style={{
+										backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+										height: "30px",
+										borderRadius: "10px"
+									}}
+								>
+									30%
+								</option>
+								<option
+									value={50}
+									style={{
+										backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+										height: "30px",
+										borderRadius: "10px"
+									}}
+								>
+									50%
+								</option>
+								<option
+									value={100}
+									style={{
+										backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+										height: "30px",
+										borderRadius: "10px"
+									}}
+								>
+									{i18n(lang, "transferPolicyAlways")}
+								</option>
+							</Select>
+						</Flex>
+					</Flex>
+				)}
 				<Flex
 					flexDirection="row"
 					justifyContent="space-between"
@@ -619,18 +1090,14 @@ const SettingsWindowGeneral = memo(({ darkMode, lang, platform }: { darkMode: bo
 							textDecoration="none"
 							_hover={{ textDecoration: "none" }}
 							onClick={() => {
-								db.get("userId")
-									.then(userId => {
-										db.set("doneTasks:" + userId, [])
-											.then(() => {
-												setClearLocalEventLogModalOpen(false)
+								ipc.clearHistory()
+									.then(() => {
+										setClearLocalEventLogModalOpen(false)
 
-												sendToAllPorts({
-													type: "doneTasksCleared",
-													data: {}
-												})
-											})
-											.catch(log.error)
+										sendToAllPorts({
+											type: "doneTasksCleared",
+											data: {}
+										})
 									})
 									.catch(log.error)
 							}}
@@ -0,0 +1,292 @@
+import React, { memo, useState, useEffect, useCallback } from "react"
+import { Flex, Text, Link, Input, Select, Spinner } from "@chakra-ui/react"
+import { i18n } from "../../lib/i18n"
+import ipc from "../../lib/ipc"
+import colors from "../../styles/colors"
+import { MdHistory } from "react-icons/md"
+import useDb from "../../lib/hooks/useDb"
+import eventListener from "../../lib/eventListener"
+import { formatBytes } from "../../lib/helpers"
+import { debounce } from "lodash"
+import { HistoryEntry, HistoryQuery, Location } from "../../../types"
+
+const log = window.require("electron-log")
+const pathModule = window.require("path")
+
+const HISTORY_PAGE_SIZE = 100
+
+const SYNC_TASK_LANG_KEYS: Record<string, string> = {
+	downloadFromRemote: "syncTaskDownloadFromRemote",
+	uploadToRemote: "syncTaskUploadToRemote",
+	renameInRemote: "syncTaskRenameInRemote",
+	renameInLocal: "syncTaskRenameInLocal",
+	moveInRemote: "syncTaskMoveInRemote",
+	moveInLocal: "syncTaskMoveInLocal",
+	deleteInRemote: "syncTaskDeleteInRemote",
+	deleteInLocal: "syncTaskDeleteInLocal"
+}
+
+const HistoryItem = memo(
+	({ darkMode, lang, platform, entry }: { darkMode: boolean; lang: string; platform: string; entry: HistoryEntry }) => {
+		return (
+			<Flex
+				paddingLeft="13px"
+				paddingRight="10px"
+				paddingTop="8px"
+				paddingBottom="8px"
+				height="auto"
+				flexDirection="column"
+				borderBottom={"1px solid " + colors(platform, darkMode, "borderPrimary")}
+				width="100%"
+			>
+				<Text
+					color={colors(platform, darkMode, "textPrimary")}
+					fontSize={13}
+					width="100%"
+					wordBreak="break-all"
+					userSelect="text"
+				>
+					{typeof entry.from == "string" && typeof entry.to == "string" ? entry.from + " → " + entry.to : entry.path}
+				</Text>
+				<Text
+					color={colors(platform, darkMode, "textSecondary")}
+					fontSize={11}
+					marginTop="2px"
+					wordBreak="break-all"
+					userSelect="text"
+				>
+					{typeof SYNC_TASK_LANG_KEYS[entry.type] == "string" ? i18n(lang, SYNC_TASK_LANG_KEYS[entry.type]) : entry.type}
+					&nbsp; &#8226; &nbsp;
+					{i18n(lang, entry.direction == "remoteToLocal" ? "historyChangedRemotely" : "historyChangedLocally")}
+					&nbsp; &#8226; &nbsp;
+					{pathModule.basename(entry.local)}
+					{entry.itemType == "file" && entry.size > 0 && <>&nbsp; &#8226; &nbsp;{formatBytes(entry.size)}</>}
+					&nbsp; &#8226; &nbsp;
+					{new Date(entry.timestamp).toLocaleString()}
+				</Text>
+				{entry.result == "err" && (
+					<Text
+						color="red.500"
+						fontSize={11}
+						marginTop="2px"
+						wordBreak="break-all"
+						userSelect="text"
+					>
+						{typeof entry.err == "string" ? entry.err : i18n(lang, "historyFailed")}
+					</Text>
+				)}
+			</Flex>
+		)
+	}
+)
+
+const SettingsWindowHistory = memo(
+	({ darkMode, lang, platform, userId }: { darkMode: boolean; lang: string; platform: string; userId: number }) => {
+		const syncLocations: Location[] = useDb("syncLocations:" + userId, [])
+		const [entries, setEntries] = useState<HistoryEntry[]>([])
+		const [search, setSearch] = useState<string>("")
+		const [locationUUID, setLocationUUID] = useState<string>("")
+		const [loading, setLoading] = useState<boolean>(true)
+		const [canLoadMore, setCanLoadMore] = useState<boolean>(false)
+
+		const loadHistory = useCallback((query: HistoryQuery, append: boolean = false) => {
+			setLoading(true)
+
+			ipc.queryHistory({ ...query, limit: HISTORY_PAGE_SIZE })
+				.then(result => {
+					setEntries(prev => (append ? [...prev, ...result] : result))
+					setCanLoadMore(result.length >= HISTORY_PAGE_SIZE)
+					setLoading(false)
+				})
+				.catch(err => {
+					log.error(err)
+
+					setLoading(false)
+				})
+		}, [])
+
+		const loadHistoryDebounced = useCallback(debounce(loadHistory, 250), [])
+
+		const loadMore = useCallback(() => {
+			if (entries.length == 0) {
+				return
+			}
+
+			// Entries are sorted newest first, so the next page starts right before the oldest one shown
+			loadHistory(
+				{
+					path: search,
+					locationUUID,
+					before: entries[entries.length - 1].timestamp
+				},
+				true
+			)
+		}, [entries, search, locationUUID])
+
+		useEffect(() => {
+			loadHistoryDebounced({ path: search, locationUUID })
+		}, [search, locationUUID])
+
+		useEffect(() => {
+			const doneTasksClearedListener = eventListener.on("doneTasksCleared", () => {
+				setEntries([])
+				setCanLoadMore(false)
+			})
+
+			return () => {
+				doneTasksClearedListener.remove()
+			}
+		}, [])
+
+		return (
+			<Flex
+				width="100%"
+				height="100%"
+				flexDirection="column"
+				alignItems="center"
+			>
+				<Flex
+					width="80%"
+					flexDirection="row"
+					alignItems="center"
+					gap="10px"
+					marginTop="30px"
+				>
+					<Input
+						value={search}
+						placeholder={i18n(lang, "historySearchPlaceholder")}
+						onChange={(e: any) => setSearch(e.target.value)}
+						color={colors(platform, darkMode, "textPrimary")}
+						fontSize={14}
+						height="30px"
+						borderColor={colors(platform, darkMode, "borderPrimary")}
+						_focus={{ outline: "none" }}
+						outline="none"
+						_active={{ outline: "none" }}
+					/>
+					<Select
+						value={locationUUID}
+						width="200px"
+						flexShrink={0}
+						color={colors(platform, darkMode, "textPrimary")}
+						fontSize={14}
+						height="30px"
+						borderColor={colors(platform, darkMode, "borderPrimary")}
+						_focus={{ outline: "none" }}
+						outline="none"
+						_active={{ outline: "none" }}
+						onChange={(e: any) => setLocationUUID(e.nativeEvent.target.value)}
+					>
+						<option
+							value=""
+							style={{
+								backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+								height: "30px",
+								borderRadius: "10px"
+							}}
+						>
+							{i18n(lang, "historyAllLocations")}
+						</option>
+						{syncLocations.map(location => (
+							<option
+								key={location.uuid}
+								value={location.uuid}
+								style={{
+									backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+									height: "30px",
+									borderRadius: "10px"
+								}}
+							>
+								{pathModule.basename(location.local)}
+							</option>
+						))}
+					</Select>
+				</Flex>
+				{entries.length > 0 ? (
+					<>
+						<Flex
+							width="80%"
+							height="340px"
+							backgroundColor={colors(platform, darkMode, "backgroundSecondary")}
+							overflow="hidden"
+							borderRadius="15px"
+							marginTop="15px"
+						>
+							<Flex
+								width="100%"
+								height="100%"
+								overflowY="auto"
+								overflowX="hidden"
+								flexDirection="column"
+							>
+								{entries.map((entry, index) => {
+									return (
+										<HistoryItem
+											key={index}
+											entry={entry}
+											darkMode={darkMode}
+											platform={platform}
+											lang={lang}
+										/>
+									)
+								})}
+							</Flex>
+						</Flex>
+						{canLoadMore && (
+							<>
+								{loading ? (
+									<Spinner
+										width="16px"
+										height="16px"
+										marginTop="15px"
+										color={colors(platform, darkMode, "textPrimary")}
+									/>
+								) : (
+									<Link
+										color={colors(platform, darkMode, "link")}
+										textDecoration="none"
+										_hover={{ textDecoration: "none" }}
+										marginTop="15px"
+										onClick={loadMore}
+									>
+										{i18n(lang, "historyLoadMore")}
+									</Link>
+								)}
+							</>
+						)}
+					</>
+				) : (
+					<Flex
+						flexDirection="column"
+						width="100%"
+						height="340px"
+						alignItems="center"
+						justifyContent="center"
+					>
+						{loading ? (
+							<Spinner
+								width="32px"
+								height="32px"
+								color={colors(platform, darkMode, "textPrimary")}
+							/>
+						) : (
+							<>
+								<Flex>
+									<MdHistory
+										size={50}
+										color={darkMode ? "gray" : "gray"}
+									/>
+								</Flex>
+								<Flex marginTop="15px">
+									<Text color={darkMode ? "gray" : "gray"}>{i18n(lang, "historyNoEntries")}</Text>
+								</Flex>
+							</>
+						)}
+					</Flex>
+				)}
+			</Flex>
+		)
+	}
+)
+
+export default SettingsWindowHistory
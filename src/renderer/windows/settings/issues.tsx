@@ -18,10 +18,57 @@ import ipc from "../../lib/ipc"
 import colors from "../../styles/colors"
 import { GoIssueReopened } from "react-icons/go"
 import useSyncIssues from "../../lib/hooks/useSyncIssues"
-import { SyncIssue } from "../../../types"
+import { SyncIssue, ConflictModes, MassDeletionDecision } from "../../../types"
 import eventListener from "../../lib/eventListener"
+import db from "../../lib/db"
+import { updateSyncLocation } from "../../lib/worker/sync/sync.utils"
 
 const log = window.require("electron-log")
+const { shell } = window.require("electron")
+
+const resolveConflict = async (issue: SyncIssue, mode: ConflictModes): Promise<void> => {
+	if (typeof issue.conflict == "undefined") {
+		return
+	}
+
+	const { locationUUID, path } = issue.conflict
+	let resolutions: Record<string, ConflictModes> | null = await db.get("conflictResolutions:" + locationUUID)
+
+	if (resolutions === null || typeof resolutions !== "object") {
+		resolutions = {}
+	}
+
+	resolutions[path] = mode
+
+	await Promise.all([
+		db.set("conflictResolutions:" + locationUUID, resolutions),
+		db.set("localDataChanged:" + locationUUID, true),
+		ipc.removeSyncIssue(issue.uuid)
+	])
+
+	ipc.emitGlobal("global-message", {
+		type: "forceSync"
+	}).catch(log.error)
+}
+
+const resolveMassDeletion = async (issue: SyncIssue, decision: MassDeletionDecision): Promise<void> => {
+	if (typeof issue.massDeletion == "undefined") {
+		return
+	}
+
+	const { locationUUID } = issue.massDeletion
+
+	await Promise.all([
+		db.set("massDeletionDecision:" + locationUUID, decision),
+		updateSyncLocation(locationUUID, location => ({ ...location, paused: false })),
+		db.set("localDataChanged:" + locationUUID, true),
+		ipc.removeSyncIssue(issue.uuid)
+	])
+
+	ipc.emitGlobal("global-message", {
+		type: "forceSync"
+	}).catch(log.error)
+}
 
 const Issue = memo(({ darkMode, lang, platform, issue }: { darkMode: boolean; lang: string; platform: string; issue: SyncIssue }) => {
 	return (
@@ -44,7 +91,7 @@ const Issue = memo(({ darkMode, lang, platform, issue }: { darkMode: boolean; la
 				gap="15px"
 			>
 				<Flex
-					flexDirection="row"
+					flexDirection="column"
 					paddingLeft="10px"
 				>
 					<Text
@@ -56,6 +103,86 @@ const Issue = memo(({ darkMode, lang, platform, issue }: { darkMode: boolean; la
 					>
 						{issue.info}
 					</Text>
+					{typeof issue.conflict !== "undefined" && (
+						<Flex
+							flexDirection="row"
+							flexWrap="wrap"
+							gap="10px"
+							marginTop="5px"
+						>
+							<Text
+								color={colors(platform, darkMode, "link")}
+								fontSize={12}
+								cursor="pointer"
+								onClick={() => shell.showItemInFolder(issue.conflict!.localPath)}
+							>
+								{i18n(lang, "showInFolder")}
+							</Text>
+							{typeof issue.conflict.conflictPath == "string" && (
+								<Text
+									color={colors(platform, darkMode, "link")}
+									fontSize={12}
+									cursor="pointer"
+									onClick={() => shell.showItemInFolder(issue.conflict!.conflictPath!)}
+								>
+									{i18n(lang, "showConflictedCopy")}
+								</Text>
+							)}
+							{issue.conflict.mode == "ask" && (
+								<>
+									<Text
+										color={colors(platform, darkMode, "link")}
+										fontSize={12}
+										cursor="pointer"
+										onClick={() => resolveConflict(issue, "preferLocal").catch(log.error)}
+									>
+										{i18n(lang, "keepLocal")}
+									</Text>
+									<Text
+										color={colors(platform, darkMode, "link")}
+										fontSize={12}
+										cursor="pointer"
+										onClick={() => resolveConflict(issue, "preferRemote").catch(log.error)}
+									>
+										{i18n(lang, "keepRemote")}
+									</Text>
+									<Text
+										color={colors(platform, darkMode, "link")}
+										fontSize={12}
+										cursor="pointer"
+										onClick={() => resolveConflict(issue, "keepBoth").catch(log.error)}
+									>
+										{i18n(lang, "keepBoth")}
+									</Text>
+								</>
+							)}
+						</Flex>
+					)}
+					{typeof issue.massDeletion !== "undefined" && (
+						<Flex
+							flexDirection="row"
+							flexWrap="wrap"
+							gap="10px"
+							marginTop="5px"
+						>
+							<Text
+								color={colors(platform, darkMode, "link")}
+								fontSize={12}
+								cursor="pointer"
+								onClick={() => resolveMassDeletion(issue, "confirm").catch(log.error)}
+							>
+								{i18n(lang, "massDeletionConfirm")}
+							</Text>
+							<Text
+								color={colors(platform, darkMode, "link")}
+								fontSize={12}
+								cursor="pointer"
+								onClick={() => resolveMassDeletion(issue, "discard").catch(log.error)}
+							>
+								{i18n(lang, "massDeletionDiscard")}
+							</Text>
+						</Flex>
+					)}
 				</Flex>
 				{issue.err && issue.err.message && (
 					<Flex flexShrink={0}>
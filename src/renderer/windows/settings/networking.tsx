@@ -11,24 +11,46 @@ import {
 	ModalBody,
 	ModalFooter,
 	Spinner,
-	Input
+	Input,
+	Select
 } from "@chakra-ui/react"
 import { i18n } from "../../lib/i18n"
 import useDb from "../../lib/hooks/useDb"
 import db from "../../lib/db"
 import colors from "../../styles/colors"
 import { FaCannabis, FaHackerrank } from "react-icons/fa"
+import { EndpointProfile, Endpoint, ProxySettings, ProxyModes, NetworkingSettings, BandwidthScheduleRule } from "../../../types"
+import { showToast } from "../../components/Toast"
+import ipc from "../../lib/ipc"
+import { v4 as uuidv4 } from "uuid"
+import { parseScheduleTime } from "../../lib/bandwidth"
 
 const log = window.require("electron-log")
 
 const SettingsWindowNetworking = memo(({ darkMode, lang, platform }: { darkMode: boolean; lang: string; platform: string }) => {
 	const [throttlingModalOpen, setThrottlingModalOpen] = useState(false)
-	const networkingSettings = useDb("networkingSettings", {
+	const networkingSettings: NetworkingSettings = useDb("networkingSettings", {
 		uploadKbps: 0,
 		downloadKbps: 0
 	})
 	const [uploadKbps, setUploadKbps] = useState(0)
 	const [downloadKbps, setDownloadKbps] = useState(0)
+	const [endpointsModalOpen, setEndpointsModalOpen] = useState(false)
+	const endpointProfile: EndpointProfile = useDb("endpointProfile", {})
+	const [apiEndpoint, setAPIEndpoint] = useState("")
+	const [uploadEndpoint, setUploadEndpoint] = useState("")
+	const [downloadEndpoint, setDownloadEndpoint] = useState("")
+	const [caBundlePath, setCABundlePath] = useState("")
+	const [proxyModalOpen, setProxyModalOpen] = useState(false)
+	const proxySettings: ProxySettings = useDb("proxySettings", { mode: "none" })
+	const [proxyMode, setProxyMode] = useState<ProxyModes>("none")
+	const [proxyHost, setProxyHost] = useState("")
+	const [proxyPort, setProxyPort] = useState("")
+	const [proxyUsername, setProxyUsername] = useState("")
+	const [proxyPassword, setProxyPassword] = useState("")
+	const [proxyBypass, setProxyBypass] = useState("")
+	const [scheduleModalOpen, setScheduleModalOpen] = useState(false)
+	const [schedule, setSchedule] = useState<BandwidthScheduleRule[]>([])
 
 	const updateThrottling = async (): Promise<void> => {
 		await db
@@ -42,10 +64,165 @@ const SettingsWindowNetworking = memo(({ darkMode, lang, platform }: { darkMode:
 		setThrottlingModalOpen(false)
 	}
 
+	const updateScheduleRule = (uuid: string, changes: Partial<BandwidthScheduleRule>): void => {
+		setSchedule(prev => prev.map(rule => (rule.uuid == uuid ? { ...rule, ...changes } : rule)))
+	}
+
+	const toggleScheduleDay = (rule: BandwidthScheduleRule, day: number): void => {
+		updateScheduleRule(rule.uuid, {
+			days: rule.days.includes(day) ? rule.days.filter(d => d !== day) : [...rule.days, day].sort()
+		})
+	}
+
+	const updateSchedule = async (): Promise<void> => {
+		const rules: BandwidthScheduleRule[] = schedule.map(rule => ({
+			...rule,
+			uploadKbps: parseInt(rule.uploadKbps.toString()) > 0 ? parseInt(rule.uploadKbps.toString()) : 0,
+			downloadKbps: parseInt(rule.downloadKbps.toString()) > 0 ? parseInt(rule.downloadKbps.toString()) : 0
+		}))
+
+		if (rules.filter(rule => rule.days.length == 0 || parseScheduleTime(rule.start) == parseScheduleTime(rule.end)).length > 0) {
+			showToast({ message: i18n(lang, "invalidBandwidthSchedule"), status: "error" })
+
+			return
+		}
+
+		await db
+			.set("networkingSettings", {
+				...networkingSettings,
+				schedule: rules
+			})
+			.catch(log.error)
+
+		setScheduleModalOpen(false)
+	}
+
+	const endpointToURL = (endpoint: Endpoint | undefined): string => {
+		if (typeof endpoint !== "object" || endpoint === null || typeof endpoint.host !== "string" || endpoint.host.length == 0) {
+			return ""
+		}
+
+		return endpoint.scheme + "://" + endpoint.host + ":" + endpoint.port
+	}
+
+	const urlToEndpoint = (url: string): Endpoint | undefined => {
+		if (url.trim().length == 0) {
+			return undefined
+		}
+
+		const parsed = new URL(url.trim())
+
+		if (!["https:", "http:"].includes(parsed.protocol) || parsed.hostname.length == 0) {
+			throw new Error(i18n(lang, "invalidEndpointURL", true, ["__URL__"], [url]))
+		}
+
+		const scheme = parsed.protocol == "http:" ? "http" : "https"
+
+		return {
+			scheme,
+			host: parsed.hostname,
+			port: parsed.port.length > 0 ? parseInt(parsed.port) : scheme == "http" ? 80 : 443
+		}
+	}
+
+	const updateEndpoints = async (): Promise<void> => {
+		const profile: EndpointProfile = {}
+
+		for (const [type, url] of [
+			["api", apiEndpoint],
+			["upload", uploadEndpoint],
+			["download", downloadEndpoint]
+		] as ["api" | "upload" | "download", string][]) {
+			try {
+				const endpoint = urlToEndpoint(url)
+
+				if (typeof endpoint !== "undefined") {
+					profile[type] = endpoint
+				}
+			} catch (e) {
+				log.error(e)
+
+				showToast({ message: i18n(lang, "invalidEndpointURL", true, ["__URL__"], [url]), status: "error" })
+
+				return
+			}
+		}
+
+		if (caBundlePath.trim().length > 0) {
+			profile.ca = caBundlePath.trim()
+		}
+
+		await db.set("endpointProfile", profile).catch(log.error)
+
+		setEndpointsModalOpen(false)
+	}
+
+	const updateProxy = async (): Promise<void> => {
+		const settings: ProxySettings = {
+			mode: proxyMode
+		}
+
+		if (proxyMode == "http" || proxyMode == "socks5") {
+			const port = parseInt(proxyPort)
+
+			if (proxyHost.trim().length == 0 || isNaN(port) || port <= 0 || port > 65535) {
+				showToast({ message: i18n(lang, "invalidProxy"), status: "error" })
+
+				return
+			}
+
+			settings.host = proxyHost.trim()
+			settings.port = port
+			settings.bypass = proxyBypass
+				.split(",")
+				.map(entry => entry.trim())
+				.filter(entry => entry.length > 0)
+
+			if (proxyUsername.trim().length > 0) {
+				settings.username = proxyUsername.trim()
+				settings.password = proxyPassword
+			}
+		}
+
+		try {
+			await db.set("proxySettings", settings)
+			await ipc.applyProxySettings()
+		} catch (e: any) {
+			log.error(e)
+
+			showToast({ message: e.toString(), status: "error" })
+
+			return
+		}
+
+		setProxyModalOpen(false)
+	}
+
+	useEffect(() => {
+		if (typeof proxySettings == "object" && proxySettings !== null) {
+			setProxyMode(typeof proxySettings.mode == "string" ? proxySettings.mode : "none")
+			setProxyHost(typeof proxySettings.host == "string" ? proxySettings.host : "")
+			setProxyPort(typeof proxySettings.port == "number" ? proxySettings.port.toString() : "")
+			setProxyUsername(typeof proxySettings.username == "string" ? proxySettings.username : "")
+			setProxyPassword(typeof proxySettings.password == "string" ? proxySettings.password : "")
+			setProxyBypass(Array.isArray(proxySettings.bypass) ? proxySettings.bypass.join(", ") : "")
+		}
+	}, [proxySettings])
+
+	useEffect(() => {
+		if (typeof endpointProfile == "object" && endpointProfile !== null) {
+			setAPIEndpoint(endpointToURL(endpointProfile.api))
+			setUploadEndpoint(endpointToURL(endpointProfile.upload))
+			setDownloadEndpoint(endpointToURL(endpointProfile.download))
+			setCABundlePath(typeof endpointProfile.ca == "string" ? endpointProfile.ca : "")
+		}
+	}, [endpointProfile])
+
 	useEffect(() => {
 		if (typeof networkingSettings == "object") {
 			setUploadKbps(networkingSettings.uploadKbps)
 			setDownloadKbps(networkingSettings.downloadKbps)
+			setSchedule(Array.isArray(networkingSettings.schedule) ? networkingSettings.schedule : [])
 		}
 	}, [networkingSettings])
 
@@ -182,6 +359,146 @@ const SettingsWindowNetworking = memo(({ darkMode, lang, platform }: { darkMode:
 								</Link>
 							</Flex>
 						</Flex>
+						<Flex
+							flexDirection="row"
+							justifyContent="space-between"
+							alignItems="center"
+							width="80%"
+							margin="0px auto"
+							marginTop="10px"
+							borderBottom={"1px solid " + colors(platform, darkMode, "borderPrimary")}
+							paddingBottom="10px"
+						>
+							<Flex width="50%">
+								<Text
+									color={colors(platform, darkMode, "textPrimary")}
+									fontSize={15}
+								>
+									{i18n(lang, "bandwidthSchedule")}
+								</Text>
+							</Flex>
+							<Flex>
+								<Text
+									color={colors(platform, darkMode, "textPrimary")}
+									fontSize={15}
+								>
+									{Array.isArray(networkingSettings.schedule) && networkingSettings.schedule.length > 0
+										? i18n(
+												lang,
+												"bandwidthScheduleRules",
+												false,
+												["__COUNT__"],
+												[networkingSettings.schedule.length.toString()]
+										  )
+										: i18n(lang, "bandwidthScheduleOff")}
+								</Text>
+							</Flex>
+							<Flex>
+								<Link
+									color={colors(platform, darkMode, "link")}
+									textDecoration="none"
+									_hover={{
+										textDecoration: "none"
+									}}
+									onClick={() => setScheduleModalOpen(true)}
+									fontSize={15}
+								>
+									{i18n(lang, "configure")}
+								</Link>
+							</Flex>
+						</Flex>
+						<Flex
+							flexDirection="row"
+							justifyContent="space-between"
+							alignItems="center"
+							width="80%"
+							margin="0px auto"
+							marginTop="10px"
+							borderBottom={"1px solid " + colors(platform, darkMode, "borderPrimary")}
+							paddingBottom="10px"
+						>
+							<Flex width="50%">
+								<Text
+									color={colors(platform, darkMode, "textPrimary")}
+									fontSize={15}
+								>
+									{i18n(lang, "endpoints")}
+								</Text>
+							</Flex>
+							<Flex>
+								<Text
+									color={colors(platform, darkMode, "textPrimary")}
+									fontSize={15}
+								>
+									{typeof endpointProfile == "object" &&
+									endpointProfile !== null &&
+									(typeof endpointProfile.api == "object" ||
+										typeof endpointProfile.upload == "object" ||
+										typeof endpointProfile.download == "object")
+										? i18n(lang, "endpointsCustom")
+										: i18n(lang, "endpointsDefault")}
+								</Text>
+							</Flex>
+							<Flex>
+								<Link
+									color={colors(platform, darkMode, "link")}
+									textDecoration="none"
+									_hover={{
+										textDecoration: "none"
+									}}
+									onClick={() => setEndpointsModalOpen(true)}
+									fontSize={15}
+								>
+									{i18n(lang, "configure")}
+								</Link>
+							</Flex>
+						</Flex>
+						<Flex
+							flexDirection="row"
+							justifyContent="space-between"
+							alignItems="center"
+							width="80%"
+							margin="0px auto"
+							marginTop="10px"
+							borderBottom={"1px solid " + colors(platform, darkMode, "borderPrimary")}
+							paddingBottom="10px"
+						>
+							<Flex width="50%">
+								<Text
+									color={colors(platform, darkMode, "textPrimary")}
+									fontSize={15}
+								>
+									{i18n(lang, "proxy")}
+								</Text>
+							</Flex>
+							<Flex>
+								<Text
+									color={colors(platform, darkMode, "textPrimary")}
+									fontSize={15}
+								>
+									{proxySettings.mode == "system"
+										? i18n(lang, "proxyModeSystem")
+										: proxySettings.mode == "http"
+										? i18n(lang, "proxyModeHTTP")
+										: proxySettings.mode == "socks5"
+										? i18n(lang, "proxyModeSOCKS5")
+										: i18n(lang, "proxyModeNone")}
+								</Text>
+							</Flex>
+							<Flex>
+								<Link
+									color={colors(platform, darkMode, "link")}
+									textDecoration="none"
+									_hover={{
+										textDecoration: "none"
+									}}
+									onClick={() => setProxyModalOpen(true)}
+									fontSize={15}
+								>
+									{i18n(lang, "configure")}
+								</Link>
+							</Flex>
+						</Flex>
 					</Flex>
 					<Modal
 						onClose={() => setThrottlingModalOpen(false)}
@@ -304,6 +621,633 @@ const SettingsWindowNetworking = memo(({ darkMode, lang, platform }: { darkMode:
 							</ModalFooter>
 						</ModalContent>
 					</Modal>
+					<Modal
+						onClose={() => setScheduleModalOpen(false)}
+						isOpen={scheduleModalOpen}
+						isCentered={true}
+						size="xl"
+					>
+						<ModalOverlay borderRadius="10px" />
+						<ModalContent
+							backgroundColor={colors(platform, darkMode, "backgroundPrimary")}
+							borderRadius="15px"
+						>
+							<ModalCloseButton
+								color={colors(platform, darkMode, "textPrimary")}
+								_hover={{ backgroundColor: colors(platform, darkMode, "backgroundSecondary") }}
+							/>
+							<ModalHeader color={colors(platform, darkMode, "textPrimary")}>{i18n(lang, "bandwidthSchedule")}</ModalHeader>
+							<ModalBody>
+								<Flex
+									flexDirection="column"
+									maxHeight="300px"
+									overflowY="auto"
+								>
+									{schedule.map(rule => {
+										return (
+											<Flex
+												key={rule.uuid}
+												flexDirection="column"
+												paddingBottom="10px"
+												marginBottom="10px"
+												borderBottom={"1px solid " + colors(platform, darkMode, "borderPrimary")}
+											>
+												<Flex
+													flexDirection="row"
+													justifyContent="space-between"
+													alignItems="center"
+												>
+													<Flex>
+														{[1, 2, 3, 4, 5, 6, 0].map(day => {
+															return (
+																<Link
+																	key={day}
+																	color={
+																		rule.days.includes(day)
+																			? colors(platform, darkMode, "link")
+																			: colors(platform, darkMode, "textSecondary")
+																	}
+																	textDecoration="none"
+																	_hover={{ textDecoration: "none" }}
+																	marginRight="8px"
+																	fontSize={13}
+																	onClick={() => toggleScheduleDay(rule, day)}
+																>
+																	{new Date(2023, 0, 1 + day).toLocaleDateString(lang, {
+																		weekday: "short"
+																	})}
+																</Link>
+															)
+														})}
+													</Flex>
+													<Link
+														color={colors(platform, darkMode, "danger")}
+														textDecoration="none"
+														_hover={{ textDecoration: "none" }}
+														fontSize={13}
+														onClick={() => setSchedule(prev => prev.filter(r => r.uuid !== rule.uuid))}
+													>
+														{i18n(lang, "bandwidthScheduleRemoveRule")}
+													</Link>
+												</Flex>
+												<Flex
+													flexDirection="row"
+													justifyContent="space-between"
+													marginTop="8px"
+												>
+													{(["start", "end", "uploadKbps", "downloadKbps"] as const).map(field => {
+														return (
+															<Flex
+																key={field}
+																flexDirection="column"
+																width="24%"
+															>
+																<Text
+																	color={colors(platform, darkMode, "textSecondary")}
+																	fontSize={11}
+																>
+																	{i18n(
+																		lang,
+																		field == "start"
+																			? "bandwidthScheduleStart"
+																			: field == "end"
+																			? "bandwidthScheduleEnd"
+																			: field == "uploadKbps"
+																			? "bandwidthScheduleUpload"
+																			: "bandwidthScheduleDownload"
+																	)}
+																</Text>
+																<Input
+																	marginTop="3px"
+																	type={field == "start" || field == "end" ? "time" : "number"}
+																	value={rule[field]}
+																	onChange={(event: any) =>
+																		updateScheduleRule(rule.uuid, { [field]: event.target.value })
+																	}
+																	placeholder={field == "start" || field == "end" ? "00:00" : "0 KiB/s"}
+																	userSelect="none"
+																	style={{
+																		border: "none",
+																		backgroundColor: darkMode ? "#171717" : "lightgray",
+																		color: "gray",
+																		height: "25px",
+																		textAlign: "center",
+																		paddingLeft: "5px",
+																		paddingRight: "5px"
+																	}}
+																	_placeholder={{
+																		color: "gray"
+																	}}
+																/>
+															</Flex>
+														)
+													})}
+												</Flex>
+											</Flex>
+										)
+									})}
+								</Flex>
+								<Link
+									color={colors(platform, darkMode, "link")}
+									textDecoration="none"
+									_hover={{ textDecoration: "none" }}
+									fontSize={14}
+									onClick={() =>
+										setSchedule(prev => [
+											...prev,
+											{
+												uuid: uuidv4(),
+												days: [1, 2, 3, 4, 5],
+												start: "09:00",
+												end: "18:00",
+												uploadKbps: 512,
+												downloadKbps: 0
+											}
+										])
+									}
+								>
+									{i18n(lang, "bandwidthScheduleAddRule")}
+								</Link>
+								<Flex marginTop="25px">
+									<Text
+										color={colors(platform, darkMode, "textSecondary")}
+										fontSize={11}
+									>
+										{i18n(lang, "bandwidthScheduleInfo")}
+									</Text>
+								</Flex>
+							</ModalBody>
+							<ModalFooter>
+								<Link
+									color={colors(platform, darkMode, "link")}
+									textDecoration="none"
+									_hover={{ textDecoration: "none" }}
+									marginLeft="10px"
+									onClick={() => updateSchedule()}
+								>
+									{i18n(lang, "save")}
+								</Link>
+							</ModalFooter>
+						</ModalContent>
+					</Modal>
+					<Modal
+						onClose={() => setEndpointsModalOpen(false)}
+						isOpen={endpointsModalOpen}
+						isCentered={true}
+					>
+						<ModalOverlay borderRadius="10px" />
+						<ModalContent
+							backgroundColor={colors(platform, darkMode, "backgroundPrimary")}
+							borderRadius="15px"
+						>
+							<ModalCloseButton
+								color={colors(platform, darkMode, "textPrimary")}
+								_hover={{ backgroundColor: colors(platform, darkMode, "backgroundSecondary") }}
+							/>
+							<ModalHeader color={colors(platform, darkMode, "textPrimary")}>{i18n(lang, "endpoints")}</ModalHeader>
+							<ModalBody>
+								<Flex flexDirection="column">
+									<Text
+										color={colors(platform, darkMode, "textPrimary")}
+										fontSize={14}
+									>
+										{i18n(lang, "apiEndpoint")}
+									</Text>
+									<Input
+										marginTop="5px"
+										value={apiEndpoint}
+										onChange={(event: any) => setAPIEndpoint(event.target.value)}
+										placeholder="https://gateway.filen.io"
+										userSelect="none"
+										style={{
+											border: "none",
+											backgroundColor: darkMode ? "#171717" : "lightgray",
+											color: "gray",
+											height: "25px",
+											paddingLeft: "10px",
+											paddingRight: "10px"
+										}}
+										_placeholder={{
+											color: "gray"
+										}}
+										onKeyDown={e => {
+											if (e.key == "Enter") {
+												updateEndpoints()
+											}
+										}}
+									/>
+								</Flex>
+								<Flex
+									flexDirection="column"
+									marginTop="10px"
+								>
+									<Text
+										color={colors(platform, darkMode, "textPrimary")}
+										fontSize={14}
+									>
+										{i18n(lang, "uploadEndpoint")}
+									</Text>
+									<Input
+										marginTop="5px"
+										value={uploadEndpoint}
+										onChange={(event: any) => setUploadEndpoint(event.target.value)}
+										placeholder="https://ingest.filen.io"
+										userSelect="none"
+										style={{
+											border: "none",
+											backgroundColor: darkMode ? "#171717" : "lightgray",
+											color: "gray",
+											height: "25px",
+											paddingLeft: "10px",
+											paddingRight: "10px"
+										}}
+										_placeholder={{
+											color: "gray"
+										}}
+										onKeyDown={e => {
+											if (e.key == "Enter") {
+												updateEndpoints()
+											}
+										}}
+									/>
+								</Flex>
+								<Flex
+									flexDirection="column"
+									marginTop="10px"
+								>
+									<Text
+										color={colors(platform, darkMode, "textPrimary")}
+										fontSize={14}
+									>
+										{i18n(lang, "downloadEndpoint")}
+									</Text>
+									<Input
+										marginTop="5px"
+										value={downloadEndpoint}
+										onChange={(event: any) => setDownloadEndpoint(event.target.value)}
+										placeholder="https://down.filen.io"
+										userSelect="none"
+										style={{
+											border: "none",
+											backgroundColor: darkMode ? "#171717" : "lightgray",
+											color: "gray",
+											height: "25px",
+											paddingLeft: "10px",
+											paddingRight: "10px"
+										}}
+										_placeholder={{
+											color: "gray"
+										}}
+										onKeyDown={e => {
+											if (e.key == "Enter") {
+												updateEndpoints()
+											}
+										}}
+									/>
+								</Flex>
+								<Flex
+									flexDirection="column"
+									marginTop="10px"
+								>
+									<Text
+										color={colors(platform, darkMode, "textPrimary")}
+										fontSize={14}
+									>
+										{i18n(lang, "caBundlePath")}
+									</Text>
+									<Input
+										marginTop="5px"
+										value={caBundlePath}
+										onChange={(event: any) => setCABundlePath(event.target.value)}
+										placeholder="/path/to/ca.pem"
+										userSelect="none"
+										style={{
+											border: "none",
+											backgroundColor: darkMode ? "#171717" : "lightgray",
+											color: "gray",
+											height: "25px",
+											paddingLeft: "10px",
+											paddingRight: "10px"
+										}}
+										_placeholder={{
+											color: "gray"
+										}}
+										onKeyDown={e => {
+											if (e.key == "Enter") {
+												updateEndpoints()
+											}
+										}}
+									/>
+								</Flex>
+								<Flex
+									flexDirection="row"
+									justifyContent="space-between"
+									marginTop="25px"
+								>
+									<Text
+										color={colors(platform, darkMode, "textSecondary")}
+										fontSize={11}
+									>
+										{i18n(lang, "endpointsInfo")}
+									</Text>
+								</Flex>
+							</ModalBody>
+							<ModalFooter>
+								<Link
+									color={colors(platform, darkMode, "link")}
+									textDecoration="none"
+									_hover={{ textDecoration: "none" }}
+									marginLeft="10px"
+									onClick={() => updateEndpoints()}
+								>
+									{i18n(lang, "save")}
+								</Link>
+							</ModalFooter>
+						</ModalContent>
+					</Modal>
+					<Modal
+						onClose={() => setProxyModalOpen(false)}
+						isOpen={proxyModalOpen}
+						isCentered={true}
+					>
+						<ModalOverlay borderRadius="10px" />
+						<ModalContent
+							backgroundColor={colors(platform, darkMode, "backgroundPrimary")}
+							borderRadius="15px"
+						>
+							<ModalCloseButton
+								color={colors(platform, darkMode, "textPrimary")}
+								_hover={{ backgroundColor: colors(platform, darkMode, "backgroundSecondary") }}
+							/>
+							<ModalHeader color={colors(platform, darkMode, "textPrimary")}>{i18n(lang, "proxy")}</ModalHeader>
+							<ModalBody>
+								<Flex flexDirection="column">
+									<Text
+										color={colors(platform, darkMode, "textPrimary")}
+										fontSize={14}
+									>
+										{i18n(lang, "proxyMode")}
+									</Text>
+									<Select
+										marginTop="5px"
+										value={proxyMode}
+										color={colors(platform, darkMode, "textPrimary")}
+										fontSize={14}
+										height="30px"
+										borderColor={colors(platform, darkMode, "borderPrimary")}
+										_focus={{
+											outline: "none"
+										}}
+										outline="none"
+										_active={{
+											outline: "none"
+										}}
+										onChange={(e: any) => setProxyMode(e.nativeEvent.target.value)}
+									>
+										<option
+											value="none"
+											style={{
+												backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+												height: "30px",
+												borderRadius: "10px"
+											}}
+										>
+											{i18n(lang, "proxyModeNone")}
+										</option>
+										<option
+											value="system"
+											style={{
+												backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+												height: "30px",
+												borderRadius: "10px"
+											}}
+										>
+											{i18n(lang, "proxyModeSystem")}
+										</option>
+										<option
+											value="http"
+											style={{
+												backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+												height: "30px",
+												borderRadius: "10px"
+											}}
+										>
+											{i18n(lang, "proxyModeHTTP")}
+										</option>
+										<option
+											value="socks5"
+											style={{
+												backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+												height: "30px",
+												borderRadius: "10px"
+											}}
+										>
+											{i18n(lang, "proxyModeSOCKS5")}
+										</option>
+									</Select>
+								</Flex>
+								{(proxyMode == "http" || proxyMode == "socks5") && (
+									<>
+										<Flex
+											flexDirection="column"
+											marginTop="10px"
+										>
+											<Text
+												color={colors(platform, darkMode, "textPrimary")}
+												fontSize={14}
+											>
+												{i18n(lang, "proxyHost")}
+											</Text>
+											<Input
+												marginTop="5px"
+												value={proxyHost}
+												onChange={(event: any) => setProxyHost(event.target.value)}
+												placeholder="proxy.example.com"
+												userSelect="none"
+												style={{
+													border: "none",
+													backgroundColor: darkMode ? "#171717" : "lightgray",
+													color: "gray",
+													height: "25px",
+													paddingLeft: "10px",
+													paddingRight: "10px"
+												}}
+												_placeholder={{
+													color: "gray"
+												}}
+												onKeyDown={e => {
+													if (e.key == "Enter") {
+														updateProxy()
+													}
+												}}
+											/>
+										</Flex>
+										<Flex
+											flexDirection="column"
+											marginTop="10px"
+										>
+											<Text
+												color={colors(platform, darkMode, "textPrimary")}
+												fontSize={14}
+											>
+												{i18n(lang, "proxyPort")}
+											</Text>
+											<Input
+												marginTop="5px"
+												type="number"
+												value={proxyPort}
+												onChange={(event: any) => setProxyPort(event.target.value)}
+												placeholder="8080"
+												userSelect="none"
+												style={{
+													border: "none",
+													backgroundColor: darkMode ? "#171717" : "lightgray",
+													color: "gray",
+													height: "25px",
+													paddingLeft: "10px",
+													paddingRight: "10px"
+												}}
+												_placeholder={{
+													color: "gray"
+												}}
+												onKeyDown={e => {
+													if (e.key == "Enter") {
+														updateProxy()
+													}
+												}}
+											/>
+										</Flex>
+										<Flex
+											flexDirection="column"
+											marginTop="10px"
+										>
+											<Text
+												color={colors(platform, darkMode, "textPrimary")}
+												fontSize={14}
+											>
+												{i18n(lang, "proxyUsername")}
+											</Text>
+											<Input
+												marginTop="5px"
+												value={proxyUsername}
+												onChange={(event: any) => setProxyUsername(event.target.value)}
+												placeholder=""
+												userSelect="none"
+												style={{
+													border: "none",
+													backgroundColor: darkMode ? "#171717" : "lightgray",
+													color: "gray",
+													height: "25px",
+													paddingLeft: "10px",
+													paddingRight: "10px"
+												}}
+												_placeholder={{
+													color: "gray"
+												}}
+												onKeyDown={e => {
+													if (e.key == "Enter") {
+														updateProxy()
+													}
+												}}
+											/>
+										</Flex>
+										<Flex
+											flexDirection="column"
+											marginTop="10px"
+										>
+											<Text
+												color={colors(platform, darkMode, "textPrimary")}
+												fontSize={14}
+											>
+												{i18n(lang, "proxyPassword")}
+											</Text>
+											<Input
+												marginTop="5px"
+												type="password"
+												value={proxyPassword}
+												onChange={(event: any) => setProxyPassword(event.target.value)}
+												placeholder=""
+												userSelect="none"
+												style={{
+													border: "none",
+													backgroundColor: darkMode ? "#171717" : "lightgray",
+													color: "gray",
+													height: "25px",
+													paddingLeft: "10px",
+													paddingRight: "10px"
+												}}
+												_placeholder={{
+													color: "gray"
+												}}
+												onKeyDown={e => {
+													if (e.key == "Enter") {
+														updateProxy()
+													}
+												}}
+											/>
+										</Flex>
+										<Flex
+											flexDirection="column"
+											marginTop="10px"
+										>
+											<Text
+												color={colors(platform, darkMode, "textPrimary")}
+												fontSize={14}
+											>
+												{i18n(lang, "proxyBypass")}
+											</Text>
+											<Input
+												marginTop="5px"
+												value={proxyBypass}
+												onChange={(event: any) => setProxyBypass(event.target.value)}
+												placeholder="localhost, *.example.com"
+												userSelect="none"
+												style={{
+													border: "none",
+													backgroundColor: darkMode ? "#171717" : "lightgray",
+													color: "gray",
+													height: "25px",
+													paddingLeft: "10px",
+													paddingRight: "10px"
+												}}
+												_placeholder={{
+													color: "gray"
+												}}
+												onKeyDown={e => {
+													if (e.key == "Enter") {
+														updateProxy()
+													}
+												}}
+											/>
+										</Flex>
+									</>
+								)}
+								<Flex
+									flexDirection="row"
+									justifyContent="space-between"
+									marginTop="25px"
+								>
+									<Text
+										color={colors(platform, darkMode, "textSecondary")}
+										fontSize={11}
+									>
+										{i18n(lang, "proxyInfo")}
+									</Text>
+								</Flex>
+							</ModalBody>
+							<ModalFooter>
+								<Link
+									color={colors(platform, darkMode, "link")}
+									textDecoration="none"
+									_hover={{ textDecoration: "none" }}
+									marginLeft="10px"
+									onClick={() => updateProxy()}
+								>
+									{i18n(lang, "save")}
+								</Link>
+							</ModalFooter>
+						</ModalContent>
+					</Modal>
 				</>
 			) : (
 				<Flex
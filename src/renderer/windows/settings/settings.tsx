@@ -11,7 +11,7 @@ import { VscAccount } from "react-icons/vsc"
 import colors from "../../styles/colors"
 import Container from "../../components/Container"
 import { GoIssueReopened } from "react-icons/go"
-import { MdOutlineNetworkCheck } from "react-icons/md"
+import { MdOutlineNetworkCheck, MdHistory } from "react-icons/md"
 import IsOnlineBottomToast from "../../components/IsOnlineBottomToast"
 import { BsKeyboard } from "react-icons/bs"
 import useSyncIssues from "../../lib/hooks/useSyncIssues"
@@ -21,6 +21,7 @@ import SettingsWindowAccount from "./account"
 import SettingsWindowIssues from "./issues"
 import SettingsWindowNetworking from "./networking"
 import SettingsWindowKeybinds from "./keybinds"
+import SettingsWindowHistory from "./history"
 
 const { ipcRenderer } = window.require("electron")
 
@@ -100,6 +101,12 @@ const SettingsSelectionButton = memo(
 							color={typeof color == "string" ? color : darkMode ? "white" : "#333333"}
 						/>
 					)}
+					{type == "history" && (
+						<MdHistory
+							size={20}
+							color={darkMode ? "white" : "#333333"}
+						/>
+					)}
 					{type == "networking" && (
 						<MdOutlineNetworkCheck
 							size={20}
@@ -217,6 +224,15 @@ const SettingsSelection = memo(
 								: undefined
 						}
 					/>
+					<SettingsSelectionButton
+						darkMode={darkMode}
+						lang={lang}
+						platform={platform}
+						selection={selection}
+						setSelection={setSelection}
+						type="history"
+						title={i18n(lang, "settingsHistory")}
+					/>
 					<SettingsSelectionButton
 						darkMode={darkMode}
 						lang={lang}
@@ -312,6 +328,14 @@ const SettingsWindow = memo(
 									platform={platform}
 								/>
 							)}
+							{selection == "history" && (
+								<SettingsWindowHistory
+									darkMode={darkMode}
+									lang={lang}
+									platform={platform}
+									userId={userId}
+								/>
+							)}
 							{selection == "networking" && (
 								<SettingsWindowNetworking
 									darkMode={darkMode}
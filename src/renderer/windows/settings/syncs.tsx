@@ -14,6 +14,7 @@ import {
 	Spinner,
 	Select,
 	Tooltip,
+	Input,
 	useToast
 } from "@chakra-ui/react"
 import { i18n } from "../../lib/i18n"
@@ -32,13 +33,25 @@ import { isSubdir } from "../../lib/helpers"
 // @ts-ignore
 import List from "react-virtualized/dist/commonjs/List"
 import { debounce } from "lodash"
-import { Location } from "../../../types"
+import { Location, SyncModes, SyncPreview, SyncTaskListType, LocationPriority, WatcherModes } from "../../../types"
 import eventListener from "../../lib/eventListener"
+import { updateSyncLocations } from "../../lib/worker/sync/sync.utils"
 
 const log = window.require("electron-log")
 const { shell } = window.require("electron")
 const pathModule = window.require("path")
 
+const SYNC_PREVIEW_LABELS: Record<SyncTaskListType, string> = {
+	uploadToRemote: "syncPreviewUploadToRemote",
+	downloadFromRemote: "syncPreviewDownloadFromRemote",
+	renameInRemote: "syncPreviewRenameInRemote",
+	renameInLocal: "syncPreviewRenameInLocal",
+	moveInRemote: "syncPreviewMoveInRemote",
+	moveInLocal: "syncPreviewMoveInLocal",
+	deleteInRemote: "syncPreviewDeleteInRemote",
+	deleteInLocal: "syncPreviewDeleteInLocal"
+}
+
 const SettingsWindowSyncs = memo(
 	({ darkMode, lang, platform, userId }: { darkMode: boolean; lang: string; platform: string; userId: number }) => {
 		const syncLocations: Location[] = useDb("syncLocations:" + userId, [])
@@ -49,6 +62,10 @@ const SettingsWindowSyncs = memo(
 		const [ignoredFilesModalOpen, setIgnoredFilesModalOpen] = useState<boolean>(false)
 		const [currentSyncLocationIgnored, setCurrentSyncLocationIgnored] = useState<string>("")
 		const [isDeletingSyncLocation, setIsDeletingSyncLocation] = useState<boolean>(false)
+		const [syncPreviewModalOpen, setSyncPreviewModalOpen] = useState<boolean>(false)
+		const [syncPreviewMode, setSyncPreviewMode] = useState<SyncModes>("twoWay")
+		const [syncPreview, setSyncPreview] = useState<SyncPreview | undefined>(undefined)
+		const [syncPreviewLoading, setSyncPreviewLoading] = useState<boolean>(false)
 
 		const createNewSyncLocation = () => {
 			db.get("syncLocations:" + userId)
@@ -132,29 +149,25 @@ const SettingsWindowSyncs = memo(
 									let created: boolean = false
 
 									try {
-										let currentSyncLocations: Location[] | null = await db.get("syncLocations:" + userId)
-
-										if (!Array.isArray(currentSyncLocations)) {
-											currentSyncLocations = []
-										}
-
-										if (currentSyncLocations.filter(location => location.local == localPath).length == 0) {
-											currentSyncLocations.push({
-												uuid,
-												local: localPath,
-												remote: undefined,
-												remoteUUID: undefined,
-												remoteName: undefined,
-												type: "twoWay",
-												paused: true,
-												busy: false,
-												localChanged: false
-											})
-
-											created = true
-										}
+										await updateSyncLocations(userId, currentSyncLocations => {
+											if (currentSyncLocations.filter(location => location.local == localPath).length == 0) {
+												currentSyncLocations.push({
+													uuid,
+													local: localPath,
+													remote: undefined,
+													remoteUUID: undefined,
+													remoteName: undefined,
+													type: "twoWay",
+													paused: true,
+													busy: false,
+													localChanged: false
+												})
+
+												created = true
+											}
 
-										await db.set("syncLocations:" + userId, currentSyncLocations)
+											return currentSyncLocations
+										})
 
 										if (created) {
 											toast({
@@ -225,23 +238,96 @@ const SettingsWindowSyncs = memo(
 		const toggleSyncPauseStatus = useCallback(
 			async (location: Location, paused: boolean) => {
 				try {
-					let currentSyncLocations: Location[] = await db.get("syncLocations:" + userId)
+					await updateSyncLocations(userId, currentSyncLocations => {
+						for (let i = 0; i < currentSyncLocations.length; i++) {
+							if (currentSyncLocations[i].uuid == location.uuid) {
+								currentSyncLocations[i].paused = paused
+							}
+						}
 
-					if (!Array.isArray(currentSyncLocations)) {
-						currentSyncLocations = []
-					}
+						return currentSyncLocations
+					})
+
+					ipc.emitGlobal("global-message", {
+						type: "forceSync"
+					}).catch(log.error)
+				} catch (e) {
+					log.error(e)
+				}
+			},
+			[userId]
+		)
 
-					for (let i = 0; i < currentSyncLocations.length; i++) {
-						if (currentSyncLocations[i].uuid == location.uuid) {
-							currentSyncLocations[i].paused = paused
+		const updateSyncLocationLimits = useCallback(
+			async (
+				location: Location,
+				limits: Pick<
+					Partial<Location>,
+					| "priority"
+					| "uploadKbps"
+					| "downloadKbps"
+					| "maxConcurrentUploads"
+					| "maxConcurrentDownloads"
+					| "pollingInterval"
+					| "watcherMode"
+				>
+			) => {
+				try {
+					await updateSyncLocations(userId, currentSyncLocations => {
+						for (let i = 0; i < currentSyncLocations.length; i++) {
+							if (currentSyncLocations[i].uuid == location.uuid) {
+								currentSyncLocations[i] = {
+									...currentSyncLocations[i],
+									...limits
+								}
+							}
+						}
+
+						return currentSyncLocations
+					})
+				} catch (e) {
+					log.error(e)
+				}
+			},
+			[userId]
+		)
+
+		const requestSyncPreview = useCallback((location: Location, syncMode: SyncModes) => {
+			setSyncPreview(undefined)
+			setSyncPreviewLoading(true)
+
+			ipc.emitGlobal("global-message", {
+				type: "requestSyncPreview",
+				data: {
+					locationUUID: location.uuid,
+					syncMode
+				}
+			}).catch(err => {
+				log.error(err)
+
+				setSyncPreviewLoading(false)
+			})
+		}, [])
+
+		const applySyncPreview = useCallback(
+			async (location: Location, syncMode: SyncModes) => {
+				try {
+					await updateSyncLocations(userId, currentSyncLocations => {
+						for (let i = 0; i < currentSyncLocations.length; i++) {
+							if (currentSyncLocations[i].uuid == location.uuid) {
+								currentSyncLocations[i].type = syncMode
+								currentSyncLocations[i].paused = false
+							}
 						}
-					}
 
-					await db.set("syncLocations:" + userId, currentSyncLocations)
+						return currentSyncLocations
+					})
 
 					ipc.emitGlobal("global-message", {
 						type: "forceSync"
 					}).catch(log.error)
+
+					setSyncPreviewModalOpen(false)
 				} catch (e) {
 					log.error(e)
 				}
@@ -249,6 +335,21 @@ const SettingsWindowSyncs = memo(
 			[userId]
 		)
 
+		useEffect(() => {
+			const syncPreviewListener = eventListener.on("syncPreview", (preview: SyncPreview) => {
+				if (typeof currentSyncLocation == "undefined" || preview.locationUUID !== currentSyncLocation.uuid) {
+					return
+				}
+
+				setSyncPreview(preview)
+				setSyncPreviewLoading(false)
+			})
+
+			return () => {
+				syncPreviewListener.remove()
+			}
+		}, [currentSyncLocation])
+
 		useEffect(() => {
 			if (typeof currentSyncLocation !== "undefined") {
 				for (let i = 0; i < syncLocations.length; i++) {
@@ -583,26 +684,17 @@ const SettingsWindowSyncs = memo(
 																			}
 
 																			try {
-																				let currentSyncLocations: Location[] | null = await db.get(
-																					"syncLocations:" + userId
-																				)
-
-																				if (!Array.isArray(currentSyncLocations)) {
-																					currentSyncLocations = []
-																				}
-
-																				for (let i = 0; i < currentSyncLocations.length; i++) {
-																					if (currentSyncLocations[i].uuid == location.uuid) {
-																						currentSyncLocations[i].remoteUUID = uuid
-																						currentSyncLocations[i].remote = path
-																						currentSyncLocations[i].remoteName = name
+																				await updateSyncLocations(userId, currentSyncLocations => {
+																					for (let i = 0; i < currentSyncLocations.length; i++) {
+																						if (currentSyncLocations[i].uuid == location.uuid) {
+																							currentSyncLocations[i].remoteUUID = uuid
+																							currentSyncLocations[i].remote = path
+																							currentSyncLocations[i].remoteName = name
+																						}
 																					}
-																				}
 
-																				await db.set(
-																					"syncLocations:" + userId,
-																					currentSyncLocations
-																				)
+																					return currentSyncLocations
+																				})
 
 																				toast({
 																					description: i18n(lang, "syncLocationCreated"),
@@ -802,21 +894,15 @@ const SettingsWindowSyncs = memo(
 													const type = e.nativeEvent.target.value
 
 													try {
-														let currentSyncLocations: Location[] | null = await db.get(
-															"syncLocations:" + userId
-														)
-
-														if (!Array.isArray(currentSyncLocations)) {
-															currentSyncLocations = []
-														}
-
-														for (let i = 0; i < currentSyncLocations.length; i++) {
-															if (currentSyncLocations[i].uuid == currentSyncLocation.uuid) {
-																currentSyncLocations[i].type = type
+														await updateSyncLocations(userId, currentSyncLocations => {
+															for (let i = 0; i < currentSyncLocations.length; i++) {
+																if (currentSyncLocations[i].uuid == currentSyncLocation.uuid) {
+																	currentSyncLocations[i].type = type
+																}
 															}
-														}
 
-														await db.set("syncLocations:" + userId, currentSyncLocations)
+															return currentSyncLocations
+														})
 
 														ipc.emitGlobal("global-message", {
 															type: "forceSync"
@@ -879,6 +965,118 @@ const SettingsWindowSyncs = memo(
 											</Select>
 										</Flex>
 									</Flex>
+									{currentSyncLocation.type == "twoWay" && (
+										<Flex
+											width="100%"
+											height="auto"
+											justifyContent="space-between"
+											alignItems="center"
+											marginTop="10px"
+										>
+											<Flex alignItems="center">
+												<Text
+													color={colors(platform, darkMode, "textPrimary")}
+													fontSize={14}
+												>
+													{i18n(lang, "conflictMode")}
+												</Text>
+												<Tooltip
+													label={
+														<Flex flexDirection="column">
+															<Text color={colors(platform, darkMode, "textPrimary")}>
+																{i18n(lang, "conflictModeInfo")}
+															</Text>
+														</Flex>
+													}
+													placement="right"
+													borderRadius="15px"
+													backgroundColor={colors(platform, darkMode, "backgroundSecondary")}
+													shadow="none"
+												>
+													<Flex marginLeft="5px">
+														<AiOutlineInfoCircle
+															size={18}
+															color={colors(platform, darkMode, "textPrimary")}
+														/>
+													</Flex>
+												</Tooltip>
+											</Flex>
+											<Flex alignItems="center">
+												<Select
+													value={currentSyncLocation.conflictMode || "keepBoth"}
+													color={colors(platform, darkMode, "textPrimary")}
+													fontSize={14}
+													height="30px"
+													borderColor={colors(platform, darkMode, "borderPrimary")}
+													_focus={{ outline: "none" }}
+													outline="none"
+													_active={{ outline: "none" }}
+													onChange={async (e: any) => {
+														const conflictMode = e.nativeEvent.target.value
+
+														try {
+															await updateSyncLocations(userId, currentSyncLocations => {
+																for (let i = 0; i < currentSyncLocations.length; i++) {
+																	if (currentSyncLocations[i].uuid == currentSyncLocation.uuid) {
+																		currentSyncLocations[i].conflictMode = conflictMode
+																	}
+																}
+
+																return currentSyncLocations
+															})
+
+															ipc.emitGlobal("global-message", {
+																type: "forceSync"
+															}).catch(log.error)
+														} catch (e) {
+															log.error(e)
+														}
+													}}
+												>
+													<option
+														value="keepBoth"
+														style={{
+															backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+															height: "30px",
+															borderRadius: "10px"
+														}}
+													>
+														{i18n(lang, "conflictModeKeepBoth")}
+													</option>
+													<option
+														value="preferLocal"
+														style={{
+															backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+															height: "30px",
+															borderRadius: "10px"
+														}}
+													>
+														{i18n(lang, "conflictModePreferLocal")}
+													</option>
+													<option
+														value="preferRemote"
+														style={{
+															backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+															height: "30px",
+															borderRadius: "10px"
+														}}
+													>
+														{i18n(lang, "conflictModePreferRemote")}
+													</option>
+													<option
+														value="ask"
+														style={{
+															backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+															height: "30px",
+															borderRadius: "10px"
+														}}
+													>
+														{i18n(lang, "conflictModeAsk")}
+													</option>
+												</Select>
+											</Flex>
+										</Flex>
+									)}
 									{typeof currentSyncLocation.remote === "string" && (
 										<Flex
 											width="100%"
@@ -1003,19 +1201,15 @@ const SettingsWindowSyncs = memo(
 													const paused = event.nativeEvent.target.checked
 
 													try {
-														let currentSyncLocations: Location[] = await db.get("syncLocations:" + userId)
-
-														if (!Array.isArray(currentSyncLocations)) {
-															currentSyncLocations = []
-														}
-
-														for (let i = 0; i < currentSyncLocations.length; i++) {
-															if (currentSyncLocations[i].uuid == currentSyncLocation.uuid) {
-																currentSyncLocations[i].paused = paused
+														await updateSyncLocations(userId, currentSyncLocations => {
+															for (let i = 0; i < currentSyncLocations.length; i++) {
+																if (currentSyncLocations[i].uuid == currentSyncLocation.uuid) {
+																	currentSyncLocations[i].paused = paused
+																}
 															}
-														}
 
-														await db.set("syncLocations:" + userId, currentSyncLocations)
+															return currentSyncLocations
+														})
 
 														ipc.emitGlobal("global-message", {
 															type: "forceSync"
@@ -1027,98 +1221,700 @@ const SettingsWindowSyncs = memo(
 											/>
 										</Flex>
 									</Flex>
-									{typeof currentSyncLocation !== "undefined" && typeof currentSyncLocation.remoteUUID == "string" && (
-										<>
-											<Flex
-												width="100%"
-												height="auto"
-												justifyContent="space-between"
-												alignItems="center"
-												marginTop="25px"
+									<Flex
+										width="100%"
+										height="auto"
+										justifyContent="space-between"
+										alignItems="center"
+										marginTop="10px"
+									>
+										<Flex alignItems="center">
+											<Text
+												color={colors(platform, darkMode, "textPrimary")}
+												fontSize={14}
 											>
-												<Link
-													color={colors(platform, darkMode, "link")}
-													textDecoration="none"
-													_hover={{ textDecoration: "none" }}
-													fontSize={13}
-													onClick={async () =>
-														shell.openPath(await fsLocal.realPath(currentSyncLocation.local)).catch(log.error)
-													}
-													marginRight="15px"
-												>
-													{i18n(lang, "openLocalFolder")}
-												</Link>
-											</Flex>
-											<Flex
-												width="100%"
-												height="auto"
-												justifyContent="space-between"
-												alignItems="center"
-												marginTop="10px"
+												{i18n(lang, "contentHash")}
+											</Text>
+											<Tooltip
+												label={
+													<Flex flexDirection="column">
+														<Text color={colors(platform, darkMode, "textPrimary")}>
+															{i18n(lang, "contentHashInfo")}
+														</Text>
+													</Flex>
+												}
+												placement="right"
+												borderRadius="15px"
+												backgroundColor={colors(platform, darkMode, "backgroundSecondary")}
+												shadow="none"
 											>
-												<Link
-													color={colors(platform, darkMode, "link")}
-													textDecoration="none"
-													_hover={{ textDecoration: "none" }}
-													fontSize={13}
-													onClick={async () =>
-														shell
-															.openPath(
-																await fsLocal.realPath(currentSyncLocation.local + "/.filen.trash.local")
-															)
-															.catch(log.error)
+												<Flex marginLeft="5px">
+													<AiOutlineInfoCircle
+														size={18}
+														color={colors(platform, darkMode, "textPrimary")}
+													/>
+												</Flex>
+											</Tooltip>
+										</Flex>
+										<Flex>
+											<Switch
+												isChecked={currentSyncLocation.contentHash === true}
+												_focus={{ outline: "none" }}
+												outline="none"
+												_active={{ outline: "none" }}
+												onChange={async (event: any) => {
+													const contentHash = event.nativeEvent.target.checked
+
+													try {
+														await updateSyncLocations(userId, currentSyncLocations => {
+															for (let i = 0; i < currentSyncLocations.length; i++) {
+																if (currentSyncLocations[i].uuid == currentSyncLocation.uuid) {
+																	currentSyncLocations[i].contentHash = contentHash
+																}
+															}
+
+															return currentSyncLocations
+														})
+
+														await db.set("localDataChanged:" + currentSyncLocation.uuid, true)
+
+														ipc.emitGlobal("global-message", {
+															type: "forceSync"
+														}).catch(log.error)
+													} catch (e) {
+														log.error(e)
 													}
-													marginRight="15px"
-												>
-													{i18n(lang, "openLocalTrash")}
-												</Link>
-											</Flex>
-										</>
-									)}
-									{typeof currentSyncLocation !== "undefined" && !currentSyncLocation.busy && (
-										<Flex
-											width="100%"
-											height="auto"
-											justifyContent="space-between"
-											alignItems="center"
-											marginTop="25px"
-										>
-											<Link
-												color={colors(platform, darkMode, "danger")}
-												textDecoration="none"
-												_hover={{ textDecoration: "none" }}
-												fontSize={11}
-												onClick={() => {
-													setSyncSettingsModalOpen(false)
-													setTimeout(() => setConfirmDeleteModalOpen(true), 250)
 												}}
-												marginRight="15px"
-											>
-												{i18n(lang, "deleteSyncLocation")}
-											</Link>
+											/>
 										</Flex>
-									)}
-								</>
-							)}
-						</ModalBody>
-						<ModalFooter>
-							<Link
-								color={colors(platform, darkMode, "link")}
-								textDecoration="none"
-								_hover={{ textDecoration: "none" }}
-								onClick={() => setSyncSettingsModalOpen(false)}
-							>
-								{i18n(lang, "close")}
-							</Link>
-						</ModalFooter>
-					</ModalContent>
-				</Modal>
-				<Modal
-					onClose={() => setConfirmDeleteModalOpen(false)}
-					isOpen={confirmDeleteModalOpen}
-					isCentered={true}
-				>
-					<ModalOverlay borderRadius="10px" />
+									</Flex>
+									<Flex
+										width="100%"
+										height="auto"
+										justifyContent="space-between"
+										alignItems="center"
+										marginTop="10px"
+									>
+										<Flex alignItems="center">
+											<Text
+												color={colors(platform, darkMode, "textPrimary")}
+												fontSize={14}
+											>
+												{i18n(lang, "symlinkMode")}
+											</Text>
+											<Tooltip
+												label={
+													<Flex flexDirection="column">
+														<Text color={colors(platform, darkMode, "textPrimary")}>
+															{i18n(lang, "symlinkModeInfo")}
+														</Text>
+													</Flex>
+												}
+												placement="right"
+												borderRadius="15px"
+												backgroundColor={colors(platform, darkMode, "backgroundSecondary")}
+												shadow="none"
+											>
+												<Flex marginLeft="5px">
+													<AiOutlineInfoCircle
+														size={18}
+														color={colors(platform, darkMode, "textPrimary")}
+													/>
+												</Flex>
+											</Tooltip>
+										</Flex>
+										<Flex alignItems="center">
+											<Select
+												value={currentSyncLocation.symlinkMode || "skip"}
+												color={colors(platform, darkMode, "textPrimary")}
+												fontSize={14}
+												height="30px"
+												borderColor={colors(platform, darkMode, "borderPrimary")}
+												_focus={{ outline: "none" }}
+												outline="none"
+												_active={{ outline: "none" }}
+												onChange={async (e: any) => {
+													const symlinkMode = e.nativeEvent.target.value
+
+													try {
+														await updateSyncLocations(userId, currentSyncLocations => {
+															for (let i = 0; i < currentSyncLocations.length; i++) {
+																if (currentSyncLocations[i].uuid == currentSyncLocation.uuid) {
+																	currentSyncLocations[i].symlinkMode = symlinkMode
+																}
+															}
+
+															return currentSyncLocations
+														})
+
+														await db.set("localDataChanged:" + currentSyncLocation.uuid, true)
+
+														ipc.emitGlobal("global-message", {
+															type: "forceSync"
+														}).catch(log.error)
+													} catch (e) {
+														log.error(e)
+													}
+												}}
+											>
+												<option
+													value="skip"
+													style={{
+														backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+														height: "30px",
+														borderRadius: "10px"
+													}}
+												>
+													{i18n(lang, "symlinkModeSkip")}
+												</option>
+												<option
+													value="follow"
+													style={{
+														backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+														height: "30px",
+														borderRadius: "10px"
+													}}
+												>
+													{i18n(lang, "symlinkModeFollow")}
+												</option>
+												<option
+													value="store"
+													style={{
+														backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+														height: "30px",
+														borderRadius: "10px"
+													}}
+												>
+													{i18n(lang, "symlinkModeStore")}
+												</option>
+											</Select>
+										</Flex>
+									</Flex>
+									<Flex
+										width="100%"
+										height="auto"
+										justifyContent="space-between"
+										alignItems="center"
+										marginTop="10px"
+									>
+										<Flex alignItems="center">
+											<Text
+												color={colors(platform, darkMode, "textPrimary")}
+												fontSize={14}
+											>
+												{i18n(lang, "locationPriority")}
+											</Text>
+											<Tooltip
+												label={
+													<Flex flexDirection="column">
+														<Text color={colors(platform, darkMode, "textPrimary")}>
+															{i18n(lang, "locationPriorityInfo")}
+														</Text>
+													</Flex>
+												}
+												placement="right"
+												borderRadius="15px"
+												backgroundColor={colors(platform, darkMode, "backgroundSecondary")}
+												shadow="none"
+											>
+												<Flex marginLeft="5px">
+													<AiOutlineInfoCircle
+														size={18}
+														color={colors(platform, darkMode, "textPrimary")}
+													/>
+												</Flex>
+											</Tooltip>
+										</Flex>
+										<Flex alignItems="center">
+											<Select
+												value={currentSyncLocation.priority || "normal"}
+												color={colors(platform, darkMode, "textPrimary")}
+												fontSize={14}
+												height="30px"
+												borderColor={colors(platform, darkMode, "borderPrimary")}
+												_focus={{ outline: "none" }}
+												outline="none"
+												_active={{ outline: "none" }}
+												onChange={(e: any) =>
+													updateSyncLocationLimits(currentSyncLocation, {
+														priority: e.nativeEvent.target.value as LocationPriority
+													})
+												}
+											>
+												<option
+													value="high"
+													style={{
+														backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+														height: "30px",
+														borderRadius: "10px"
+													}}
+												>
+													{i18n(lang, "locationPriorityHigh")}
+												</option>
+												<option
+													value="normal"
+													style={{
+														backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+														height: "30px",
+														borderRadius: "10px"
+													}}
+												>
+													{i18n(lang, "locationPriorityNormal")}
+												</option>
+												<option
+													value="low"
+													style={{
+														backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+														height: "30px",
+														borderRadius: "10px"
+													}}
+												>
+													{i18n(lang, "locationPriorityLow")}
+												</option>
+											</Select>
+										</Flex>
+									</Flex>
+									<Flex
+										width="100%"
+										height="auto"
+										justifyContent="space-between"
+										alignItems="center"
+										marginTop="10px"
+									>
+										<Text
+											color={colors(platform, darkMode, "textPrimary")}
+											fontSize={14}
+										>
+											{i18n(lang, "locationUploadKbps")}
+										</Text>
+										<Flex width="24%">
+											<Input
+												key={currentSyncLocation.uuid + ":uploadKbps"}
+												type="number"
+												defaultValue={currentSyncLocation.uploadKbps || ""}
+												placeholder="0 Kbps"
+												userSelect="none"
+												style={{
+													border: "none",
+													backgroundColor: darkMode ? "#171717" : "lightgray",
+													color: "gray",
+													height: "25px",
+													textAlign: "center",
+													paddingLeft: "5px",
+													paddingRight: "5px"
+												}}
+												_placeholder={{
+													color: "gray"
+												}}
+												onBlur={(event: any) => {
+													const value = parseInt(event.target.value)
+
+													updateSyncLocationLimits(currentSyncLocation, {
+														uploadKbps: isNaN(value) || value <= 0 ? undefined : value
+													})
+												}}
+											/>
+										</Flex>
+									</Flex>
+									<Flex
+										width="100%"
+										height="auto"
+										justifyContent="space-between"
+										alignItems="center"
+										marginTop="10px"
+									>
+										<Text
+											color={colors(platform, darkMode, "textPrimary")}
+											fontSize={14}
+										>
+											{i18n(lang, "locationDownloadKbps")}
+										</Text>
+										<Flex width="24%">
+											<Input
+												key={currentSyncLocation.uuid + ":downloadKbps"}
+												type="number"
+												defaultValue={currentSyncLocation.downloadKbps || ""}
+												placeholder="0 Kbps"
+												userSelect="none"
+												style={{
+													border: "none",
+													backgroundColor: darkMode ? "#171717" : "lightgray",
+													color: "gray",
+													height: "25px",
+													textAlign: "center",
+													paddingLeft: "5px",
+													paddingRight: "5px"
+												}}
+												_placeholder={{
+													color: "gray"
+												}}
+												onBlur={(event: any) => {
+													const value = parseInt(event.target.value)
+
+													updateSyncLocationLimits(currentSyncLocation, {
+														downloadKbps: isNaN(value) || value <= 0 ? undefined : value
+													})
+												}}
+											/>
+										</Flex>
+									</Flex>
+									<Flex
+										width="100%"
+										height="auto"
+										justifyContent="space-between"
+										alignItems="center"
+										marginTop="10px"
+									>
+										<Text
+											color={colors(platform, darkMode, "textPrimary")}
+											fontSize={14}
+										>
+											{i18n(lang, "locationMaxConcurrentUploads")}
+										</Text>
+										<Flex width="24%">
+											<Input
+												key={currentSyncLocation.uuid + ":maxConcurrentUploads"}
+												type="number"
+												defaultValue={currentSyncLocation.maxConcurrentUploads || ""}
+												placeholder="0"
+												userSelect="none"
+												style={{
+													border: "none",
+													backgroundColor: darkMode ? "#171717" : "lightgray",
+													color: "gray",
+													height: "25px",
+													textAlign: "center",
+													paddingLeft: "5px",
+													paddingRight: "5px"
+												}}
+												_placeholder={{
+													color: "gray"
+												}}
+												onBlur={(event: any) => {
+													const value = parseInt(event.target.value)
+
+													updateSyncLocationLimits(currentSyncLocation, {
+														maxConcurrentUploads: isNaN(value) || value <= 0 ? undefined : value
+													})
+												}}
+											/>
+										</Flex>
+									</Flex>
+									<Flex
+										width="100%"
+										height="auto"
+										justifyContent="space-between"
+										alignItems="center"
+										marginTop="10px"
+									>
+										<Text
+											color={colors(platform, darkMode, "textPrimary")}
+											fontSize={14}
+										>
+											{i18n(lang, "locationMaxConcurrentDownloads")}
+										</Text>
+										<Flex width="24%">
+											<Input
+												key={currentSyncLocation.uuid + ":maxConcurrentDownloads"}
+												type="number"
+												defaultValue={currentSyncLocation.maxConcurrentDownloads || ""}
+												placeholder="0"
+												userSelect="none"
+												style={{
+													border: "none",
+													backgroundColor: darkMode ? "#171717" : "lightgray",
+													color: "gray",
+													height: "25px",
+													textAlign: "center",
+													paddingLeft: "5px",
+													paddingRight: "5px"
+												}}
+												_placeholder={{
+													color: "gray"
+												}}
+												onBlur={(event: any) => {
+													const value = parseInt(event.target.value)
+
+													updateSyncLocationLimits(currentSyncLocation, {
+														maxConcurrentDownloads: isNaN(value) || value <= 0 ? undefined : value
+													})
+												}}
+											/>
+										</Flex>
+									</Flex>
+									<Flex
+										width="100%"
+										height="auto"
+										justifyContent="space-between"
+										alignItems="center"
+										marginTop="10px"
+									>
+										<Flex alignItems="center">
+											<Text
+												color={colors(platform, darkMode, "textPrimary")}
+												fontSize={14}
+											>
+												{i18n(lang, "locationWatcherMode")}
+											</Text>
+											<Tooltip
+												label={
+													<Flex flexDirection="column">
+														<Text color={colors(platform, darkMode, "textPrimary")}>
+															{i18n(lang, "locationWatcherModeInfo")}
+														</Text>
+													</Flex>
+												}
+												placement="right"
+												borderRadius="15px"
+												backgroundColor={colors(platform, darkMode, "backgroundSecondary")}
+												shadow="none"
+											>
+												<Flex marginLeft="5px">
+													<AiOutlineInfoCircle
+														size={18}
+														color={colors(platform, darkMode, "textPrimary")}
+													/>
+												</Flex>
+											</Tooltip>
+										</Flex>
+										<Flex alignItems="center">
+											<Select
+												value={currentSyncLocation.watcherMode || "auto"}
+												color={colors(platform, darkMode, "textPrimary")}
+												fontSize={14}
+												height="30px"
+												borderColor={colors(platform, darkMode, "borderPrimary")}
+												_focus={{ outline: "none" }}
+												outline="none"
+												_active={{ outline: "none" }}
+												onChange={(e: any) =>
+													updateSyncLocationLimits(currentSyncLocation, {
+														watcherMode: e.nativeEvent.target.value as WatcherModes
+													})
+												}
+											>
+												<option
+													value="auto"
+													style={{
+														backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+														height: "30px",
+														borderRadius: "10px"
+													}}
+												>
+													{i18n(lang, "locationWatcherModeAuto")}
+												</option>
+												<option
+													value="native"
+													style={{
+														backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+														height: "30px",
+														borderRadius: "10px"
+													}}
+												>
+													{i18n(lang, "locationWatcherModeNative")}
+												</option>
+												<option
+													value="polling"
+													style={{
+														backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+														height: "30px",
+														borderRadius: "10px"
+													}}
+												>
+													{i18n(lang, "locationWatcherModePolling")}
+												</option>
+												<option
+													value="hybrid"
+													style={{
+														backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+														height: "30px",
+														borderRadius: "10px"
+													}}
+												>
+													{i18n(lang, "locationWatcherModeHybrid")}
+												</option>
+											</Select>
+										</Flex>
+									</Flex>
+									<Flex
+										width="100%"
+										height="auto"
+										justifyContent="space-between"
+										alignItems="center"
+										marginTop="10px"
+									>
+										<Flex alignItems="center">
+											<Text
+												color={colors(platform, darkMode, "textPrimary")}
+												fontSize={14}
+											>
+												{i18n(lang, "locationPollingInterval")}
+											</Text>
+											<Tooltip
+												label={
+													<Flex flexDirection="column">
+														<Text color={colors(platform, darkMode, "textPrimary")}>
+															{i18n(lang, "locationPollingIntervalInfo")}
+														</Text>
+													</Flex>
+												}
+												placement="right"
+												borderRadius="15px"
+												backgroundColor={colors(platform, darkMode, "backgroundSecondary")}
+												shadow="none"
+											>
+												<Flex marginLeft="5px">
+													<AiOutlineInfoCircle
+														size={18}
+														color={colors(platform, darkMode, "textPrimary")}
+													/>
+												</Flex>
+											</Tooltip>
+										</Flex>
+										<Flex width="24%">
+											<Input
+												key={currentSyncLocation.uuid + ":pollingInterval"}
+												type="number"
+												defaultValue={currentSyncLocation.pollingInterval || ""}
+												placeholder="30-60"
+												userSelect="none"
+												style={{
+													border: "none",
+													backgroundColor: darkMode ? "#171717" : "lightgray",
+													color: "gray",
+													height: "25px",
+													textAlign: "center",
+													paddingLeft: "5px",
+													paddingRight: "5px"
+												}}
+												_placeholder={{
+													color: "gray"
+												}}
+												onBlur={(event: any) => {
+													const value = parseInt(event.target.value)
+
+													updateSyncLocationLimits(currentSyncLocation, {
+														pollingInterval: isNaN(value) || value <= 0 ? undefined : Math.max(value, 5)
+													})
+												}}
+											/>
+										</Flex>
+									</Flex>
+									{typeof currentSyncLocation !== "undefined" && typeof currentSyncLocation.remoteUUID == "string" && (
+										<>
+											<Flex
+												width="100%"
+												height="auto"
+												justifyContent="space-between"
+												alignItems="center"
+												marginTop="25px"
+											>
+												<Link
+													color={colors(platform, darkMode, "link")}
+													textDecoration="none"
+													_hover={{ textDecoration: "none" }}
+													fontSize={13}
+													onClick={async () =>
+														shell.openPath(await fsLocal.realPath(currentSyncLocation.local)).catch(log.error)
+													}
+													marginRight="15px"
+												>
+													{i18n(lang, "openLocalFolder")}
+												</Link>
+											</Flex>
+											<Flex
+												width="100%"
+												height="auto"
+												justifyContent="space-between"
+												alignItems="center"
+												marginTop="10px"
+											>
+												<Link
+													color={colors(platform, darkMode, "link")}
+													textDecoration="none"
+													_hover={{ textDecoration: "none" }}
+													fontSize={13}
+													onClick={async () =>
+														shell
+															.openPath(
+																await fsLocal.realPath(currentSyncLocation.local + "/.filen.trash.local")
+															)
+															.catch(log.error)
+													}
+													marginRight="15px"
+												>
+													{i18n(lang, "openLocalTrash")}
+												</Link>
+											</Flex>
+											<Flex
+												width="100%"
+												height="auto"
+												justifyContent="space-between"
+												alignItems="center"
+												marginTop="10px"
+											>
+												<Link
+													color={colors(platform, darkMode, "link")}
+													textDecoration="none"
+													_hover={{ textDecoration: "none" }}
+													fontSize={13}
+													onClick={() => {
+														setSyncSettingsModalOpen(false)
+														setSyncPreviewMode(currentSyncLocation.type)
+														requestSyncPreview(currentSyncLocation, currentSyncLocation.type)
+														setTimeout(() => setSyncPreviewModalOpen(true), 250)
+													}}
+													marginRight="15px"
+												>
+													{i18n(lang, "syncPreview")}
+												</Link>
+											</Flex>
+										</>
+									)}
+									{typeof currentSyncLocation !== "undefined" && !currentSyncLocation.busy && (
+										<Flex
+											width="100%"
+											height="auto"
+											justifyContent="space-between"
+											alignItems="center"
+											marginTop="25px"
+										>
+											<Link
+												color={colors(platform, darkMode, "danger")}
+												textDecoration="none"
+												_hover={{ textDecoration: "none" }}
+												fontSize={11}
+												onClick={() => {
+													setSyncSettingsModalOpen(false)
+													setTimeout(() => setConfirmDeleteModalOpen(true), 250)
+												}}
+												marginRight="15px"
+											>
+												{i18n(lang, "deleteSyncLocation")}
+											</Link>
+										</Flex>
+									)}
+								</>
+							)}
+						</ModalBody>
+						<ModalFooter>
+							<Link
+								color={colors(platform, darkMode, "link")}
+								textDecoration="none"
+								_hover={{ textDecoration: "none" }}
+								onClick={() => setSyncSettingsModalOpen(false)}
+							>
+								{i18n(lang, "close")}
+							</Link>
+						</ModalFooter>
+					</ModalContent>
+				</Modal>
+				<Modal
+					onClose={() => setConfirmDeleteModalOpen(false)}
+					isOpen={confirmDeleteModalOpen}
+					isCentered={true}
+				>
+					<ModalOverlay borderRadius="10px" />
 					<ModalContent
 						backgroundColor={colors(platform, darkMode, "backgroundPrimary")}
 						borderRadius="15px"
@@ -1169,19 +1965,15 @@ const SettingsWindowSyncs = memo(
 									setIsDeletingSyncLocation(true)
 
 									try {
-										let currentSyncLocations: Location[] | null = await db.get("syncLocations:" + userId)
-
-										if (!Array.isArray(currentSyncLocations)) {
-											currentSyncLocations = []
-										}
-
-										for (let i = 0; i < currentSyncLocations.length; i++) {
-											if (currentSyncLocations[i].uuid == currentSyncLocation.uuid) {
-												currentSyncLocations.splice(i, 1)
+										await updateSyncLocations(userId, currentSyncLocations => {
+											for (let i = 0; i < currentSyncLocations.length; i++) {
+												if (currentSyncLocations[i].uuid == currentSyncLocation.uuid) {
+													currentSyncLocations.splice(i, 1)
+												}
 											}
-										}
 
-										await db.set("syncLocations:" + userId, currentSyncLocations)
+											return currentSyncLocations
+										})
 									} catch (e) {
 										log.error(e)
 									}
@@ -1268,6 +2060,243 @@ const SettingsWindowSyncs = memo(
 						</ModalFooter>
 					</ModalContent>
 				</Modal>
+				<Modal
+					onClose={() => {
+						setSyncPreviewModalOpen(false)
+						setTimeout(() => setSyncSettingsModalOpen(true), 100)
+					}}
+					isOpen={syncPreviewModalOpen}
+					isCentered={true}
+					size="xl"
+				>
+					<ModalOverlay borderRadius="10px" />
+					<ModalContent
+						backgroundColor={colors(platform, darkMode, "backgroundPrimary")}
+						borderRadius="15px"
+					>
+						<ModalHeader color={colors(platform, darkMode, "textPrimary")}>{i18n(lang, "syncPreview")}</ModalHeader>
+						<ModalCloseButton
+							color={colors(platform, darkMode, "textPrimary")}
+							_hover={{ backgroundColor: colors(platform, darkMode, "backgroundSecondary") }}
+						/>
+						<ModalBody>
+							<Flex
+								width="100%"
+								height="auto"
+								justifyContent="space-between"
+								alignItems="center"
+							>
+								<Text
+									color={colors(platform, darkMode, "textPrimary")}
+									fontSize={14}
+								>
+									{i18n(lang, "syncMode")}
+								</Text>
+								<Select
+									value={syncPreviewMode}
+									color={colors(platform, darkMode, "textPrimary")}
+									fontSize={14}
+									height="30px"
+									width="auto"
+									borderColor={colors(platform, darkMode, "borderPrimary")}
+									_focus={{ outline: "none" }}
+									outline="none"
+									_active={{ outline: "none" }}
+									disabled={syncPreviewLoading}
+									onChange={(e: any) => {
+										const syncMode: SyncModes = e.nativeEvent.target.value
+
+										setSyncPreviewMode(syncMode)
+
+										if (typeof currentSyncLocation !== "undefined") {
+											requestSyncPreview(currentSyncLocation, syncMode)
+										}
+									}}
+								>
+									<option
+										value="twoWay"
+										style={{
+											backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+											height: "30px",
+											borderRadius: "10px"
+										}}
+									>
+										{i18n(lang, "syncModeTwoWay")}
+									</option>
+									<option
+										value="localToCloud"
+										style={{
+											backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+											height: "30px",
+											borderRadius: "10px"
+										}}
+									>
+										{i18n(lang, "syncModeLocalToCloud")}
+									</option>
+									<option
+										value="localBackup"
+										style={{
+											backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+											height: "30px",
+											borderRadius: "10px"
+										}}
+									>
+										{i18n(lang, "syncModeLocalBackup")}
+									</option>
+									<option
+										value="cloudToLocal"
+										style={{
+											backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+											height: "30px",
+											borderRadius: "10px"
+										}}
+									>
+										{i18n(lang, "syncModeCloudToLocal")}
+									</option>
+									<option
+										value="cloudBackup"
+										style={{
+											backgroundColor: colors(platform, darkMode, "backgroundSecondary"),
+											height: "30px",
+											borderRadius: "10px"
+										}}
+									>
+										{i18n(lang, "syncModeCloudBackup")}
+									</option>
+								</Select>
+							</Flex>
+							<Flex
+								width="100%"
+								height="auto"
+								maxHeight="360px"
+								overflowY="auto"
+								flexDirection="column"
+								marginTop="20px"
+							>
+								{syncPreviewLoading || typeof syncPreview == "undefined" ? (
+									<Flex
+										width="100%"
+										height="100px"
+										justifyContent="center"
+										alignItems="center"
+									>
+										<Spinner
+											width="32px"
+											height="32px"
+											color={colors(platform, darkMode, "textPrimary")}
+										/>
+									</Flex>
+								) : typeof syncPreview.err == "string" ? (
+									<Text
+										color={colors(platform, darkMode, "danger")}
+										fontSize={14}
+									>
+										{syncPreview.err}
+									</Text>
+								) : syncPreview.initial ? (
+									<Text
+										color={colors(platform, darkMode, "textSecondary")}
+										fontSize={14}
+									>
+										{i18n(lang, "syncPreviewInitial")}
+									</Text>
+								) : Object.values(syncPreview.counts).reduce((a, b) => a + b, 0) == 0 ? (
+									<Text
+										color={colors(platform, darkMode, "textSecondary")}
+										fontSize={14}
+									>
+										{i18n(lang, "syncPreviewNothing")}
+									</Text>
+								) : (
+									(Object.keys(SYNC_PREVIEW_LABELS) as SyncTaskListType[])
+										.filter(type => syncPreview.counts[type] > 0)
+										.map(type => (
+											<Flex
+												key={type}
+												flexDirection="column"
+												marginBottom="15px"
+											>
+												<Text
+													color={
+														type == "deleteInLocal" || type == "deleteInRemote"
+															? colors(platform, darkMode, "danger")
+															: colors(platform, darkMode, "textPrimary")
+													}
+													fontSize={14}
+													fontWeight="bold"
+												>
+													{i18n(lang, SYNC_PREVIEW_LABELS[type])} ({syncPreview.counts[type]})
+												</Text>
+												{syncPreview.tasks[type].map(task => (
+													<Text
+														key={task.path + ":" + task.from}
+														color={colors(platform, darkMode, "textSecondary")}
+														fontSize={12}
+														wordBreak="break-all"
+													>
+														{typeof task.from == "string" && typeof task.to == "string"
+															? task.from + " → " + task.to
+															: task.path}
+													</Text>
+												))}
+												{syncPreview.counts[type] > syncPreview.tasks[type].length && (
+													<Text
+														color={colors(platform, darkMode, "textSecondary")}
+														fontSize={12}
+													>
+														{i18n(
+															lang,
+															"syncPreviewMore",
+															true,
+															["__COUNT__"],
+															[(syncPreview.counts[type] - syncPreview.tasks[type].length).toString()]
+														)}
+													</Text>
+												)}
+											</Flex>
+										))
+								)}
+							</Flex>
+						</ModalBody>
+						<ModalFooter>
+							<Link
+								color={colors(platform, darkMode, "link")}
+								textDecoration="none"
+								_hover={{ textDecoration: "none" }}
+								marginRight="15px"
+								onClick={() => {
+									setSyncPreviewModalOpen(false)
+									setTimeout(() => setSyncSettingsModalOpen(true), 100)
+								}}
+							>
+								{i18n(lang, "close")}
+							</Link>
+							<Link
+								color={
+									syncPreviewLoading || typeof syncPreview == "undefined" || typeof syncPreview.err == "string"
+										? "gray"
+										: colors(platform, darkMode, "link")
+								}
+								textDecoration="none"
+								_hover={{ textDecoration: "none" }}
+								onClick={() => {
+									if (
+										syncPreviewLoading ||
+										typeof syncPreview == "undefined" ||
+										typeof syncPreview.err == "string" ||
+										typeof currentSyncLocation == "undefined"
+									) {
+										return
+									}
+
+									applySyncPreview(currentSyncLocation, syncPreview.syncMode)
+								}}
+							>
+								{i18n(lang, "syncPreviewApply")}
+							</Link>
+						</ModalFooter>
+					</ModalContent>
+				</Modal>
 			</>
 		)
 	}
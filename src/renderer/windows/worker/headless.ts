@@ -0,0 +1,42 @@
+import eventListener from "../../lib/eventListener"
+import { loginWithCredentials, loginWithApiKey } from "../../lib/user"
+import { sendToAllPorts } from "../../lib/worker/ipc"
+
+const log = window.require("electron-log")
+
+// Registered when the worker route loads instead of in WorkerWindow, which is only mounted once a user is logged in.
+// The ready message tells the headless main process it can send the credentials now.
+export const listenForHeadlessLogin = (): void => {
+	eventListener.on("headlessLogin", (data: any) => {
+		const promise =
+			typeof data.apiKey == "string"
+				? loginWithApiKey({ apiKey: data.apiKey, masterKeys: data.masterKeys })
+				: loginWithCredentials({ email: data.email, password: data.password, twoFactorCode: data.twoFactorCode })
+
+		promise
+			.then(() => {
+				sendToAllPorts({
+					type: "headlessLoginResult",
+					data: {
+						success: true
+					}
+				})
+			})
+			.catch(err => {
+				log.error(err)
+
+				sendToAllPorts({
+					type: "headlessLoginResult",
+					data: {
+						success: false,
+						message: err.toString()
+					}
+				})
+			})
+	})
+
+	sendToAllPorts({
+		type: "headlessLoginReady",
+		data: {}
+	})
+}
@@ -7,9 +7,11 @@ import ipc from "../../lib/ipc"
 import useDb from "../../lib/hooks/useDb"
 import eventListener from "../../lib/eventListener"
 import useAppVersion from "../../lib/hooks/useAppVersion"
-import { SyncIssue, Location } from "../../../types"
+import { SyncIssue, Location, TransferPolicy } from "../../../types"
 import { debounce } from "lodash"
 import { initLocalTrashDirs } from "../../lib/fs/local"
+import { initUploadSessions } from "../../lib/fs/remote"
+import { initBandwidthSchedule } from "../../lib/api"
 import useSyncIssues from "../../lib/hooks/useSyncIssues"
 import { i18n } from "../../lib/i18n"
 import useLang from "../../lib/hooks/useLang"
@@ -32,6 +34,7 @@ const WorkerWindow = memo(({ userId }: { userId: number }) => {
 	const isLoggedIn: boolean = useDb("isLoggedIn", false)
 	const lang = useLang()
 	const syncLocations: Location[] = useDb("syncLocations:" + userId, [])
+	const transferPolicy: TransferPolicy = useDb("transferPolicy", { action: "none" })
 	const lastTrayState = useRef<{ icon: string; message: string }>({ icon: "", message: "" })
 	const checkingChangesTimeout = useRef<NodeJS.Timer>()
 	const [checkingChanges, setCheckingChanges] = useState<boolean>(true)
@@ -79,6 +82,8 @@ const WorkerWindow = memo(({ userId }: { userId: number }) => {
 				])
 
 				initLocalTrashDirs()
+				initUploadSessions()
+				initBandwidthSchedule()
 				checkInternet().catch(log.error)
 				sync()
 			} catch (e) {
@@ -111,8 +116,23 @@ const WorkerWindow = memo(({ userId }: { userId: number }) => {
 				syncIssues: SyncIssue[],
 				runningSyncTasks: number,
 				syncLocations: Location[],
-				checkingChanges: boolean
+				checkingChanges: boolean,
+				transferPolicy: TransferPolicy
 			) => {
+				const policyMessage =
+					transferPolicy.action == "none" || typeof transferPolicy.reason == "undefined"
+						? ""
+						: i18n(
+								lang,
+								"transferPolicy" +
+									(transferPolicy.action == "pause" ? "Paused" : "Throttled") +
+									(transferPolicy.reason == "battery" ? "Battery" : "Metered")
+						  )
+
+				const updateTrayWithPolicy = (icon: "paused" | "error" | "sync" | "normal", message: string) => {
+					updateTray(icon, policyMessage.length > 0 && message !== policyMessage ? message + "\n" + policyMessage : message)
+				}
+
 				if (!isLoggedIn) {
 					updateTray("paused", i18n(lang, "pleaseLogin"))
 
@@ -125,20 +145,26 @@ const WorkerWindow = memo(({ userId }: { userId: number }) => {
 					return
 				}
 
+				if (transferPolicy.action == "pause" && policyMessage.length > 0 && runningSyncTasks <= 0) {
+					updateTrayWithPolicy("paused", policyMessage)
+
+					return
+				}
+
 				if (paused && runningSyncTasks <= 0 && !checkingChanges) {
-					updateTray("paused", i18n(lang, "paused"))
+					updateTrayWithPolicy("paused", i18n(lang, "paused"))
 
 					return
 				}
 
 				if (syncIssues.filter(issue => issue.type == "critical").length > 0) {
-					updateTray("error", i18n(lang, "traySyncIssues", true, ["__NUM__"], [syncIssues.length.toString()]))
+					updateTrayWithPolicy("error", i18n(lang, "traySyncIssues", true, ["__NUM__"], [syncIssues.length.toString()]))
 
 					return
 				}
 
 				if (runningSyncTasks > 0) {
-					updateTray("sync", i18n(lang, "traySyncing", true, ["__NUM__"], [runningSyncTasks.toString()]))
+					updateTrayWithPolicy("sync", i18n(lang, "traySyncing", true, ["__NUM__"], [runningSyncTasks.toString()]))
 
 					return
 				}
@@ -148,21 +174,21 @@ const WorkerWindow = memo(({ userId }: { userId: number }) => {
 						const warnings = syncIssues.filter(issue => issue.type == "conflict" || issue.type == "warning").length
 
 						if (warnings > 0) {
-							updateTray("paused", i18n(lang, "trayWarnings", true, ["__NUM__"], [warnings.toString()]))
+							updateTrayWithPolicy("paused", i18n(lang, "trayWarnings", true, ["__NUM__"], [warnings.toString()]))
 						} else {
 							if (checkingChanges) {
-								updateTray("sync", i18n(lang, "checkingChanges"))
+								updateTrayWithPolicy("sync", i18n(lang, "checkingChanges"))
 
 								return
 							}
 
-							updateTray("normal", i18n(lang, "everythingSynced"))
+							updateTrayWithPolicy("normal", i18n(lang, "everythingSynced"))
 						}
 					} else {
-						updateTray("paused", i18n(lang, "trayNoSyncRemoteSetup"))
+						updateTrayWithPolicy("paused", i18n(lang, "trayNoSyncRemoteSetup"))
 					}
 				} else {
-					updateTray("paused", i18n(lang, "trayNoSyncSetup"))
+					updateTrayWithPolicy("paused", i18n(lang, "trayNoSyncSetup"))
 				}
 			},
 			1000
@@ -171,8 +197,8 @@ const WorkerWindow = memo(({ userId }: { userId: number }) => {
 	)
 
 	useEffect(() => {
-		processTray(isLoggedIn, isOnline, paused, syncIssues, runningSyncTasks, syncLocations, checkingChanges)
-	}, [isLoggedIn, isOnline, paused, syncIssues, runningSyncTasks, syncLocations, checkingChanges])
+		processTray(isLoggedIn, isOnline, paused, syncIssues, runningSyncTasks, syncLocations, checkingChanges, transferPolicy)
+	}, [isLoggedIn, isOnline, paused, syncIssues, runningSyncTasks, syncLocations, checkingChanges, transferPolicy])
 
 	useEffect(() => {
 		if (!paused) {
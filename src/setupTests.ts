@@ -0,0 +1,43 @@
+// Renderer modules resolve node and electron modules through window.require at import time.
+// Unit tests get the real node modules, a quiet electron-log and an electron whose ipc calls fail.
+// Tests running in the node environment (the sync harness) install their own window.
+
+const quietLog = {
+	info: () => {},
+	warn: () => {},
+	error: () => {},
+	debug: () => {},
+	log: () => {},
+	verbose: () => {}
+}
+
+const fakeElectron = {
+	ipcRenderer: {
+		invoke: async (channel: string) => ({
+			error: {
+				name: "Error",
+				message: "No ipc in unit tests (" + channel + ")",
+				extra: {}
+			}
+		}),
+		send: () => {},
+		on: () => {},
+		removeListener: () => {}
+	}
+}
+
+if (typeof window !== "undefined") {
+	;(window as any).require = (name: string) => {
+		if (name == "electron") {
+			return fakeElectron
+		}
+
+		if (name == "electron-log") {
+			return quietLog
+		}
+
+		return require(name)
+	}
+}
+
+export {}
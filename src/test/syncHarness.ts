@@ -0,0 +1,380 @@
+// Runs the renderer sync engine inside Jest against temp directories and an in-process mock gateway (scripts/mockGateway.js).
+// Electron is replaced by a fake whose ipcRenderer dispatches straight to the main process fs functions,
+// so everything from the local scan to the uploads takes the same code path as in the app.
+
+import { v4 as uuidv4 } from "uuid"
+import { Location, SyncModes, SyncIssue, MassDeletionDecision } from "../types"
+
+const fs = require("fs-extra")
+const os = require("os")
+const pathModule = require("path")
+const nodeCrypto = require("crypto")
+const { createMockGateway } = require("../../scripts/mockGateway")
+
+export interface SyncHarness {
+	userDataPath: string
+	gateway: any
+	mkdtemp: (prefix: string) => Promise<string>
+	createRemoteFolder: (name: string) => Promise<string>
+	addLocation: (local: string, remoteUUID: string, type?: SyncModes, options?: Partial<Location>) => Promise<Location>
+	getStoredLocation: (uuid: string) => Promise<Location | undefined>
+	syncLocation: (location: Location) => Promise<void>
+	syncUntilSettled: (location: Location, cycles?: number) => Promise<void>
+	remoteTree: (uuid: string) => Promise<{ files: string[]; folders: string[] }>
+	getSyncIssues: () => Promise<SyncIssue[]>
+	resolveMassDeletion: (issue: SyncIssue, decision: MassDeletionDecision) => Promise<void>
+	close: () => Promise<void>
+}
+
+// SYNC_HARNESS_LOG=1 prints what the engine logs, handy when a scenario fails
+const harnessLog = (...args: any[]) => {
+	if (process.env.SYNC_HARNESS_LOG) {
+		console.log(...args)
+	}
+}
+
+const quietLog = {
+	info: harnessLog,
+	warn: harnessLog,
+	error: harnessLog,
+	debug: harnessLog,
+	log: harnessLog,
+	verbose: harnessLog
+}
+
+const encodeError = (e: any) => {
+	return {
+		name: e && e.name,
+		message: e && e.message ? e.message : String(e),
+		extra: typeof e == "object" && e !== null ? { ...e } : {}
+	}
+}
+
+// Mirrors the handlers in src/main/lib/ipc/ipc.ts the sync engine needs, minus windows, tray and the watcher
+const createIpcHandlers = (userDataPath: string, mainFsLocal: any, Semaphore: any): Record<string, (...args: any[]) => any> => {
+	let syncIssues: any[] = []
+	const semaphores: Record<string, any> = {}
+	const fileKeys: Record<string, string> = {}
+
+	return {
+		getAppPath: ({ path }: { path: string }) => (path == "userData" ? userDataPath : os.tmpdir()),
+		initWatcher: () => {},
+		showTrayNotification: () => {},
+		updateTrayIcon: () => {},
+		updateTrayTooltip: () => {},
+		emitGlobal: () => {},
+		evaluateTransferPolicy: () => ({ paused: false }),
+		addSyncIssue: (syncIssue: any) => {
+			syncIssues.push(syncIssue)
+		},
+		removeSyncIssue: (uuid: string) => {
+			syncIssues = syncIssues.filter(issue => issue.uuid !== uuid)
+		},
+		getSyncIssues: () => syncIssues,
+		clearSyncIssues: () => {
+			syncIssues = []
+		},
+		setFileKey: ({ uuid, key }: { uuid: string; key: string }) => {
+			fileKeys[uuid] = key
+		},
+		getFileKey: ({ uuid }: { uuid: string }) => {
+			if (typeof fileKeys[uuid] !== "string") {
+				throw new Error("No key for " + uuid + " found")
+			}
+
+			return fileKeys[uuid]
+		},
+		acquireSemaphore: async ({ key, limit }: { key: string; limit: number }) => {
+			if (!semaphores[key]) {
+				semaphores[key] = new Semaphore(limit)
+			}
+
+			await semaphores[key].acquire()
+		},
+		releaseSemaphore: ({ key }: { key: string }) => {
+			if (semaphores[key]) {
+				semaphores[key].release()
+			}
+		},
+		// The main process commits batches through its journal. Loading the main db here would pull in the whole main ipc module,
+		// so the keys are written one by one through the renderer db. Scenarios never crash in the middle of a batch.
+		dbBatch: async ({ operations }: { operations: any[] }) => {
+			const db = require("../renderer/lib/db").default
+
+			for (const operation of operations) {
+				if (operation.type == "set") {
+					await db.set(operation.key, operation.value)
+				} else {
+					await db.remove(operation.key)
+				}
+			}
+		},
+		fsNormalizePath: (path: string) => mainFsLocal.normalizePath(path),
+		fsGetTempDir: () => mainFsLocal.getTempDir(),
+		fsGracefulLStat: (path: string) => mainFsLocal.gracefulLStat(path),
+		fsExists: (path: string) => mainFsLocal.exists(path),
+		fsDoesExistLocally: (path: string) => mainFsLocal.doesExistLocally(path),
+		fsCanReadWriteAtPath: (path: string) => mainFsLocal.canReadWriteAtPath(path),
+		fsSmokeTest: (path: string) => mainFsLocal.smokeTest(path),
+		fsReadChunk: ({ path, offset, length }: any) => mainFsLocal.readChunk(path, offset, length),
+		fsHashFile: (path: string) => mainFsLocal.hashFile(path),
+		fsRm: ({ path, location }: any) => mainFsLocal.rm(path, location),
+		fsRmPermanent: (path: string) => mainFsLocal.rmPermanent(path),
+		fsMkdir: ({ path, location }: any) => mainFsLocal.mkdir(path, location),
+		fsMove: ({ before, after, overwrite }: any) => mainFsLocal.move(before, after, overwrite),
+		fsRename: ({ before, after }: any) => mainFsLocal.rename(before, after),
+		fsCheckLastModified: (path: string) => mainFsLocal.checkLastModified(path),
+		fsCanReadAtPath: (path: string) => mainFsLocal.canReadAtPath(path),
+		fsUnlink: (path: string) => mainFsLocal.unlink(path),
+		fsUtimes: ({ path, atime, mtime }: any) => mainFsLocal.utimes(path, atime, mtime),
+		fsReadLink: (path: string) => mainFsLocal.readLink(path),
+		fsSymlink: ({ target, path, mtime }: any) => mainFsLocal.symlink(target, path, mtime),
+		fsRemove: (path: string) => mainFsLocal.remove(path),
+		fsMkdirNormal: ({ path, options }: any) => mainFsLocal.mkdirNormal(path, options),
+		fsAccess: ({ path, mode }: any) => mainFsLocal.access(path, mode),
+		fsAppendFile: ({ path, data, options }: any) => mainFsLocal.appendFile(path, data, options),
+		fsEnsureDir: (path: string) => mainFsLocal.ensureDir(path),
+		fsRealPath: (path: string) => mainFsLocal.realPath(path)
+	}
+}
+
+// Has to run before any renderer module is loaded, they resolve their dependencies through window.require at import time
+export const createSyncHarness = async (): Promise<SyncHarness> => {
+	const tempDirs: string[] = []
+	const mkdtemp = async (prefix: string): Promise<string> => {
+		const dir = await fs.realpath(await fs.mkdtemp(pathModule.join(os.tmpdir(), "filen-sync-test-" + prefix + "-")))
+
+		tempDirs.push(dir)
+
+		return dir
+	}
+
+	const userDataPath = await mkdtemp("userData")
+	const handlers: Record<string, (...args: any[]) => any> = {}
+	const fakeElectron = {
+		app: {
+			getPath: (name: string) => (name == "userData" ? userDataPath : os.tmpdir())
+		},
+		shell: {
+			trashItem: (path: string) => fs.remove(path)
+		},
+		ipcRenderer: {
+			invoke: async (channel: string, ...args: any[]) => {
+				if (typeof handlers[channel] !== "function") {
+					return {
+						error: encodeError(new Error("No handler registered for " + channel))
+					}
+				}
+
+				try {
+					return {
+						result: await Promise.resolve(handlers[channel](...args))
+					}
+				} catch (e) {
+					return {
+						error: encodeError(e)
+					}
+				}
+			},
+			send: () => {},
+			on: () => {},
+			removeListener: () => {}
+		}
+	}
+	const fakeElectronIs = {
+		linux: () => process.platform == "linux",
+		macOS: () => process.platform == "darwin",
+		windows: () => process.platform == "win32"
+	}
+
+	jest.doMock("electron", () => fakeElectron, { virtual: true })
+	jest.doMock("electron-log", () => quietLog)
+	jest.doMock("electron-is", () => fakeElectronIs)
+	// The API module only needs logout() from the settings window, which would pull in the whole UI
+	jest.doMock("../renderer/windows/settings/account", () => ({
+		logout: async () => {}
+	}))
+
+	// Test files using the harness run in the node environment (@jest-environment node), jsdom buffers come from another realm
+	// and WebCrypto rejects them. The renderer code only needs window as the global object there.
+	const globalWindow = global as any
+
+	globalWindow.window = globalWindow
+	globalWindow.require = (name: string) => {
+		if (name == "electron") {
+			return fakeElectron
+		}
+
+		if (name == "electron-log") {
+			return quietLog
+		}
+
+		return require(name)
+	}
+
+	globalWindow.navigator = {
+		onLine: true
+	}
+
+	Object.defineProperty(globalWindow, "crypto", {
+		value: nodeCrypto.webcrypto,
+		configurable: true
+	})
+
+	// The sync loop reschedules itself forever, so every timer the engine starts is cleared again on close
+	const { setTimeout: originalSetTimeout, setInterval: originalSetInterval } = globalWindow
+	const timers: any[] = []
+
+	globalWindow.setTimeout = (...args: any[]) => {
+		const timer = originalSetTimeout(...args)
+
+		timers.push(timer)
+
+		return timer
+	}
+
+	globalWindow.setInterval = (...args: any[]) => {
+		const timer = originalSetInterval(...args)
+
+		timers.push(timer)
+
+		return timer
+	}
+
+	const mainFsLocal = require("../main/lib/fs/local")
+	const { Semaphore } = require("../main/lib/helpers")
+
+	Object.assign(handlers, createIpcHandlers(userDataPath, mainFsLocal, Semaphore))
+
+	const gateway = createMockGateway({ log: () => {} })
+	const port = await gateway.listen()
+	const endpoint = {
+		scheme: "http",
+		host: "127.0.0.1",
+		port
+	}
+
+	const db = require("../renderer/lib/db").default
+	const fsRemote = require("../renderer/lib/fs/remote")
+	const sync = require("../renderer/lib/worker/sync/sync")
+	const syncUtils = require("../renderer/lib/worker/sync/sync.utils")
+	const ipc = require("../renderer/lib/ipc").default
+
+	const userId = 1
+	const masterKey = nodeCrypto.randomBytes(32).toString("hex")
+
+	await db.set("endpointProfile", {
+		api: endpoint,
+		upload: endpoint,
+		download: endpoint
+	})
+	await db.set("apiKey", gateway.createAPIKey())
+	await db.set("masterKeys", [masterKey])
+	await db.set("userId", userId)
+	await db.set("deviceId", uuidv4())
+	await db.set("syncLocations:" + userId, [])
+
+	const createRemoteFolder = async (name: string): Promise<string> => {
+		return await fsRemote.createDirectory(uuidv4(), name, gateway.getState().baseFolderUUID)
+	}
+
+	const addLocation = async (
+		local: string,
+		remoteUUID: string,
+		type: SyncModes = "twoWay",
+		options: Partial<Location> = {}
+	): Promise<Location> => {
+		const location: Location = {
+			uuid: uuidv4(),
+			local,
+			remote: "/" + pathModule.basename(local),
+			remoteUUID,
+			remoteName: pathModule.basename(local),
+			type,
+			paused: false,
+			busy: false,
+			localChanged: false,
+			...options
+		}
+
+		await db.set("syncLocations:" + userId, [...((await db.get("syncLocations:" + userId)) || []), location])
+
+		return location
+	}
+
+	// Pausing and unpausing only changes the stored location, the one a scenario holds on to stays as it was added
+	const getStoredLocation = async (uuid: string): Promise<Location | undefined> => {
+		return ((await db.get("syncLocations:" + userId)) || []).find((location: Location) => location.uuid == uuid)
+	}
+
+	// What the issues window does when the user confirms or discards held deletions, minus the forced sync
+	const resolveMassDeletion = async (issue: SyncIssue, decision: MassDeletionDecision): Promise<void> => {
+		if (typeof issue.massDeletion == "undefined") {
+			return
+		}
+
+		const { locationUUID } = issue.massDeletion
+
+		await db.set("massDeletionDecision:" + locationUUID, decision)
+		await syncUtils.updateSyncLocation(locationUUID, (location: Location) => ({ ...location, paused: false }))
+		await ipc.removeSyncIssue(issue.uuid)
+	}
+
+	// Without a watcher nothing marks the local side as changed, so every cycle rescans it completely
+	const syncLocation = async (location: Location): Promise<void> => {
+		await db.set("localDataChanged:" + location.uuid, true)
+		await sync.syncLocation(location)
+	}
+
+	// The first cycle of a location only records the trees, transfers happen from the second one on
+	const syncUntilSettled = async (location: Location, cycles: number = 3): Promise<void> => {
+		for (let i = 0; i < cycles; i++) {
+			await syncLocation(location)
+		}
+	}
+
+	// Paths relative to the remote folder, read fresh from the gateway
+	const remoteTree = async (uuid: string): Promise<{ files: string[]; folders: string[] }> => {
+		const { data } = await fsRemote.directoryTree(uuid, true, {
+			uuid: "remoteTree:" + uuid,
+			local: "",
+			type: "twoWay"
+		})
+
+		return {
+			files: Object.keys(data.files).sort(),
+			folders: Object.keys(data.folders).sort()
+		}
+	}
+
+	const close = async (): Promise<void> => {
+		globalWindow.setTimeout = originalSetTimeout
+		globalWindow.setInterval = originalSetInterval
+
+		for (const timer of timers) {
+			clearTimeout(timer)
+			clearInterval(timer)
+		}
+
+		await gateway.close()
+
+		for (const dir of tempDirs) {
+			await fs.remove(dir).catch(() => {})
+		}
+	}
+
+	return {
+		userDataPath,
+		gateway,
+		mkdtemp,
+		createRemoteFolder,
+		addLocation,
+		getStoredLocation,
+		syncLocation,
+		syncUntilSettled,
+		remoteTree,
+		getSyncIssues: () => ipc.getSyncIssues(),
+		resolveMassDeletion,
+		close
+	}
+}
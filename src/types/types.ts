@@ -4,6 +4,8 @@ export interface RemoteFileMetadata {
 	key: string
 	lastModified: number
 	mime: string
+	hash?: string
+	symlink?: string
 }
 
 export type ItemType = "folder" | "file"
@@ -55,7 +57,7 @@ export interface ReaddirFallbackEntry {
 }
 
 export interface SemaphoreInterface {
-	acquire: () => Promise<void>
+	acquire: (priority?: number) => Promise<void>
 	release: () => void
 	count: () => number
 	setMax: (max: number) => void
@@ -78,6 +80,8 @@ export type LocalTreeFiles = {
 		lastModified: number
 		ino: number
 		size: number
+		hash?: string
+		symlink?: string
 	}
 }
 
@@ -107,6 +111,10 @@ export interface LocalDirectoryTreeResult {
 
 export type SyncModes = "twoWay" | "localToCloud" | "localBackup" | "cloudToLocal" | "cloudBackup"
 
+export type ConflictModes = "keepBoth" | "preferLocal" | "preferRemote" | "ask"
+
+export type SymlinkModes = "skip" | "follow" | "store"
+
 export interface Location {
 	uuid: string
 	local: string
@@ -117,8 +125,119 @@ export interface Location {
 	paused: boolean
 	busy: boolean
 	localChanged: boolean
+	conflictMode?: ConflictModes
+	contentHash?: boolean
+	symlinkMode?: SymlinkModes
+	priority?: LocationPriority
+	uploadKbps?: number
+	downloadKbps?: number
+	maxConcurrentUploads?: number
+	maxConcurrentDownloads?: number
+	pollingInterval?: number
+	watcherMode?: WatcherModes
+}
+
+export type WatcherModes = "auto" | "native" | "polling" | "hybrid"
+
+export interface HistoryEntry {
+	timestamp: number
+	type: string
+	path: string
+	from?: string
+	to?: string
+	itemType: "file" | "folder"
+	uuid?: string
+	locationUUID: string
+	local: string
+	direction: "localToRemote" | "remoteToLocal"
+	size: number
+	result: "done" | "err"
+	err?: string
+}
+
+export interface HistoryQuery {
+	path?: string
+	locationUUID?: string
+	result?: "done" | "err"
+	before?: number
+	limit?: number
+}
+
+export type TransferPolicyActions = "none" | "pause" | "throttle"
+
+export interface TransferPolicy {
+	action: TransferPolicyActions
+	reason?: "metered" | "battery"
+	batteryLevel?: number | null
+}
+
+export type LocationPriority = "high" | "normal" | "low"
+
+export interface SyncConflict {
+	locationUUID: string
+	path: string
+	localPath: string
+	remotePath: string
+	conflictPath?: string
+	mode: ConflictModes
+}
+
+export type DbOperation =
+	| {
+			type: "set"
+			key: string
+			value: any
+	  }
+	| {
+			type: "remove"
+			key: string
+	  }
+
+// What a committed batch records in the journal, values are staged in temporary files beside the store instead of being copied in
+export type DbJournalOperation =
+	| {
+			type: "set"
+			key: string
+			tmp: string
+	  }
+	| {
+			type: "remove"
+			key: string
+	  }
+
+export interface DbMigrationContext {
+	get: (key: string) => Promise<any>
+	keys: () => Promise<string[]>
+	batch: (operations: DbOperation[]) => Promise<void>
+	userDataPath: string
+}
+
+export interface DbMigration {
+	version: number
+	description: string
+	up: (db: DbMigrationContext) => Promise<void>
+}
+
+export interface DbMigrationStatus {
+	version: number
+	latest: number
+	corrupt: string[]
+	error?: {
+		version: number
+		description: string
+		message: string
+		timestamp: number
+	}
+}
+
+export interface MassDeletion {
+	locationUUID: string
+	deleteInRemote: number
+	deleteInLocal: number
 }
 
+export type MassDeletionDecision = "confirm" | "discard"
+
 export interface SyncIssue {
 	uuid: string
 	type: "critical" | "conflict" | "info" | "warning"
@@ -127,6 +246,8 @@ export interface SyncIssue {
 	err?: any
 	info: string
 	timestamp: number
+	conflict?: SyncConflict
+	massDeletion?: MassDeletion
 }
 
 export interface ItemProps {
@@ -148,3 +269,89 @@ export interface WatcherEvent {
 }
 
 export type Window = { id: number; type: string }
+
+export type EndpointType = "api" | "upload" | "download"
+
+export interface Endpoint {
+	scheme: "https" | "http"
+	host: string
+	port: number
+}
+
+export interface EndpointProfile {
+	api?: Endpoint
+	upload?: Endpoint
+	download?: Endpoint
+	ca?: string
+}
+
+export interface BandwidthScheduleRule {
+	uuid: string
+	days: number[]
+	start: string
+	end: string
+	uploadKbps: number
+	downloadKbps: number
+}
+
+export interface NetworkingSettings {
+	uploadKbps: number
+	downloadKbps: number
+	schedule?: BandwidthScheduleRule[]
+}
+
+export type ProxyModes = "none" | "system" | "http" | "socks5"
+
+export interface ProxySettings {
+	mode: ProxyModes
+	host?: string
+	port?: number
+	username?: string
+	password?: string
+	bypass?: string[]
+}
+
+export interface UploadSession {
+	uuid: string
+	uploadKey: string
+	key: string
+	rm: string
+	parent: string
+	chunks: number
+	uploadedChunks: number[]
+	region: string
+	bucket: string
+	size: number
+	lastModified: number
+	ino: number
+	mtimeMs: number
+	created: number
+	updated: number
+}
+
+export type SyncTaskListType =
+	| "renameInRemote"
+	| "renameInLocal"
+	| "moveInRemote"
+	| "moveInLocal"
+	| "deleteInRemote"
+	| "deleteInLocal"
+	| "uploadToRemote"
+	| "downloadFromRemote"
+
+export interface SyncPreviewTask {
+	type: ItemType
+	path: string
+	from?: string
+	to?: string
+}
+
+export interface SyncPreview {
+	locationUUID: string
+	syncMode: SyncModes
+	initial: boolean
+	counts: Record<SyncTaskListType, number>
+	tasks: Record<SyncTaskListType, SyncPreviewTask[]>
+	err?: string
+	timestamp: number
+}